@@ -4,6 +4,9 @@ import { rspack, type Configuration } from "@rspack/core";
 import { loadAliasesFromTsconfig } from "../utils";
 import dotenv from 'dotenv';
 import { BUILD_FOLDER_NAME, STATIC_PATH } from "@constants/globals";
+import { getBasePath } from "@runtime/client/base-path";
+import { getTrailingSlash, isCaseSensitive } from "@runtime/client/routing-options";
+import { getI18nConfig } from "@runtime/client/i18n";
 
 /**
  * Creates Rspack configuration for client bundle.
@@ -40,6 +43,9 @@ export function createClientConfig(
     publicEnv["process.env.PUBLIC_WS_BASE_URL"] = JSON.stringify(undefined);
   }
 
+  // Routing options (set by startServer/buildApp), read on the client by the runtime helpers
+  const basePath = getBasePath();
+
   const config: Configuration = {
     mode,
     entry: {
@@ -49,7 +55,7 @@ export function createClientConfig(
       path: outDir,
       filename: mode === "production" ? "client.[contenthash].js" : "client.js", // Main entry
       chunkFilename: mode === "production" ? "[name].[contenthash].js" : "[name].js", // Code-split chunks (route-..., 0.js, etc.)
-      publicPath: `${STATIC_PATH}/`,
+      publicPath: `${basePath}${STATIC_PATH}/`,
     },
     context: projectRoot,
     resolve: {
@@ -89,6 +95,10 @@ export function createClientConfig(
         // Use mode directly to ensure development mode is correctly set
         // This replaces process.env.NODE_ENV in the client bundle with the literal string value
         "process.env.NODE_ENV": JSON.stringify(mode),
+        "process.env.LOLY_BASE_PATH": JSON.stringify(basePath),
+        "process.env.LOLY_TRAILING_SLASH": JSON.stringify(getTrailingSlash()),
+        "process.env.LOLY_CASE_SENSITIVE": JSON.stringify(String(isCaseSensitive())),
+        "process.env.LOLY_I18N": JSON.stringify(JSON.stringify(getI18nConfig())),
         ...publicEnv,
       }),
       new rspack.CssExtractRspackPlugin({
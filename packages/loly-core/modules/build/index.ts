@@ -7,15 +7,18 @@ import {
   writeClientBoostrapManifest,
   writeClientRoutesManifest,
   writeRoutesManifest,
+  writeRouteTypes,
   loadNotFoundRouteFromFilesystem,
   loadErrorRouteFromFilesystem,
 } from "@router/index";
 import { writeRewritesManifest } from "@router/rewrites-manifest";
+import { writeRedirectsManifest } from "@router/redirects-loader";
 import { buildClientBundle } from "./bundler/client";
 import { buildStaticPages } from "./ssg";
 import { buildServerApp } from "./bundler/server";
 import { NOT_FOUND_PATTERN } from "@constants/globals";
-import { loadConfig, getAppDir, type FrameworkConfig } from "@src/config";
+import { loadConfig, getAppDir, exposeRoutingConfig, type FrameworkConfig } from "@src/config";
+import { normalizeBasePath } from "@runtime/client/base-path";
 import { loadWssRoutes } from "@router/loader-wss";
 
 export interface BuildAppOptions {
@@ -54,6 +57,8 @@ export async function buildApp(options: BuildAppOptions = {}): Promise<void> {
   }
 
   process.env.LOLY_BUILD = "1";
+  // Expose routing options to route matching, asset URLs, the client bundle and SSG output
+  exposeRoutingConfig(config);
 
   const routes = await loadRoutes(appDir);
   const apiRoutes = await loadApiRoutes(appDir);
@@ -95,14 +100,19 @@ export async function buildApp(options: BuildAppOptions = {}): Promise<void> {
     projectRoot,
     serverOutDir,
     appDir,
+    basePath: normalizeBasePath(config.routing.basePath),
+    caseSensitive: config.routing.caseSensitive,
   });
 
   writeClientBoostrapManifest(projectRoot);
 
   writeClientRoutesManifest(routes, projectRoot);
 
-  // Generate rewrites manifest
+  writeRouteTypes(routes, projectRoot, wssRoutes);
+
+  // Generate rewrites and redirects manifests
   await writeRewritesManifest(projectRoot);
+  await writeRedirectsManifest(projectRoot);
 
   await buildClientBundle(projectRoot);
 
@@ -5,6 +5,7 @@ import { renderStaticRoute } from "./renderer";
 import { ensureDir } from "../utils";
 import { BUILD_FOLDER_NAME } from "@constants/globals";
 import { type FrameworkConfig } from "@src/config";
+import { getLocaleVariants } from "@runtime/client/i18n";
 
 /**
  * Builds static pages for routes marked with `dynamic: "force-static"`.
@@ -39,6 +40,11 @@ export async function buildStaticPages(
       allParams = [{}];
     } else {
       if (!route.generateStaticParams) {
+        if (route.dynamicParams) {
+          // Paths are rendered and persisted on first request (dynamicParams fallback)
+          console.log(`📦 [framework][ssg] Route "${route.pattern}" has no generateStaticParams, paths will be rendered on demand`);
+          continue;
+        }
         console.warn(
           `⚠️  [framework][ssg] Route "${route.pattern}" is marked as force-static but has no generateStaticParams function`
         );
@@ -80,9 +86,17 @@ export async function buildStaticPages(
         throw error;
       }
     }
+    // config.i18n: one static page per locale and default locale (domains)
+    const localeVariants = getLocaleVariants();
     for (const params of allParams) {
       const urlPath = buildPathFromPattern(route.pattern, params);
-      await renderStaticRoute(projectRoot, ssgOutDir, route, urlPath, params, config);
+      if (localeVariants.length === 0) {
+        await renderStaticRoute(projectRoot, ssgOutDir, route, urlPath, params, config);
+        continue;
+      }
+      for (const localeInfo of localeVariants) {
+        await renderStaticRoute(projectRoot, ssgOutDir, route, urlPath, params, config, localeInfo);
+      }
     }
   }
   
@@ -1,4 +1,5 @@
 import path from "path";
+import { getI18nConfig, splitLocale, type LocaleInfo } from "@runtime/client/i18n";
 
 /**
  * Builds a URL path from a route pattern and parameters.
@@ -74,3 +75,38 @@ export function pathToOutDir(baseDir: string, urlPath: string): string {
   return path.join(baseDir, clean);
 }
 
+
+/**
+ * Gets the path under which the static output of a locale variant is stored.
+ * With config.i18n every locale (including the default one) has its own directory;
+ * variants for a domain's default locale are stored under `/@{defaultLocale}`.
+ *
+ * @param urlPath - App path (e.g. '/about')
+ * @param localeInfo - Locale variant (undefined when the app is not internationalised)
+ * @returns Output path (e.g. '/es/about')
+ *
+ * @example
+ * // i18n.defaultLocale: "en", domains: [{ domain: "example.es", defaultLocale: "es" }]
+ * getLocaleOutputPath('/about', { locale: 'es', defaultLocale: 'en' }) // '/es/about'
+ * getLocaleOutputPath('/', { locale: 'en', defaultLocale: 'en' })      // '/en'
+ * getLocaleOutputPath('/about', { locale: 'es', defaultLocale: 'es' }) // '/@es/es/about'
+ * getLocaleOutputPath('/about')                                        // '/about'
+ */
+export function getLocaleOutputPath(urlPath: string, localeInfo?: LocaleInfo): string {
+  if (!localeInfo) return urlPath;
+  const localePath = urlPath === "/" ? `/${localeInfo.locale}` : `/${localeInfo.locale}${urlPath}`;
+  return localeInfo.defaultLocale === getI18nConfig()?.defaultLocale
+    ? localePath
+    : `/@${localeInfo.defaultLocale}${localePath}`;
+}
+
+/**
+ * Gets the app path of a static output path (the inverse of `getLocaleOutputPath`).
+ *
+ * @param outputPath - Output path (e.g. '/@es/es/about')
+ * @returns App path (e.g. '/about')
+ */
+export function getAppPathFromOutputPath(outputPath: string): string {
+  const localePath = outputPath.replace(/^\/@[^/]+(?=\/|$)/, "") || "/";
+  return splitLocale(localePath).path;
+}
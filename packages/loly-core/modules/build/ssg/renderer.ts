@@ -1,30 +1,40 @@
 import fs from "fs";
 import path from "path";
 import { renderToString } from "react-dom/server";
-import { loadChunksFromManifest, type LoadedRoute, type LoaderResult, type ServerContext, RedirectResponse, NotFoundResponse } from "@router/index";
+import { loadChunksFromManifest, isLoaderControlResponse, type LoadedRoute, type LoaderResult, type ServerContext, RedirectResponse, NotFoundResponse } from "@router/index";
 import {
   buildAppTree,
   buildInitialData,
   buildRouterData,
   createDocumentTree,
+  resolveDeferredProps,
 } from "@rendering/index";
-import { pathToOutDir } from "./path";
+import { getLocaleOutputPath, pathToOutDir } from "./path";
 import { ensureDir, getClientJsPath, getClientCssPath, loadAssetManifest, getFaviconInfo } from "../utils";
 import { type FrameworkConfig } from "@src/config";
 import { STATIC_PATH } from "@constants/globals";
+import { withBasePath } from "@runtime/client/base-path";
+import type { LocaleInfo } from "@runtime/client/i18n";
 import { mergeMetadata } from "../../server/handlers/pages";
+import { validateRouteInput } from "../../server/handlers/route-schemas";
 
 /**
  * Renders a static page for SSG.
  * 
  * Executes middlewares and loader, then renders the React component tree
  * to HTML. Writes both the HTML file and the data JSON file.
+ *
+ * Files are written to temporary paths and renamed into place, so a page
+ * regenerated at runtime (ISR) never serves a half-written file.
  * 
  * @param projectRoot - Root directory of the project
  * @param ssgOutDir - SSG output directory
  * @param route - Route definition
  * @param urlPath - URL path for this page
  * @param params - Route parameters
+ * @param config - Framework configuration
+ * @param locale - Locale variant to render (config.i18n); written under `/{locale}`
+ * @returns True if the page was written, false if it was skipped (redirect/notFound)
  * 
  * @example
  * await renderStaticRoute(
@@ -41,8 +51,9 @@ export async function renderStaticRoute(
   route: LoadedRoute,
   urlPath: string,
   params: Record<string, string>,
-  config?: FrameworkConfig
-): Promise<void> {
+  config?: FrameworkConfig,
+  locale?: LocaleInfo
+): Promise<boolean> {
   const routeChunks = loadChunksFromManifest(projectRoot);
   const assetManifest = loadAssetManifest(projectRoot);
   const clientJsPath = getClientJsPath(projectRoot);
@@ -58,16 +69,16 @@ export async function renderStaticRoute(
   let chunkHref: string | null = null;
   if (chunkName != null) {
     if (assetManifest && assetManifest.chunks[chunkName]) {
-      chunkHref = `${STATIC_PATH}/${assetManifest.chunks[chunkName]}`;
+      chunkHref = `${withBasePath(STATIC_PATH)}/${assetManifest.chunks[chunkName]}`;
     } else {
-      chunkHref = `${STATIC_PATH}/${chunkName}.js`;
+      chunkHref = `${withBasePath(STATIC_PATH)}/${chunkName}.js`;
     }
   }
 
   // Get entrypoint files in order for preload
   const entrypointFiles: string[] = [];
   if (assetManifest?.entrypoints?.client) {
-    entrypointFiles.push(...assetManifest.entrypoints.client.map(file => `${STATIC_PATH}/${file}`));
+    entrypointFiles.push(...assetManifest.entrypoints.client.map(file => `${withBasePath(STATIC_PATH)}/${file}`));
   }
 
   // Mock request/response objects for SSG
@@ -76,6 +87,7 @@ export async function renderStaticRoute(
     headers: {},
     query: {},
     path: urlPath,
+    localeInfo: locale,
   };
 
   const res: any = {
@@ -93,12 +105,27 @@ export async function renderStaticRoute(
     req,
     res,
     params,
+    query: {},
     pathname: urlPath,
+    locale: locale?.locale,
     locals: {},
     Redirect: (destination: string, permanent = false) => new RedirectResponse(destination, permanent),
     NotFound: () => new NotFoundResponse(),
   };
 
+  // `params` / `searchParams` schemas (a static page has no query string)
+  const input = validateRouteInput(route, { params, query: {} });
+  if (!input.success) {
+    console.warn(
+      `⚠️  [framework][ssg] ${input.error.message} (${urlPath}): ` +
+      JSON.stringify(input.error.format()) + `. Skipping this route.`
+    );
+    return false;
+  }
+  ctx.params = input.data.params;
+  ctx.query = input.data.query;
+  req.query = input.data.query;
+
   // Execute middlewares
   for (const mw of route.middlewares) {
     await Promise.resolve(
@@ -125,7 +152,7 @@ export async function renderStaticRoute(
               `⚠️  [framework][ssg] Layout server hook ${i} returned redirect/notFound for route ${route.pattern}. ` +
               `Redirect/NotFound is not supported in SSG (Static Site Generation). Skipping this route.`
             );
-            return; // Skip this route
+            return false; // Skip this route
           }
           
           // Merge props (more specific layouts override general ones)
@@ -157,12 +184,12 @@ export async function renderStaticRoute(
     loaderResult = await route.loader(ctx);
     
     // Check for RedirectResponse or NotFoundResponse (not allowed in SSG)
-    if (loaderResult instanceof RedirectResponse || loaderResult instanceof NotFoundResponse) {
+    if (isLoaderControlResponse(loaderResult)) {
       console.warn(
         `⚠️  [framework][ssg] Page server hook returned redirect/notFound for route ${route.pattern} (${urlPath}). ` +
         `Redirect/NotFound is not supported in SSG (Static Site Generation). Skipping this route.`
       );
-      return; // Skip this route
+      return false; // Skip this route
     }
   }
 
@@ -170,15 +197,16 @@ export async function renderStaticRoute(
   const pageLoaderResult = loaderResult as LoaderResult;
 
   // 3. Combine props: layout props (stable) + page props (page overrides layout)
-  const combinedProps = {
+  // Static HTML is rendered in one pass: deferred props are awaited
+  const combinedProps = await resolveDeferredProps({
     ...layoutProps,
     ...(pageLoaderResult.props || {}),
-  };
+  });
 
   // 4. Combine metadata: layout metadata (base) + page metadata (page overrides layout)
   // Layout metadata provides defaults (like site-wide Open Graph, canonical base, etc.)
   // Page metadata can override specific fields or add page-specific data
-  let combinedMetadata: LoaderResult["metadata"] = null;
+  let combinedMetadata: LoaderResult["metadata"] = locale ? { lang: locale.locale } : null;
   
   // Start with layout metadata (most general first, then more specific)
   // Later layouts override earlier ones, then page overrides all
@@ -226,13 +254,26 @@ export async function renderStaticRoute(
   const html = "<!DOCTYPE html>" + renderToString(documentTree);
 
   // Write files
-  const dir = pathToOutDir(ssgOutDir, urlPath);
+  const dir = pathToOutDir(ssgOutDir, getLocaleOutputPath(urlPath, locale));
   ensureDir(dir);
 
   const htmlFile = path.join(dir, "index.html");
   const dataFile = path.join(dir, "data.json");
 
-  fs.writeFileSync(htmlFile, html, "utf-8");
-  fs.writeFileSync(dataFile, JSON.stringify(initialData, null, 2), "utf-8");
+  writeFileAtomic(htmlFile, html);
+  writeFileAtomic(dataFile, JSON.stringify(initialData, null, 2));
+
+  return true;
+}
+
+/**
+ * Writes a file through a temporary sibling and renames it into place.
+ * rename() is atomic on the same filesystem, so readers see either the old
+ * or the new content, never a partial write.
+ */
+function writeFileAtomic(filePath: string, contents: string): void {
+  const tmpFile = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  fs.writeFileSync(tmpFile, contents, "utf-8");
+  fs.renameSync(tmpFile, filePath);
 }
 
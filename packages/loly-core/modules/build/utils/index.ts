@@ -1,5 +1,6 @@
 import fs from "fs";
 import path from "path";
+import { withBasePath } from "@runtime/client/base-path";
 
 /**
  * Ensures a directory exists, creating it recursively if needed.
@@ -175,7 +176,7 @@ export function getFaviconInfo(
     const publicPath = path.join(publicDir, candidate.name);
     if (fs.existsSync(publicPath)) {
       return {
-        path: `/${candidate.name}`, // Served at root from public/
+        path: withBasePath(`/${candidate.name}`), // Served at root (under basePath) from public/
         type: candidate.type,
       };
     }
@@ -443,7 +444,7 @@ export function getClientJsPath(projectRoot: string): string {
   const { STATIC_PATH } = require("@constants/globals");
   const manifest = loadAssetManifest(projectRoot);
   const filename = manifest?.client.js || "client.js";
-  return `${STATIC_PATH}/${filename}`;
+  return `${withBasePath(STATIC_PATH)}/${filename}`;
 }
 
 /**
@@ -457,5 +458,5 @@ export function getClientCssPath(projectRoot: string): string {
   const { STATIC_PATH } = require("@constants/globals");
   const manifest = loadAssetManifest(projectRoot);
   const filename = manifest?.client.css || "client.css";
-  return `${STATIC_PATH}/${filename}`;
+  return `${withBasePath(STATIC_PATH)}/${filename}`;
 }
\ No newline at end of file
@@ -1,7 +1,257 @@
-export function withCache(fn: any, options: any): any {
-  const ttl = options.ttl ?? 60;
+import { isLoaderControlResponse, type ServerContext } from "@router/index.types";
+import { createModuleLogger } from "@logger/index";
+import { MemoryCacheStore } from "./memory-store";
+import type { CacheEntry, CacheStore, WithCacheOptions } from "./types";
 
-  return async function cachedGssp(ctx: any): Promise<any> {
-    return await fn(ctx);
+const logger = createModuleLogger("cache");
+
+const KEY_PREFIX = "loly:cache:";
+const TAG_PREFIX = "loly:cache-tag:";
+
+let cacheStore: CacheStore | null = null;
+
+// Pending loader executions per cache key (request coalescing)
+const inFlight = new Map<string, Promise<any>>();
+
+// Incremented per `withCache` call: default keys of loaders without a scope (in-memory store only)
+let loaderCounter = 0;
+
+// Identity of the hook file that exports a cached loader, set by the route loader.
+// A global symbol: the route loader and the app's `withCache` may come from different bundles.
+const CACHE_SCOPE = Symbol.for("loly.cacheScope");
+
+type ScopedLoader = { [CACHE_SCOPE]?: string };
+
+/**
+ * Sets the identity used in the default cache keys of a `withCache` loader
+ * (its hook file, e.g. "app/blog/page.server.hook.ts"). Other functions are ignored.
+ *
+ * Unlike the order in which loaders are created, the hook file is the same across
+ * builds, restarts and instances, so a shared store never mixes results of different loaders.
+ *
+ * @param loader - Function exported by a server hook
+ * @param scope - Stable identity of the loader
+ */
+export function setCacheScope(loader: unknown, scope: string): void {
+  if (typeof loader === "function" && CACHE_SCOPE in loader) {
+    (loader as ScopedLoader)[CACHE_SCOPE] = scope;
+  }
+}
+
+/**
+ * Gets the store used by `withCache`, creating the in-memory store on first use.
+ *
+ * @returns Current cache store
+ */
+export function getCacheStore(): CacheStore {
+  if (!cacheStore) {
+    cacheStore = new MemoryCacheStore();
+  }
+  return cacheStore;
+}
+
+/**
+ * Replaces the store used by `withCache` (e.g. with a Redis-backed store).
+ * Call it once at startup, typically from `init.server.ts`.
+ *
+ * @param store - Cache store implementation
+ *
+ * @example
+ * setCacheStore(new MyRedisCacheStore(redisClient));
+ */
+export function setCacheStore(store: CacheStore): void {
+  cacheStore = store;
+  inFlight.clear();
+}
+
+/**
+ * Builds the default cache key for a loader call: pathname plus sorted query
+ * string, ignoring the internal `__fw_data` flag so SSR and data requests share entries.
+ */
+function buildDefaultKey(ctx: ServerContext): string {
+  const query = (ctx.req?.query ?? {}) as Record<string, unknown>;
+  const search = Object.keys(query)
+    .filter((name) => name !== "__fw_data")
+    .sort()
+    .map((name) => `${name}=${JSON.stringify(query[name])}`)
+    .join("&");
+
+  return search ? `${ctx.pathname}?${search}` : ctx.pathname;
+}
+
+/**
+ * Runs the loader once per key at a time and stores cacheable results.
+ */
+function runAndStore<T>(
+  cacheKey: string,
+  run: () => Promise<T>,
+  ttlMs: number,
+  swrMs: number,
+  tags: string[]
+): Promise<T> {
+  const pending = inFlight.get(cacheKey);
+  if (pending) {
+    return pending;
+  }
+
+  const promise = (async () => {
+    try {
+      const value = await run();
+
+      // Redirects and 404s are bound to the request: never cache them
+      if (ttlMs > 0 && !isLoaderControlResponse(value)) {
+        const now = Date.now();
+        const entry: CacheEntry<T> = {
+          value,
+          staleAt: now + ttlMs,
+          expiresAt: now + ttlMs + swrMs,
+          tags,
+        };
+        try {
+          const store = getCacheStore();
+          await store.set(cacheKey, entry, { ttlMs: ttlMs + swrMs });
+          for (const tag of tags) {
+            await store.setAdd(TAG_PREFIX + tag, cacheKey);
+          }
+        } catch (error) {
+          // The loader succeeded: a store failure must not fail the request
+          logger.warn("Cache store write failed", {
+            key: cacheKey,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+
+      return value;
+    } finally {
+      inFlight.delete(cacheKey);
+    }
+  })();
+
+  inFlight.set(cacheKey, promise);
+  return promise;
+}
+
+/**
+ * Wraps a server loader so its results are cached per key.
+ *
+ * - Fresh entries (younger than `ttl`) are returned without running the loader.
+ * - Stale entries within `staleWhileRevalidate` are returned immediately while
+ *   the loader refreshes them in the background.
+ * - Concurrent misses for the same key share a single loader execution.
+ * - Entries can be purged by tag with `revalidateTag()`.
+ *
+ * Redirect and not-found results are never cached.
+ *
+ * @param fn - Server loader to cache
+ * @param options - Cache options (ttl, key, tags, staleWhileRevalidate)
+ * @returns Cached loader with the same signature
+ *
+ * @example
+ * export const getServerSideProps = withCache(
+ *   async (ctx) => ({ props: { product: await getProduct(ctx.params.id) } }),
+ *   {
+ *     ttl: 60,
+ *     staleWhileRevalidate: 300,
+ *     key: (ctx) => `product-${ctx.params.id}`,
+ *     tags: ["products"],
+ *   }
+ * );
+ */
+export function withCache<TCtx = ServerContext, TResult = any>(
+  fn: (ctx: TCtx) => Promise<TResult> | TResult,
+  options: WithCacheOptions<TCtx> = {}
+): (ctx: TCtx) => Promise<TResult> {
+  const ttlMs = Math.max(0, options.ttl ?? 60) * 1000;
+  const swrMs = Math.max(0, options.staleWhileRevalidate ?? 0) * 1000;
+  const loaderId = ++loaderCounter;
+
+  const cachedLoader: ((ctx: TCtx) => Promise<TResult>) & ScopedLoader = async (ctx) => {
+    const key = options.key
+      ? `${KEY_PREFIX}${options.key(ctx)}`
+      : `${KEY_PREFIX}${getDefaultScope(cachedLoader, loaderId)}:${buildDefaultKey(ctx as unknown as ServerContext)}`;
+    const tags =
+      typeof options.tags === "function" ? options.tags(ctx) : options.tags ?? [];
+    const run = async () => await fn(ctx);
+
+    if (ttlMs === 0) {
+      return runAndStore(key, run, 0, 0, tags);
+    }
+
+    let entry: CacheEntry<TResult> | null = null;
+    try {
+      entry = await getCacheStore().get<CacheEntry<TResult>>(key);
+    } catch (error) {
+      logger.warn("Cache store read failed, running loader", {
+        key,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    const now = Date.now();
+    if (entry && now < entry.staleAt) {
+      return entry.value;
+    }
+
+    if (entry && now < entry.expiresAt) {
+      // Serve stale and refresh in the background
+      runAndStore(key, run, ttlMs, swrMs, tags).catch((error) => {
+        logger.error("Background revalidation failed", error, { key });
+      });
+      return entry.value;
+    }
+
+    return runAndStore(key, run, ttlMs, swrMs, tags);
   };
+
+  // Filled by the route loader when the function is exported by a server hook
+  cachedLoader[CACHE_SCOPE] = undefined;
+  return cachedLoader;
+}
+
+/**
+ * Gets the scope of the default cache keys of a loader: its hook file, or, with the
+ * in-memory store only, its creation order (which is only stable within a process).
+ *
+ * @throws Error if the loader has no scope and the store is shared (not in-memory)
+ */
+function getDefaultScope(loader: ScopedLoader, loaderId: number): string {
+  const scope = loader[CACHE_SCOPE];
+  if (scope) return scope;
+
+  if (!(getCacheStore() instanceof MemoryCacheStore)) {
+    throw new Error(
+      "withCache: `key` is required for loaders not exported by a server hook when a shared cache store is configured"
+    );
+  }
+  return String(loaderId);
 }
+
+/**
+ * Purges every cached loader result tagged with `tag`.
+ * The next request for those entries runs the loader again.
+ *
+ * @param tag - Tag passed to `withCache({ tags })`
+ *
+ * @example
+ * // app/api/products/route.ts
+ * export async function POST(ctx: ApiContext) {
+ *   await saveProduct(ctx.req.body);
+ *   await revalidateTag("products");
+ *   return ctx.Response({ ok: true });
+ * }
+ */
+export async function revalidateTag(tag: string): Promise<void> {
+  const store = getCacheStore();
+  const tagKey = TAG_PREFIX + tag;
+  const keys = await store.setMembers(tagKey);
+
+  for (const key of keys) {
+    await store.del(key);
+  }
+  await store.del(tagKey);
+}
+
+export { MemoryCacheStore } from "./memory-store";
+export type { MemoryCacheStoreOptions } from "./memory-store";
+export type { CacheStore, CacheEntry, WithCacheOptions } from "./types";
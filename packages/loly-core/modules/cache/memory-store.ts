@@ -0,0 +1,206 @@
+import type { CacheStore } from "./types";
+
+interface MemoryValue {
+  value: any;
+  expiresAt?: number;
+}
+
+export interface MemoryCacheStoreOptions {
+  /**
+   * Maximum number of values kept. When full, the least recently used value is evicted.
+   * @default 5000
+   */
+  maxEntries?: number;
+}
+
+/**
+ * In-memory cache store implementation.
+ * Suitable for single-instance deployments.
+ *
+ * Features:
+ * - Key-value storage with optional TTL and a maximum number of entries (LRU eviction)
+ * - Set operations (add, remove, members) used for tag indexes
+ * - Keys that expire, are evicted or deleted are also removed from the sets they
+ *   belong to, so tag indexes don't grow with entries that no longer exist
+ */
+export class MemoryCacheStore implements CacheStore {
+  private store: Map<string, MemoryValue> = new Map();
+  private sets: Map<string, Set<string>> = new Map();
+  // Sets each member belongs to (reverse index for pruning)
+  private memberOf: Map<string, Set<string>> = new Map();
+  private maxEntries: number;
+  private cleanupInterval?: NodeJS.Timeout;
+
+  constructor(options: MemoryCacheStoreOptions = {}) {
+    this.maxEntries = Math.max(1, options.maxEntries ?? 5000);
+
+    // Cleanup expired entries every 60 seconds
+    this.cleanupInterval = setInterval(() => {
+      this.cleanupExpired();
+    }, 60000);
+    // Don't keep the process alive just for cache cleanup
+    this.cleanupInterval.unref?.();
+  }
+
+  /**
+   * Cleanup expired entries
+   */
+  private cleanupExpired(): void {
+    const now = Date.now();
+
+    for (const [key, entry] of this.store.entries()) {
+      if (entry.expiresAt && entry.expiresAt < now) {
+        this.removeValue(key);
+      }
+    }
+  }
+
+  /**
+   * Get a value by key
+   */
+  async get<T = any>(key: string): Promise<T | null> {
+    const entry = this.store.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    // Check if expired
+    if (entry.expiresAt && entry.expiresAt < Date.now()) {
+      this.removeValue(key);
+      return null;
+    }
+
+    // Move to the end: Map order is the LRU order
+    this.store.delete(key);
+    this.store.set(key, entry);
+    return entry.value as T;
+  }
+
+  /**
+   * Set a value with optional TTL
+   */
+  async set<T = any>(
+    key: string,
+    value: T,
+    opts?: { ttlMs?: number }
+  ): Promise<void> {
+    const entry: MemoryValue = {
+      value,
+    };
+
+    if (opts?.ttlMs) {
+      entry.expiresAt = Date.now() + opts.ttlMs;
+    }
+
+    this.store.delete(key);
+    this.store.set(key, entry);
+
+    while (this.store.size > this.maxEntries) {
+      const oldest = this.store.keys().next().value as string;
+      this.removeValue(oldest);
+    }
+  }
+
+  /**
+   * Delete a key
+   */
+  async del(key: string): Promise<void> {
+    this.removeValue(key);
+    this.deleteSet(key);
+  }
+
+  /**
+   * Add member to a set
+   */
+  async setAdd(key: string, member: string): Promise<void> {
+    let set = this.sets.get(key);
+    if (!set) {
+      set = new Set();
+      this.sets.set(key, set);
+    }
+    set.add(member);
+
+    let owners = this.memberOf.get(member);
+    if (!owners) {
+      owners = new Set();
+      this.memberOf.set(member, owners);
+    }
+    owners.add(key);
+  }
+
+  /**
+   * Remove member from a set
+   */
+  async setRem(key: string, member: string): Promise<void> {
+    const set = this.sets.get(key);
+    if (set) {
+      set.delete(member);
+      if (set.size === 0) {
+        this.sets.delete(key);
+      }
+    }
+
+    const owners = this.memberOf.get(member);
+    if (owners) {
+      owners.delete(key);
+      if (owners.size === 0) {
+        this.memberOf.delete(member);
+      }
+    }
+  }
+
+  /**
+   * Get all members of a set
+   */
+  async setMembers(key: string): Promise<string[]> {
+    const set = this.sets.get(key);
+    return set ? Array.from(set) : [];
+  }
+
+  /**
+   * Removes a value and its membership in every set
+   */
+  private removeValue(key: string): void {
+    this.store.delete(key);
+
+    const owners = this.memberOf.get(key);
+    if (!owners) return;
+    for (const setKey of owners) {
+      const set = this.sets.get(setKey);
+      set?.delete(key);
+      if (set && set.size === 0) {
+        this.sets.delete(setKey);
+      }
+    }
+    this.memberOf.delete(key);
+  }
+
+  /**
+   * Removes a set and the reverse index of its members
+   */
+  private deleteSet(key: string): void {
+    const set = this.sets.get(key);
+    if (!set) return;
+    for (const member of set) {
+      const owners = this.memberOf.get(member);
+      owners?.delete(key);
+      if (owners && owners.size === 0) {
+        this.memberOf.delete(member);
+      }
+    }
+    this.sets.delete(key);
+  }
+
+  /**
+   * Cleanup resources
+   */
+  destroy(): void {
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+      this.cleanupInterval = undefined;
+    }
+    this.store.clear();
+    this.sets.clear();
+    this.memberOf.clear();
+  }
+}
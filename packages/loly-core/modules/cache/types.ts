@@ -0,0 +1,76 @@
+import type { ServerContext } from "@router/index.types";
+
+/**
+ * Storage backend used by `withCache`.
+ *
+ * Mirrors the subset of `RealtimeStateStore` the loader cache needs, so a
+ * Redis-backed store can implement both with the same client.
+ */
+export interface CacheStore {
+  /** Get a value by key */
+  get<T = any>(key: string): Promise<T | null>;
+
+  /** Set a value with optional TTL */
+  set<T = any>(
+    key: string,
+    value: T,
+    opts?: { ttlMs?: number }
+  ): Promise<void>;
+
+  /** Delete a key */
+  del(key: string): Promise<void>;
+
+  /** Add member to a set */
+  setAdd(key: string, member: string): Promise<void>;
+
+  /** Remove member from a set */
+  setRem(key: string, member: string): Promise<void>;
+
+  /** Get all members of a set */
+  setMembers(key: string): Promise<string[]>;
+}
+
+/**
+ * Entry persisted in the cache store for a single loader result.
+ */
+export interface CacheEntry<T = any> {
+  /** Cached loader result */
+  value: T;
+  /** Timestamp (ms) after which the entry is stale */
+  staleAt: number;
+  /** Timestamp (ms) after which the entry must not be served */
+  expiresAt: number;
+  /** Tags attached to this entry */
+  tags: string[];
+}
+
+/**
+ * Options for `withCache`.
+ */
+export interface WithCacheOptions<TCtx = ServerContext> {
+  /**
+   * Time to live in seconds. Entries older than this are stale.
+   * Use 0 to only deduplicate concurrent calls without storing results.
+   * @default 60
+   */
+  ttl?: number;
+
+  /**
+   * Custom cache key. Defaults to the loader's hook file plus the request pathname
+   * and query string. Required with a shared store when the loader is not the
+   * `getServerSideProps` of a server hook.
+   */
+  key?: (ctx: TCtx) => string;
+
+  /**
+   * Tags used to purge entries with `revalidateTag()`.
+   */
+  tags?: string[] | ((ctx: TCtx) => string[]);
+
+  /**
+   * Seconds a stale entry may still be served while it is refreshed
+   * in the background.
+   * @default 0
+   */
+  staleWhileRevalidate?: number;
+}
@@ -1,4 +1,6 @@
 import type { PageMetadata } from "@router/index";
+import { withBasePath } from "../../../runtime/client/base-path";
+import { toAppPath } from "../../../runtime/client/i18n";
 
 /**
  * Response data structure from server for route data requests
@@ -16,9 +18,13 @@ export type RouteDataResponse = {
   notFound?: boolean;
   error?: boolean;
   message?: string;
+  /** Identifies a page server hook error in the server logs */
+  digest?: string;
   params?: Record<string, string>;
   /** Pathname after rewrite (for client-side route matching) */
   pathname?: string;
+  /** Query parsed by the page's `searchParams` schema - only present when the page has one */
+  searchParams?: Record<string, unknown>;
 };
 
 type RouteData = {
@@ -228,6 +234,9 @@ async function fetchRouteDataOnce(
  * ```
  */
 export function revalidatePath(path: string, skipAutoRevalidate: boolean = false): void {
+  // Cache keys are browser URLs, which include routing.basePath
+  path = withBasePath(path);
+
   // Normalize the base path (without query params)
   const normalizedPath = path.split("?")[0];
   const hasQueryParams = path.includes("?");
@@ -392,7 +401,7 @@ export async function revalidate(): Promise<RouteData> {
       
       (window as any).__FW_DATA__ = {
         ...currentData,
-        pathname: pathname.split("?")[0],
+        pathname: toAppPath(pathname.split("?")[0]),
         params: freshData.json.params || currentData.params || {},
         props: combinedProps,
         metadata: freshData.json.metadata ?? currentData.metadata ?? null,
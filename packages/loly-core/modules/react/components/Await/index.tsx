@@ -0,0 +1,102 @@
+import React from "react";
+
+interface AwaitProps<T> {
+  /** Deferred loader prop (a promise) or an already resolved value */
+  resolve: Promise<T> | T;
+  /** Renders the resolved value */
+  children: (value: T) => React.ReactNode;
+  /** Rendered if the promise rejects (otherwise the error reaches the nearest error boundary) */
+  errorElement?: React.ReactNode | ((error: Error) => React.ReactNode);
+}
+
+type TrackedPromise<T> = Promise<T> & {
+  status?: "pending" | "fulfilled" | "rejected";
+  value?: T;
+  reason?: unknown;
+};
+
+/**
+ * Reads a promise, suspending until it settles. Uses React.use when available
+ * (React 19) and the throw-a-promise protocol otherwise.
+ */
+function readPromise<T>(promise: TrackedPromise<T>): T {
+  const reactUse = (React as any).use;
+  if (typeof reactUse === "function") {
+    return reactUse(promise);
+  }
+
+  if (promise.status === "fulfilled") {
+    return promise.value as T;
+  }
+  if (promise.status === "rejected") {
+    throw promise.reason;
+  }
+  if (promise.status !== "pending") {
+    promise.status = "pending";
+    promise.then(
+      (value) => {
+        promise.status = "fulfilled";
+        promise.value = value;
+      },
+      (reason) => {
+        promise.status = "rejected";
+        promise.reason = reason;
+      }
+    );
+  }
+  throw promise;
+}
+
+function AwaitValue<T>({ resolve, children }: Pick<AwaitProps<T>, "resolve" | "children">) {
+  const value =
+    resolve instanceof Promise ? readPromise(resolve as TrackedPromise<T>) : (resolve as T);
+  return <>{children(value)}</>;
+}
+
+class AwaitErrorBoundary extends React.Component<
+  { fallback: AwaitProps<unknown>["errorElement"]; children: React.ReactNode },
+  { error: Error | null }
+> {
+  state = { error: null as Error | null };
+
+  static getDerivedStateFromError(error: unknown) {
+    return { error: error instanceof Error ? error : new Error(String(error)) };
+  }
+
+  render() {
+    const { error } = this.state;
+    if (error) {
+      const { fallback } = this.props;
+      return <>{typeof fallback === "function" ? fallback(error) : fallback}</>;
+    }
+    return this.props.children;
+  }
+}
+
+/**
+ * Renders a deferred loader prop (see `defer()`) once it resolves.
+ * Wrap it in `<Suspense>`: the fallback is shown while the value streams in.
+ *
+ * @example
+ * ```tsx
+ * export default function PostPage({ post, comments }) {
+ *   return (
+ *     <>
+ *       <h1>{post.title}</h1>
+ *       <Suspense fallback={<p>Loading comments...</p>}>
+ *         <Await resolve={comments} errorElement={<p>Could not load comments</p>}>
+ *           {(items) => items.map((c) => <p key={c.id}>{c.text}</p>)}
+ *         </Await>
+ *       </Suspense>
+ *     </>
+ *   );
+ * }
+ * ```
+ */
+export function Await<T>({ resolve, children, errorElement }: AwaitProps<T>) {
+  const content = <AwaitValue resolve={resolve} children={children} />;
+  if (errorElement === undefined) {
+    return content;
+  }
+  return <AwaitErrorBoundary fallback={errorElement}>{content}</AwaitErrorBoundary>;
+}
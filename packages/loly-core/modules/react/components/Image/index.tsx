@@ -1,4 +1,5 @@
 import React from 'react';
+import { withBasePath } from '../../../runtime/client/base-path';
 
 interface ImageProps
   extends Omit<React.ImgHTMLAttributes<HTMLImageElement>, "src" | "alt" | "width" | "height"> {
@@ -38,7 +39,7 @@ function getOptimizedImageUrl(
   if (quality) params.set('q', quality.toString());
   if (format && format !== 'auto') params.set('format', format);
   
-  return `/_loly/image?${params.toString()}`;
+  return `${withBasePath('/_loly/image')}?${params.toString()}`;
 }
 
 /**
@@ -1,13 +1,17 @@
 import React from "react";
 import { prefetchRouteData } from "../../cache/index";
+import { resolveHref } from "../../../runtime/client/routing-options";
+import { LocaleContext } from "../../../runtime/client/LocaleContext";
+import { rememberLocale } from "../../../runtime/client/i18n";
+import type { Href } from "@router/route-types";
 
 interface LinkProps extends React.AnchorHTMLAttributes<HTMLAnchorElement> {
-  href: string;
+  href: Href;
   children: React.ReactNode;
   prefetch?: boolean;
 }
 
-import { useEffect, useRef } from "react"; 
+import { useContext, useEffect, useRef } from "react"; 
 
 function isExternal(href: string) {
   try {
@@ -21,14 +25,25 @@ function isExternal(href: string) {
 export function Link({
   href,
   prefetch = true,
+  locale,
   children,
+  onClick,
   ...rest
 }: React.PropsWithChildren<{
-  href: string;
+  href: Href;
   prefetch?: boolean;
+  /** Locale of the target page (config.i18n); defaults to the current locale */
+  locale?: string;
 }> &
   React.AnchorHTMLAttributes<HTMLAnchorElement>) {
   const ref = useRef<HTMLAnchorElement | null>(null);
+  const serverLocale = useContext(LocaleContext);
+  // Internal hrefs are app paths; the rendered href is the canonical URL
+  // (current locale, routing.basePath and routing.trailingSlash applied)
+  const resolvedHref = resolveHref(href, {
+    locale: locale ?? serverLocale?.locale,
+    defaultLocale: serverLocale?.defaultLocale,
+  });
 
   useEffect(() => {
     if (!prefetch || !ref.current || isExternal(href)) return;
@@ -39,16 +54,22 @@ export function Link({
     const io = new IntersectionObserver(([entry]) => {
       if (entry.isIntersecting && !prefetched) {
         prefetched = true;
-        prefetchRouteData(href);
+        prefetchRouteData(resolvedHref);
       }
     });
 
     io.observe(el);
     return () => io.disconnect();
-  }, [href, prefetch]);
+  }, [href, resolvedHref, prefetch]);
+
+  // Picking a locale is remembered, so "/" is not redirected to the detected one afterwards
+  const handleClick = (event: React.MouseEvent<HTMLAnchorElement>) => {
+    if (locale) rememberLocale(locale);
+    onClick?.(event);
+  };
 
   return (
-    <a ref={ref} href={href} {...rest}>
+    <a ref={ref} href={resolvedHref} onClick={handleClick} {...rest}>
       {children}
     </a>
   );
@@ -1,2 +1,2 @@
 export { Image } from "./Image";
-export { Link } from "./Link";
\ No newline at end of file
+export { Link } from "./Link";export { Await } from "./Await";
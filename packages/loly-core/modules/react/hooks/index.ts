@@ -1,3 +1,9 @@
 export { useBroadcastChannel } from "./useBroadcastChannel";
 export { useRouter } from "./useRouter";
 export type { Router } from "./useRouter";
+export { useAction, submitAction } from "./useAction";
+export type { ActionInput, SubmitActionOptions } from "./useAction";
+export { useEventSource } from "./useEventSource";
+export type { EventSourceStatus, UseEventSourceOptions } from "./useEventSource";
+export { useRealtime } from "./useRealtime";
+export type { RealtimeStatus } from "./useRealtime";
@@ -0,0 +1,160 @@
+import { useState, useCallback } from "react";
+import type { ActionResult } from "@router/index.types";
+import { revalidate } from "../../cache/index";
+import { ROUTER_NAVIGATE_KEY } from "../../../runtime/client/constants";
+import { resolveHref } from "../../../runtime/client/routing-options";
+
+export type ActionInput = FormData | HTMLFormElement | Record<string, any>;
+
+export interface SubmitActionOptions {
+  /** Name of the action in `actions` (defaults to the `action` export) */
+  action?: string;
+  /** Page URL whose action is called (defaults to the current page) */
+  url?: string;
+  /** Revalidate the current route data after a successful action (default: true) */
+  revalidate?: boolean;
+}
+
+/**
+ * Converts form data into a plain object. Repeated fields become arrays.
+ */
+function toBody(input: ActionInput): Record<string, any> {
+  if (typeof HTMLFormElement !== "undefined" && input instanceof HTMLFormElement) {
+    input = new FormData(input);
+  }
+  if (typeof FormData !== "undefined" && input instanceof FormData) {
+    const body: Record<string, any> = {};
+    input.forEach((value, key) => {
+      const entry = typeof value === "string" ? value : value.name;
+      if (key in body) {
+        body[key] = Array.isArray(body[key]) ? [...body[key], entry] : [body[key], entry];
+      } else {
+        body[key] = entry;
+      }
+    });
+    return body;
+  }
+  return { ...(input as Record<string, any>) };
+}
+
+/**
+ * Calls a page server action from the client (JSON POST to the page URL).
+ *
+ * On success the current route data is revalidated; if the action redirects,
+ * the client navigates to the destination.
+ *
+ * @param input - Form element, FormData or plain object sent as the action body
+ * @param options - Action name, target URL and revalidation
+ * @returns Action result (ok, data, errors, values, redirect)
+ *
+ * @example
+ * const result = await submitAction({ title: "Hello" }, { action: "create" });
+ * if (!result.ok) console.log(result.errors);
+ */
+export async function submitAction<TData = any>(
+  input: ActionInput,
+  options: SubmitActionOptions = {}
+): Promise<ActionResult<TData>> {
+  if (typeof window === "undefined") {
+    throw new Error("submitAction() can only be called on the client");
+  }
+
+  const name = options.action ?? "default";
+  const url = options.url
+    ? resolveHref(options.url)
+    : window.location.pathname + window.location.search;
+
+  const res = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "x-fw-data": "1",
+      Accept: "application/json",
+    },
+    body: JSON.stringify({ ...toBody(input), __action: name }),
+  });
+
+  let json: any = null;
+  try {
+    json = await res.json();
+  } catch {
+    // Non-JSON response (e.g. proxy error page)
+  }
+
+  if (json?.redirect) {
+    const destination = resolveHref(json.redirect.destination);
+    const navigate = (window as any)[ROUTER_NAVIGATE_KEY];
+    if (typeof navigate === "function" && destination.startsWith("/")) {
+      window.history.pushState({}, "", destination);
+      await navigate(destination);
+    } else {
+      window.location.href = destination;
+    }
+    return { ok: true, name, redirect: json.redirect.destination };
+  }
+
+  if (json?.action) {
+    const result = json.action as ActionResult<TData>;
+    if (result.ok && options.revalidate !== false) {
+      await revalidate();
+    }
+    return result;
+  }
+
+  throw new Error(
+    json?.message || `[loly:action] Action "${name}" failed with status ${res.status}`
+  );
+}
+
+/**
+ * Hook to call a page server action and track its state.
+ *
+ * @param options - Action name, target URL and revalidation
+ * @returns submit function, pending flag and the last result
+ *
+ * @example
+ * ```tsx
+ * function NewPostForm() {
+ *   const { submit, pending, result } = useAction({ action: "create" });
+ *
+ *   return (
+ *     <form method="post" onSubmit={(e) => { e.preventDefault(); submit(e.currentTarget); }}>
+ *       <input name="title" />
+ *       {result?.errors?.title && <p>{result.errors.title}</p>}
+ *       <button disabled={pending}>Save</button>
+ *     </form>
+ *   );
+ * }
+ * ```
+ */
+export function useAction<TData = any>(options: SubmitActionOptions = {}) {
+  const [pending, setPending] = useState(false);
+  const [result, setResult] = useState<ActionResult<TData> | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  const { action, url, revalidate: shouldRevalidate } = options;
+
+  const submit = useCallback(
+    async (input: ActionInput) => {
+      setPending(true);
+      setError(null);
+      try {
+        const next = await submitAction<TData>(input, {
+          action,
+          url,
+          revalidate: shouldRevalidate,
+        });
+        setResult(next);
+        return next;
+      } catch (err) {
+        const actionError = err instanceof Error ? err : new Error(String(err));
+        setError(actionError);
+        throw actionError;
+      } finally {
+        setPending(false);
+      }
+    },
+    [action, url, shouldRevalidate]
+  );
+
+  return { submit, pending, result, error };
+}
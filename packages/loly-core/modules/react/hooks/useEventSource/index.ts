@@ -0,0 +1,162 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { withBasePath } from "../../../runtime/client/base-path";
+
+export type EventSourceStatus = "connecting" | "open" | "closed";
+
+export interface UseEventSourceOptions<TData = any> {
+  /** Named events to listen to besides "message" (the `event` of `stream.send()`) */
+  events?: string[];
+  /** Send cookies on cross-origin requests */
+  withCredentials?: boolean;
+  /** Parse event data as JSON, falling back to the raw string (default: true) */
+  json?: boolean;
+  /** Called for every event received */
+  onMessage?: (data: TData, event: MessageEvent) => void;
+  /** Reconnection attempts after the connection is closed with an error (default: unlimited) */
+  maxRetries?: number;
+  /** Initial reconnection delay in ms, doubled on each attempt up to 30s (default: 1000) */
+  retryDelay?: number;
+}
+
+const MAX_RETRY_DELAY_MS = 30000;
+
+/**
+ * Adds the last received event id as `lastEventId` query parameter, so a new
+ * EventSource can resume where the previous one stopped (`stream.lastEventId`).
+ */
+function withLastEventId(url: string, lastEventId: string | null): string {
+  if (!lastEventId) return url;
+  const hashIndex = url.indexOf("#");
+  const base = hashIndex === -1 ? url : url.slice(0, hashIndex);
+  const separator = base.includes("?") ? "&" : "?";
+  return `${base}${separator}lastEventId=${encodeURIComponent(lastEventId)}`;
+}
+
+/**
+ * Hook to subscribe to a Server-Sent Events endpoint (e.g. an API route using `ctx.sse()`).
+ *
+ * The browser reconnects on network drops and sends `Last-Event-ID` by itself; when the
+ * connection is closed for good (e.g. an error status), the hook opens a new one with
+ * exponential backoff, resuming from the last event id.
+ *
+ * @param url - Endpoint URL (app paths get the base path), or null to stay disconnected
+ * @param options - Named events, JSON parsing, callbacks and reconnection
+ * @returns Last event data, its name and id, connection status, error and a close function
+ *
+ * @example
+ * ```tsx
+ * function Metrics() {
+ *   const { data, status } = useEventSource<{ cpu: number }>("/api/metrics", {
+ *     events: ["metric"],
+ *   });
+ *
+ *   if (status !== "open") return <p>Connecting...</p>;
+ *   return <p>CPU: {data?.cpu}%</p>;
+ * }
+ * ```
+ */
+export function useEventSource<TData = any>(
+  url: string | null,
+  options: UseEventSourceOptions<TData> = {}
+) {
+  const [data, setData] = useState<TData | null>(null);
+  const [event, setEvent] = useState<string | null>(null);
+  const [lastEventId, setLastEventId] = useState<string | null>(null);
+  const [status, setStatus] = useState<EventSourceStatus>(url ? "connecting" : "closed");
+  const [error, setError] = useState<Event | null>(null);
+
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const closeRef = useRef<() => void>(() => {});
+
+  const eventsKey = (options.events ?? []).join(",");
+  const { withCredentials } = options;
+
+  useEffect(() => {
+    if (!url || typeof window === "undefined" || typeof EventSource === "undefined") {
+      setStatus("closed");
+      return;
+    }
+
+    let source: EventSource | null = null;
+    let retryTimeout: ReturnType<typeof setTimeout> | null = null;
+    let attempts = 0;
+    let lastId: string | null = null;
+    let stopped = false;
+
+    const handleEvent = (e: Event) => {
+      const message = e as MessageEvent;
+      let value: any = message.data;
+      if (optionsRef.current.json !== false && typeof value === "string") {
+        try {
+          value = JSON.parse(value);
+        } catch {
+          // Plain text event
+        }
+      }
+      if (message.lastEventId) {
+        lastId = message.lastEventId;
+        setLastEventId(message.lastEventId);
+      }
+      setEvent(message.type);
+      setData(value);
+      optionsRef.current.onMessage?.(value, message);
+    };
+
+    const connect = () => {
+      source = new EventSource(withLastEventId(withBasePath(url), lastId), {
+        withCredentials: !!withCredentials,
+      });
+      setStatus("connecting");
+
+      source.onopen = () => {
+        attempts = 0;
+        setStatus("open");
+        setError(null);
+      };
+
+      source.onerror = (e) => {
+        setError(e);
+        if (!source || source.readyState !== EventSource.CLOSED) {
+          // The browser is reconnecting by itself
+          setStatus("connecting");
+          return;
+        }
+
+        source.close();
+        source = null;
+        const { maxRetries = Infinity, retryDelay = 1000 } = optionsRef.current;
+        if (stopped || attempts >= maxRetries) {
+          setStatus("closed");
+          return;
+        }
+
+        const delay = Math.min(retryDelay * 2 ** attempts, MAX_RETRY_DELAY_MS);
+        attempts++;
+        setStatus("connecting");
+        retryTimeout = setTimeout(connect, delay);
+      };
+
+      source.addEventListener("message", handleEvent);
+      for (const name of eventsKey ? eventsKey.split(",") : []) {
+        source.addEventListener(name, handleEvent);
+      }
+    };
+
+    const close = () => {
+      stopped = true;
+      if (retryTimeout) clearTimeout(retryTimeout);
+      source?.close();
+      source = null;
+      setStatus("closed");
+    };
+    closeRef.current = close;
+
+    connect();
+    return close;
+  }, [url, withCredentials, eventsKey]);
+
+  const close = useCallback(() => closeRef.current(), []);
+
+  return { data, event, lastEventId, status, error, close };
+}
@@ -0,0 +1,150 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import {
+  createRealtimeClient,
+  type RealtimeClient,
+  type RealtimeClientOptions,
+} from "../../sockets";
+import type {
+  RealtimeEventName,
+  RealtimeEventPayload,
+  RealtimeEventResult,
+  WssAckResponse,
+  WssError,
+} from "@realtime/types";
+import type { RealtimeRouteOf } from "@router/route-types";
+
+export type RealtimeStatus = "connecting" | "connected" | "reconnecting" | "disconnected";
+
+/**
+ * Hook to connect to a WSS namespace with a typed client (`createRealtimeClient`).
+ *
+ * The connection is opened on mount and closed on unmount or when the namespace
+ * changes; subscriptions made with `on` are removed at the same time.
+ *
+ * @param namespace - Namespace path (e.g. "/chat" or "/rooms/42"), or null to stay disconnected
+ * @param options - Socket.IO client options and `ackTimeout`
+ * @returns Connection status, last connection error and typed emit / send / on
+ *
+ * @example
+ * ```tsx
+ * function Room({ roomId }: { roomId: string }) {
+ *   const [messages, setMessages] = useState<string[]>([]);
+ *   const { status, emit, on } = useRealtime<typeof roomRoute, { message: { text: string } }>(
+ *     `/rooms/${roomId}`
+ *   );
+ *
+ *   useEffect(() => on("message", (msg) => setMessages((m) => [...m, msg.text])), [on]);
+ *
+ *   return (
+ *     <>
+ *       {status === "reconnecting" && <p>Reconnecting...</p>}
+ *       <button onClick={() => emit("message", { text: "Hi" })}>Send</button>
+ *     </>
+ *   );
+ * }
+ * ```
+ */
+export function useRealtime<
+  TRoute = never,
+  TServerEvents extends Record<string, any> = Record<string, any>,
+  TNamespace extends string = string
+>(namespace: TNamespace | null, options: RealtimeClientOptions = {}) {
+  type Route = [TRoute] extends [never] ? RealtimeRouteOf<TNamespace> : TRoute;
+
+  const [client, setClient] = useState<RealtimeClient<Route, TServerEvents> | null>(null);
+  const [status, setStatus] = useState<RealtimeStatus>(
+    namespace ? "connecting" : "disconnected"
+  );
+  // Refused connections (auth, connection caps) carry a WssError in `error.data`
+  const [error, setError] = useState<(Error & { data?: WssError }) | null>(null);
+
+  // Options are read when connecting; changing them does not reconnect
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  useEffect(() => {
+    if (!namespace || typeof window === "undefined") {
+      setStatus("disconnected");
+      return;
+    }
+
+    const realtime = createRealtimeClient<Route, TServerEvents>(
+      namespace,
+      optionsRef.current
+    ) as RealtimeClient<Route, TServerEvents>;
+    const { socket } = realtime;
+
+    const onConnect = () => {
+      setStatus("connected");
+      setError(null);
+    };
+    const onDisconnect = () => {
+      // socket.active: Socket.IO will try to reconnect (not a manual disconnect or server kick)
+      setStatus(socket.active ? "reconnecting" : "disconnected");
+    };
+    const onConnectError = (err: Error & { data?: WssError }) => {
+      setError(err);
+      setStatus(socket.active ? "reconnecting" : "disconnected");
+    };
+    const onReconnectFailed = () => setStatus("disconnected");
+
+    socket.on("connect", onConnect);
+    socket.on("disconnect", onDisconnect);
+    socket.on("connect_error", onConnectError);
+    socket.io.on("reconnect_failed", onReconnectFailed);
+
+    setStatus(socket.connected ? "connected" : "connecting");
+    setClient(realtime);
+
+    return () => {
+      socket.io.off("reconnect_failed", onReconnectFailed);
+      // Also removes the listeners registered with `on`
+      socket.removeAllListeners();
+      realtime.disconnect();
+      setClient(null);
+      setStatus("disconnected");
+    };
+  }, [namespace]);
+
+  const emit = useCallback(
+    <TEvent extends RealtimeEventName<Route>>(
+      event: TEvent,
+      payload?: RealtimeEventPayload<Route, TEvent>
+    ): Promise<WssAckResponse<RealtimeEventResult<Route, TEvent>>> => {
+      if (!client) {
+        return Promise.resolve({
+          ok: false,
+          error: { code: "DISCONNECTED", message: "Not connected" },
+        });
+      }
+      return client.emit(event, payload);
+    },
+    [client]
+  );
+
+  const send = useCallback(
+    <TEvent extends RealtimeEventName<Route>>(
+      event: TEvent,
+      payload?: RealtimeEventPayload<Route, TEvent>
+    ): void => {
+      client?.send(event, payload);
+    },
+    [client]
+  );
+
+  const on = useCallback(
+    <TEvent extends Extract<keyof TServerEvents, string>>(
+      event: TEvent,
+      listener: (payload: TServerEvents[TEvent]) => void
+    ): (() => void) => (client ? client.on(event, listener) : () => {}),
+    [client]
+  );
+
+  const onError = useCallback(
+    (listener: (error: WssError) => void): (() => void) =>
+      client ? client.onError(listener) : () => {},
+    [client]
+  );
+
+  return { client, status, error, emit, send, on, onError };
+}
@@ -2,21 +2,29 @@ import { useState, useEffect, useCallback, useContext, useRef } from "react";
 import { RouterContext } from "../../../runtime/client/RouterContext";
 import { getWindowData, getRouterData } from "../../../runtime/client/window-data";
 import { ROUTER_NAVIGATE_KEY } from "../../../runtime/client/constants";
+import { resolveHref } from "../../../runtime/client/routing-options";
+import { getCurrentLocale, getI18nConfig, toAppPath } from "../../../runtime/client/i18n";
+import { LocaleContext } from "../../../runtime/client/LocaleContext";
+import type { Href, RouteParams, RoutePattern, RouteSearchParams } from "@router/route-types";
 
-export interface Router {
+/**
+ * @template TPattern - Route pattern of the page (e.g. "/search"); types `searchParams` and `params`
+ * from the route's schemas
+ */
+export interface Router<TPattern extends RoutePattern = never> {
   /**
    * Navigate to a new route.
    * @param url - The URL to navigate to (e.g., "/about" or "/blog/[slug]" with params)
    * @param options - Navigation options
    */
-  push: (url: string, options?: { revalidate?: boolean }) => Promise<void>;
+  push: (url: Href, options?: { revalidate?: boolean }) => Promise<void>;
   
   /**
    * Replace the current route without adding to history.
    * @param url - The URL to navigate to
    * @param options - Navigation options
    */
-  replace: (url: string, options?: { revalidate?: boolean }) => Promise<void>;
+  replace: (url: Href, options?: { revalidate?: boolean }) => Promise<void>;
   
   /**
    * Go back in the browser history.
@@ -29,9 +37,19 @@ export interface Router {
   refresh: () => Promise<void>;
   
   /**
-   * Current pathname (e.g., "/blog/my-post")
+   * Current pathname, without routing.basePath and locale prefix (e.g., "/blog/my-post")
    */
   pathname: string;
+
+  /**
+   * Current locale (config.i18n), or undefined when the app is not internationalised
+   */
+  locale: string | undefined;
+
+  /**
+   * Configured locales (config.i18n.locales)
+   */
+  locales: string[];
   
   /**
    * Query parameters from the URL (e.g., ?id=123&name=test)
@@ -40,14 +58,15 @@ export interface Router {
   query: Record<string, string>;
   
   /**
-   * Search parameters from the URL (e.g., ?id=123&name=test)
+   * Search parameters from the URL (e.g., ?id=123&name=test),
+   * parsed by the page's `searchParams` schema when it has one
    */
-  searchParams: Record<string, unknown>;
+  searchParams: [TPattern] extends [never] ? Record<string, unknown> : RouteSearchParams<TPattern>;
   
   /**
    * Dynamic route parameters (e.g., { slug: "my-post" } for /blog/[slug])
    */
-  params: Record<string, string>;
+  params: RouteParams<TPattern>;
 }
 
 /**
@@ -87,11 +106,20 @@ export interface Router {
  * // Refresh current route data
  * await router.refresh();
  * ```
+ *
+ * @example
+ * ```tsx
+ * // Typed search params (app/search/page.server.hook.ts exports a `searchParams` schema)
+ * const { searchParams } = useRouter<"/search">();
+ * searchParams.page; // number
+ * ```
  */
-export function useRouter(): Router {
+export function useRouter<TPattern extends RoutePattern = never>(): Router<TPattern> {
   // Try to get context, but don't throw if it's not available (SSR)
   const context = useContext(RouterContext);
   const navigate = context?.navigate;
+  // Locale of the page rendered on the server (in the browser it is read from the URL)
+  const serverLocale = useContext(LocaleContext);
   
   // Use a ref to store navigate so we can access it in callbacks even if context updates
   // Initialize with current navigate value
@@ -110,6 +138,7 @@ export function useRouter(): Router {
         query: {},
         searchParams: {},
         params: {},
+        locale: serverLocale?.locale,
       };
     }
     
@@ -121,10 +150,11 @@ export function useRouter(): Router {
     const searchParams = routerData?.searchParams || parseQueryString(window.location.search);
     
     return {
-      pathname: routerData?.pathname || data?.pathname || window.location.pathname,
+      pathname: routerData?.pathname || data?.pathname || toAppPath(window.location.pathname),
       query: searchParams as Record<string, string>, // For backward compatibility
       searchParams: searchParams,
       params: routerData?.params || data?.params || {},
+      locale: getCurrentLocale()?.locale,
     };
   });
 
@@ -135,7 +165,7 @@ export function useRouter(): Router {
     const handleDataRefresh = () => {
       const data = getWindowData();
       const routerData = getRouterData();
-      const currentPathname = window.location.pathname;
+      const currentPathname = toAppPath(window.location.pathname);
       const currentSearch = window.location.search;
       
       const searchParams = routerData?.searchParams || parseQueryString(currentSearch);
@@ -145,6 +175,7 @@ export function useRouter(): Router {
         query: searchParams as Record<string, string>, // For backward compatibility
         searchParams: searchParams,
         params: routerData?.params || data?.params || {},
+        locale: getCurrentLocale()?.locale,
       });
     };
 
@@ -167,7 +198,8 @@ export function useRouter(): Router {
 
   const push = useCallback(
     async (url: string, options?: { revalidate?: boolean }) => {
-      const fullUrl = url.startsWith("/") ? url : `/${url}`;
+      // App paths are resolved to the canonical URL (basePath and trailingSlash)
+      const fullUrl = resolveHref(url.startsWith("/") ? url : `/${url}`);
       
       /**
        * SOLUTION: Multi-source navigate function resolution
@@ -229,7 +261,8 @@ export function useRouter(): Router {
 
   const replace = useCallback(
     async (url: string, options?: { revalidate?: boolean }) => {
-      const fullUrl = url.startsWith("/") ? url : `/${url}`;
+      // App paths are resolved to the canonical URL (basePath and trailingSlash)
+      const fullUrl = resolveHref(url.startsWith("/") ? url : `/${url}`);
       
       const getCurrentNavigate = () => {
         if (navigateRef.current) return navigateRef.current;
@@ -317,8 +350,10 @@ export function useRouter(): Router {
     refresh,
     pathname: routeData.pathname,
     query: routeData.query,
-    searchParams: routeData.searchParams,
-    params: routeData.params,
+    searchParams: routeData.searchParams as Router<TPattern>["searchParams"],
+    params: routeData.params as RouteParams<TPattern>,
+    locale: routeData.locale,
+    locales: getI18nConfig()?.locales ?? [],
   };
 }
 
@@ -1,4 +1,13 @@
 import { io, ManagerOptions, Socket, SocketOptions } from "socket.io-client";
+import { withBasePath } from "../../runtime/client/base-path";
+import type {
+  RealtimeEventName,
+  RealtimeEventPayload,
+  RealtimeEventResult,
+  WssAckResponse,
+  WssError,
+} from "@realtime/types";
+import type { RealtimeRouteOf } from "@router/route-types";
 
 /**
  * Creates a Socket.IO client connection to a specific namespace.
@@ -6,7 +15,7 @@ import { io, ManagerOptions, Socket, SocketOptions } from "socket.io-client";
  * This helper function simplifies Socket.IO client setup by handling:
  * - Namespace normalization (ensures leading slash)
  * - Base URL resolution (from environment or current origin)
- * - Default Socket.IO configuration (path: '/wss', transports: ['websocket', 'polling'])
+ * - Default Socket.IO configuration (path: '/wss' under routing.basePath, transports: ['websocket', 'polling'])
  * 
  * @param namespace - The namespace to connect to (e.g., '/chat' or 'chat').
  *                    The namespace will be normalized to always start with '/'.
@@ -44,7 +53,7 @@ export const lolySocket = (
   // The namespace is handled in the handshake
 
   const socket = io(normalizedNamespace, {
-    path: "/wss",
+    path: withBasePath("/wss"),
     transports: ["websocket", "polling"],
     autoConnect: true,
     ...opts,
@@ -52,3 +61,121 @@ export const lolySocket = (
 
   return socket;
 };
+
+export interface RealtimeClientOptions extends Partial<ManagerOptions & SocketOptions> {
+  /** Time to wait for an acknowledgement in `emit()`, in ms (default: no limit, the server answers `TIMEOUT`) */
+  ackTimeout?: number;
+}
+
+/**
+ * Typed realtime client returned by `createRealtimeClient`.
+ *
+ * @template TRoute - Route definition (`typeof route` of a `defineWssRoute` export)
+ * @template TServerEvents - Events the server sends to clients, keyed by name
+ */
+export interface RealtimeClient<
+  TRoute = unknown,
+  TServerEvents extends Record<string, any> = Record<string, any>
+> {
+  /** Underlying Socket.IO socket */
+  readonly socket: Socket;
+  /**
+   * Emits an event and waits for the handler's result (acknowledgement).
+   * Rejections (validation, guards, rate limits, timeouts) resolve with `ok: false`.
+   */
+  emit<TEvent extends RealtimeEventName<TRoute>>(
+    event: TEvent,
+    payload?: RealtimeEventPayload<TRoute, TEvent>
+  ): Promise<WssAckResponse<RealtimeEventResult<TRoute, TEvent>>>;
+  /** Emits an event without waiting for a result */
+  send<TEvent extends RealtimeEventName<TRoute>>(
+    event: TEvent,
+    payload?: RealtimeEventPayload<TRoute, TEvent>
+  ): void;
+  /**
+   * Subscribes to an event sent by the server.
+   * @returns Function that removes the listener
+   */
+  on<TEvent extends Extract<keyof TServerEvents, string>>(
+    event: TEvent,
+    listener: (payload: TServerEvents[TEvent]) => void
+  ): () => void;
+  /**
+   * Subscribes to errors of events emitted without acknowledgement (`__loly:error`).
+   * @returns Function that removes the listener
+   */
+  onError(listener: (error: WssError) => void): () => void;
+  /** Opens the connection (clients connect automatically unless `autoConnect: false`) */
+  connect(): void;
+  /** Closes the connection */
+  disconnect(): void;
+}
+
+/**
+ * Creates a typed client for a WSS namespace. Event names, payloads (from the event
+ * `schema`) and acknowledgement results (from the handler's return value) are inferred
+ * from the route definition: passed as type argument, or looked up by namespace in the
+ * generated `.loly/types/routes.d.ts`.
+ *
+ * @param namespace - Namespace path (e.g. "/chat" or "/rooms/42")
+ * @param opts - Socket.IO client options and `ackTimeout`
+ * @returns Typed realtime client
+ *
+ * @example
+ * ```ts
+ * import type chatRoute from "@/app/wss/chat/events";
+ *
+ * const chat = createRealtimeClient<typeof chatRoute, { message: { text: string } }>("/chat");
+ * const res = await chat.emit("createRoom", { name: "General" });
+ * if (res.ok) console.log(res.data.roomId);
+ *
+ * const off = chat.on("message", (msg) => console.log(msg.text));
+ * ```
+ */
+export function createRealtimeClient<
+  TRoute = never,
+  TServerEvents extends Record<string, any> = Record<string, any>,
+  TNamespace extends string = string
+>(
+  namespace: TNamespace,
+  opts: RealtimeClientOptions = {}
+): RealtimeClient<[TRoute] extends [never] ? RealtimeRouteOf<TNamespace> : TRoute, TServerEvents> {
+  const { ackTimeout, ...socketOpts } = opts;
+  const socket = lolySocket(namespace, socketOpts);
+
+  return {
+    socket,
+    emit: (event, payload) => {
+      const target = ackTimeout !== undefined ? socket.timeout(ackTimeout) : socket;
+      return target.emitWithAck(event, payload).catch((error: unknown) => ({
+        ok: false as const,
+        error: {
+          code: "TIMEOUT",
+          message: error instanceof Error ? error.message : String(error),
+        },
+      }));
+    },
+    send: (event, payload) => {
+      socket.emit(event, payload);
+    },
+    on: (event, listener) => {
+      const handler = listener as (...args: any[]) => void;
+      socket.on(event as string, handler);
+      return () => {
+        socket.off(event as string, handler);
+      };
+    },
+    onError: (listener) => {
+      socket.on("__loly:error", listener);
+      return () => {
+        socket.off("__loly:error", listener);
+      };
+    },
+    connect: () => {
+      socket.connect();
+    },
+    disconnect: () => {
+      socket.disconnect();
+    },
+  };
+}
@@ -7,12 +7,16 @@ import type { AuthFn, AuthContext } from "../types";
  * @param authFn - The auth function from the route definition
  * @param socket - The Socket.IO socket
  * @param namespace - The namespace path
+ * @param params - Params of a dynamic namespace (e.g. `{ roomId: "42" }`)
+ * @param ip - Client IP (resolved through `realtime.trustProxy`)
  * @returns The authenticated user or null
  */
 export async function executeAuth(
   authFn: AuthFn | undefined,
   socket: Socket,
-  namespace: string
+  namespace: string,
+  params: Record<string, string> = {},
+  ip: string = socket.handshake.address
 ): Promise<any | null> {
   if (!authFn) {
     return null;
@@ -22,7 +26,7 @@ export async function executeAuth(
   const authCtx: AuthContext = {
     req: {
       headers: socket.handshake.headers as Record<string, string | string[] | undefined>,
-      ip: socket.handshake.address,
+      ip,
       url: socket.handshake.url,
       cookies: socket.handshake.headers.cookie
         ? parseCookies(socket.handshake.headers.cookie)
@@ -30,6 +34,7 @@ export async function executeAuth(
     },
     socket,
     namespace,
+    params,
   };
 
   // Execute auth function
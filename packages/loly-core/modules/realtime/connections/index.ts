@@ -0,0 +1,263 @@
+import { randomUUID } from "crypto";
+import type { Socket } from "socket.io";
+import type { RealtimeStateStore, WssError } from "../types";
+
+/**
+ * Connection caps (`realtime.limits`). Undefined or 0 disables a cap.
+ */
+export interface ConnectionLimits {
+  /** Maximum open connections in the whole app (across instances in cluster mode) */
+  maxConnections?: number;
+  /** Maximum open connections per client IP (see `realtime.trustProxy`) */
+  connectionsPerIp?: number;
+  /** Maximum open connections per authenticated user (`user.id` returned by `auth`) */
+  connectionsPerUser?: number;
+}
+
+/**
+ * Result of `ConnectionLimiter.acquire()`.
+ */
+export type ConnectionAdmission =
+  | { allowed: true }
+  | { allowed: false; error: WssError };
+
+/**
+ * Resolves the client IP of a socket.
+ *
+ * Behind reverse proxies the socket address is the proxy's, so with `trustProxy`
+ * the IP is read from `X-Forwarded-For`: `true` takes the first (client) address,
+ * a number `n` trusts the last `n` hops (the address added by the outermost trusted proxy).
+ *
+ * @param socket - Socket.IO socket
+ * @param trustProxy - Proxies to trust (`realtime.trustProxy`)
+ * @returns Client IP
+ */
+export function getClientIp(socket: Socket, trustProxy?: boolean | number): string {
+  const address = socket.handshake.address;
+  if (!trustProxy) return address;
+
+  const header = socket.handshake.headers["x-forwarded-for"];
+  const forwarded = (Array.isArray(header) ? header.join(",") : header ?? "")
+    .split(",")
+    .map((ip) => ip.trim())
+    .filter(Boolean);
+  if (forwarded.length === 0) return address;
+
+  if (trustProxy === true) return forwarded[0];
+
+  // Hops, right to left: the socket address, then X-Forwarded-For entries
+  const hops = [...forwarded, address];
+  return hops[Math.max(0, hops.length - 1 - trustProxy)];
+}
+
+/**
+ * Admission control for WebSocket connections.
+ *
+ * Counts are per underlying connection: the namespaces a client opens over the same
+ * connection use a single slot. Each instance stores its own counts in the state
+ * store with a TTL refreshed by `heartbeat()`, and caps apply to the sum across
+ * instances, so the counts of a crashed instance expire instead of staying raised.
+ *
+ * A slot is reserved in the local count before the other instances' counts are read
+ * and released if the cap is exceeded, so admissions don't wait for each other.
+ */
+export class ConnectionLimiter {
+  private stateStore: RealtimeStateStore;
+  private prefix: string;
+  private limits: ConnectionLimits;
+  private ttlMs: number;
+  private instanceId: string;
+  /** Counts of this instance, by counter */
+  private localCounts: Map<string, number> = new Map();
+  /** Counters held by each connection of this instance */
+  private connections: Map<string, Set<string>> = new Map();
+
+  constructor(
+    stateStore: RealtimeStateStore,
+    limits: ConnectionLimits,
+    prefix: string = "loly:rt:conn:",
+    ttlMs: number = 45000
+  ) {
+    this.stateStore = stateStore;
+    this.limits = limits;
+    this.prefix = prefix;
+    this.ttlMs = ttlMs;
+    this.instanceId = randomUUID();
+  }
+
+  /**
+   * Counts a connection against the global, per-IP and per-user caps.
+   * Counters the connection already holds (another namespace on the same
+   * connection) are not counted again. A connection over any cap is not counted.
+   *
+   * @param client - Id of the underlying connection, client IP and authenticated user (if any)
+   * @returns Whether the connection is allowed, or the reason it was refused
+   */
+  async acquire(client: {
+    connectionId: string;
+    ip?: string;
+    userId?: string;
+  }): Promise<ConnectionAdmission> {
+    const counters: Array<{ key: string; max?: number; scope: string; message: string }> = [
+      {
+        key: "total",
+        max: this.limits.maxConnections,
+        scope: "global",
+        message: "The server has reached its maximum number of connections",
+      },
+    ];
+    if (client.ip) {
+      counters.push({
+        key: `ip:${client.ip}`,
+        max: this.limits.connectionsPerIp,
+        scope: "ip",
+        message: "Too many connections from your network",
+      });
+    }
+    if (client.userId) {
+      counters.push({
+        key: `user:${client.userId}`,
+        max: this.limits.connectionsPerUser,
+        scope: "user",
+        message: "Too many open connections for this user",
+      });
+    }
+
+    // The connection is registered before any store call, so release() frees
+    // whatever it holds even if a call below fails
+    const held = this.connections.get(client.connectionId) ?? new Set<string>();
+    this.connections.set(client.connectionId, held);
+
+    const pending = counters.filter((counter) => !held.has(counter.key));
+    for (const counter of pending) {
+      held.add(counter.key);
+      this.localCounts.set(counter.key, (this.localCounts.get(counter.key) ?? 0) + 1);
+    }
+
+    const rollback = () => {
+      for (const counter of pending) {
+        held.delete(counter.key);
+        this.changeLocalCount(counter.key, -1);
+      }
+      if (held.size === 0) {
+        this.connections.delete(client.connectionId);
+      }
+    };
+
+    try {
+      for (const counter of pending) {
+        if (!counter.max) continue;
+        const count = (await this.countOthers(counter.key)) + (this.localCounts.get(counter.key) ?? 0);
+        if (count > counter.max) {
+          rollback();
+          return {
+            allowed: false,
+            error: {
+              code: "CONNECTION_LIMIT",
+              message: counter.message,
+              details: { scope: counter.scope, limit: counter.max },
+            },
+          };
+        }
+      }
+
+      await Promise.all(pending.map((counter) => this.store(counter.key)));
+    } catch (error) {
+      rollback();
+      await Promise.all(pending.map((counter) => this.store(counter.key))).catch(() => {});
+      throw error;
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Releases the counters held by a connection. Call it when the connection closes.
+   */
+  async release(connectionId: string): Promise<void> {
+    const held = this.connections.get(connectionId);
+    if (!held) return;
+    this.connections.delete(connectionId);
+
+    for (const key of held) {
+      this.changeLocalCount(key, -1);
+    }
+    await Promise.all([...held].map((key) => this.store(key)));
+  }
+
+  /**
+   * Refreshes the TTL of this instance's counts. Call it periodically (more often than the TTL).
+   * Counters are written in concurrent batches, which Redis clients pipeline.
+   */
+  async heartbeat(batchSize: number = 500): Promise<void> {
+    const keys = [...this.localCounts.keys()];
+    for (let i = 0; i < keys.length; i += batchSize) {
+      await Promise.all(keys.slice(i, i + batchSize).map((key) => this.store(key)));
+    }
+  }
+
+  /**
+   * Counts open connections of a counter on the other instances, dropping expired instances.
+   */
+  private async countOthers(key: string): Promise<number> {
+    const instancesKey = this.key(`${key}:instances`);
+    const instanceIds = (await this.stateStore.setMembers(instancesKey)).filter(
+      (instanceId) => instanceId !== this.instanceId
+    );
+
+    const counts = await Promise.all(
+      instanceIds.map(async (instanceId) => {
+        const count = await this.stateStore.get<number>(this.key(`${key}:${instanceId}`));
+        if (count === null) {
+          await this.stateStore.setRem(instancesKey, instanceId);
+          return 0;
+        }
+        return Number(count) || 0;
+      })
+    );
+    return counts.reduce((total, count) => total + count, 0);
+  }
+
+  /**
+   * Changes this instance's count of a counter in memory.
+   */
+  private changeLocalCount(key: string, by: number): void {
+    const count = (this.localCounts.get(key) ?? 0) + by;
+    if (count <= 0) {
+      this.localCounts.delete(key);
+    } else {
+      this.localCounts.set(key, count);
+    }
+  }
+
+  /**
+   * Writes this instance's current count of a counter to the state store.
+   */
+  private async store(key: string): Promise<void> {
+    const instancesKey = this.key(`${key}:instances`);
+    const count = this.localCounts.get(key);
+
+    if (!count) {
+      await this.stateStore.del(this.instanceKey(key));
+      await this.stateStore.setRem(instancesKey, this.instanceId);
+      return;
+    }
+
+    await this.stateStore.set(this.instanceKey(key), count, { ttlMs: this.ttlMs });
+    await this.stateStore.setAdd(instancesKey, this.instanceId);
+  }
+
+  /**
+   * Key of this instance's count of a counter
+   */
+  private instanceKey(key: string): string {
+    return this.key(`${key}:${this.instanceId}`);
+  }
+
+  /**
+   * Add prefix to key
+   */
+  private key(key: string): string {
+    return `${this.prefix}${key}`;
+  }
+}
@@ -14,6 +14,7 @@ import type {
  * - Auth hooks
  * - Connection/disconnection hooks
  * - Per-event validation, guards, and rate limiting
+ * - Typed clients (`createRealtimeClient`): payloads and ack results are inferred from the events
  * 
  * @example
  * ```ts
@@ -40,9 +41,15 @@ import type {
  * });
  * ```
  */
-export function defineWssRoute<TUser = any>(
-  definition: WssRouteDefinition<TUser>
-): WssRouteDefinition<TUser> {
+export function defineWssRoute<
+  TUser = any,
+  TEvents extends Record<string, WssEventDefinition<any, TUser>> = Record<
+    string,
+    WssEventDefinition<any, TUser>
+  >
+>(
+  definition: WssRouteDefinition<TUser, TEvents>
+): WssRouteDefinition<TUser, TEvents> {
   // Runtime validation in dev mode
   if (process.env.NODE_ENV !== "production") {
     validateRouteDefinition(definition);
@@ -139,6 +146,16 @@ function validateRouteDefinition<TUser>(
       }
     }
 
+    // Validate timeoutMs if present
+    if (
+      eventDef.timeoutMs !== undefined &&
+      (typeof eventDef.timeoutMs !== "number" || eventDef.timeoutMs <= 0)
+    ) {
+      throw new Error(
+        `[loly:realtime] Event '${eventName}' timeoutMs must be a positive number`
+      );
+    }
+
     // Validate guard if present
     if (eventDef.guard !== undefined && typeof eventDef.guard !== "function") {
       throw new Error(
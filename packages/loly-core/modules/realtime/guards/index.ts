@@ -19,6 +19,7 @@ export async function executeGuard(
     user: ctx.user,
     req: ctx.req,
     namespace: ctx.pathname,
+    params: ctx.params,
   };
 
   const result = await guardFn(guardCtx);
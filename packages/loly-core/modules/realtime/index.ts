@@ -6,4 +6,5 @@ export { executeAuth } from "./auth";
 export { executeGuard } from "./guards";
 export { validateSchema } from "./validation";
 export { RateLimiter } from "./rate-limit";
+export { ConnectionLimiter, type ConnectionLimits, type ConnectionAdmission } from "./connections";
 export { createWssLogger } from "./logging";
@@ -1,17 +1,37 @@
 import type { Socket } from "socket.io";
-import type { RealtimeStateStore } from "../types";
+import type { PresenceMember, RealtimeStateStore } from "../types";
+
+/**
+ * Room membership change, used to broadcast `presence:join` / `presence:leave`.
+ */
+export interface PresenceChange {
+  namespace: string;
+  room: string;
+  userId: string;
+}
 
 /**
  * Presence manager for tracking user-to-socket mappings.
- * Used for implementing toUser() targeting.
+ * Used for implementing toUser() targeting and room presence (`ctx.presence`).
+ *
+ * Room members live in the state store. Each socket in a room has a liveness key
+ * refreshed by `heartbeat()`; members whose sockets all expired (e.g. their instance
+ * crashed in cluster mode) are removed by the next heartbeat or `listRoom()`.
  */
 export class PresenceManager {
   private stateStore: RealtimeStateStore;
   private prefix: string;
+  private ttlMs: number;
+  /** Sockets of this instance that joined rooms, with their namespace, user and rooms */
+  private localSockets: Map<
+    string,
+    { namespace: string; userId: string; rooms: Set<string> }
+  > = new Map();
 
-  constructor(stateStore: RealtimeStateStore, prefix: string = "loly:rt:") {
+  constructor(stateStore: RealtimeStateStore, prefix: string = "loly:rt:", ttlMs: number = 45000) {
     this.stateStore = stateStore;
     this.prefix = prefix;
+    this.ttlMs = ttlMs;
   }
 
   /**
@@ -90,6 +110,246 @@ export class PresenceManager {
     return await this.stateStore.setMembers(key);
   }
 
+  /**
+   * Adds a socket to a room's presence. A user with several sockets in the room
+   * (e.g. two tabs) is a single member.
+   *
+   * @param namespace - Namespace of the socket (e.g. "/rooms/42")
+   * @param room - Room name
+   * @param userId - User id (socket id for anonymous sockets)
+   * @param socketId - Socket joining the room
+   * @param meta - Custom member metadata (merged into the existing one)
+   * @returns The member and whether the user was not in the room before
+   */
+  async joinRoom(
+    namespace: string,
+    room: string,
+    userId: string,
+    socketId: string,
+    meta?: Record<string, any>
+  ): Promise<{ member: PresenceMember; joined: boolean }> {
+    const local = this.localSockets.get(socketId) ?? { namespace, userId, rooms: new Set<string>() };
+    local.rooms.add(room);
+    this.localSockets.set(socketId, local);
+
+    await this.stateStore.set(this.key(`alive:${socketId}`), 1, { ttlMs: this.ttlMs });
+    await this.stateStore.setAdd(this.roomKey(namespace, room, `sockets:${userId}`), socketId);
+
+    const members = await this.stateStore.setMembers(this.roomKey(namespace, room));
+    const joined = !members.includes(userId);
+    const memberKey = this.roomKey(namespace, room, `member:${userId}`);
+    const existing = joined ? null : await this.stateStore.get<PresenceMember>(memberKey);
+
+    const member: PresenceMember = {
+      userId,
+      meta: mergeMeta(existing?.meta, meta),
+      joinedAt: existing?.joinedAt ?? Date.now(),
+    };
+    await this.stateStore.set(memberKey, member);
+    if (joined) {
+      await this.addUserToRoom(namespace, room, userId);
+    } else if (!(await this.getUsersInRoom(namespace, room)).includes(userId)) {
+      // The user's last socket left while this one was joining: join again
+      await this.stateStore.set(memberKey, member);
+      await this.addUserToRoom(namespace, room, userId);
+      return { member, joined: true };
+    }
+
+    return { member, joined };
+  }
+
+  /**
+   * Removes a socket from a room's presence.
+   *
+   * @returns True if the user has no sockets left in the room (the member left)
+   */
+  async leaveRoom(
+    namespace: string,
+    room: string,
+    userId: string,
+    socketId: string
+  ): Promise<boolean> {
+    const local = this.localSockets.get(socketId);
+    if (local) {
+      local.rooms.delete(room);
+      if (local.rooms.size === 0) {
+        this.localSockets.delete(socketId);
+        await this.stateStore.del(this.key(`alive:${socketId}`));
+      }
+    }
+
+    const socketsKey = this.roomKey(namespace, room, `sockets:${userId}`);
+    await this.stateStore.setRem(socketsKey, socketId);
+    if ((await this.liveSockets(socketsKey)).length > 0) {
+      return false;
+    }
+
+    return await this.removeMember(namespace, room, userId);
+  }
+
+  /**
+   * Removes a disconnected socket from all the rooms it joined.
+   *
+   * @returns Members that left their room
+   */
+  async removeSocket(socketId: string): Promise<PresenceChange[]> {
+    const local = this.localSockets.get(socketId);
+    if (!local) return [];
+
+    const changes: PresenceChange[] = [];
+    for (const room of [...local.rooms]) {
+      if (await this.leaveRoom(local.namespace, room, local.userId, socketId)) {
+        changes.push({ namespace: local.namespace, room, userId: local.userId });
+      }
+    }
+    return changes;
+  }
+
+  /**
+   * Lists the members of a room, removing the ones whose sockets expired.
+   *
+   * @returns Live members and the user ids removed by this call (not by another instance)
+   */
+  async listRoom<TMeta extends Record<string, any> = Record<string, any>>(
+    namespace: string,
+    room: string
+  ): Promise<{ members: PresenceMember<TMeta>[]; expired: string[] }> {
+    const members: PresenceMember<TMeta>[] = [];
+    const expired: string[] = [];
+
+    for (const userId of await this.getUsersInRoom(namespace, room)) {
+      const sockets = await this.liveSockets(this.roomKey(namespace, room, `sockets:${userId}`));
+      if (sockets.length === 0) {
+        if (await this.removeMember(namespace, room, userId)) {
+          expired.push(userId);
+        }
+        continue;
+      }
+
+      const member = await this.stateStore.get<PresenceMember<TMeta>>(
+        this.roomKey(namespace, room, `member:${userId}`)
+      );
+      if (member) {
+        members.push(member);
+      }
+    }
+
+    return { members, expired };
+  }
+
+  /**
+   * Merges metadata into a room member (e.g. status or cursor colour).
+   *
+   * @returns Updated member, or null if the user is not in the room
+   */
+  async updateMember(
+    namespace: string,
+    room: string,
+    userId: string,
+    meta: Record<string, any>
+  ): Promise<PresenceMember | null> {
+    const memberKey = this.roomKey(namespace, room, `member:${userId}`);
+    const member = await this.stateStore.get<PresenceMember>(memberKey);
+    if (!member) return null;
+
+    const updated: PresenceMember = { ...member, meta: mergeMeta(member.meta, meta) };
+    await this.stateStore.set(memberKey, updated);
+    return updated;
+  }
+
+  /**
+   * Refreshes the liveness of this instance's sockets and removes expired members
+   * from the rooms they are in. Call it periodically (more often than the TTL).
+   *
+   * @returns Members removed because all their sockets expired
+   */
+  async heartbeat(): Promise<PresenceChange[]> {
+    const rooms = new Map<string, { namespace: string; room: string }>();
+    for (const [socketId, local] of this.localSockets) {
+      await this.stateStore.set(this.key(`alive:${socketId}`), 1, { ttlMs: this.ttlMs });
+      for (const room of local.rooms) {
+        rooms.set(`${local.namespace}\n${room}`, { namespace: local.namespace, room });
+      }
+    }
+
+    const changes: PresenceChange[] = [];
+    for (const { namespace, room } of rooms.values()) {
+      const { expired } = await this.listRoom(namespace, room);
+      for (const userId of expired) {
+        changes.push({ namespace, room, userId });
+      }
+    }
+    return changes;
+  }
+
+  /**
+   * Gets the sockets of a set that are still alive, dropping the expired ones.
+   */
+  private async liveSockets(socketsKey: string): Promise<string[]> {
+    const live: string[] = [];
+    for (const socketId of await this.stateStore.setMembers(socketsKey)) {
+      if ((await this.stateStore.get(this.key(`alive:${socketId}`))) !== null) {
+        live.push(socketId);
+      } else {
+        await this.stateStore.setRem(socketsKey, socketId);
+      }
+    }
+    return live;
+  }
+
+  /**
+   * Removes a member with no live sockets and its metadata from a room.
+   *
+   * Several instances can find the same expired member; a claim counter makes sure
+   * only one of them removes it (and broadcasts `presence:leave`). A socket of the
+   * user that joins meanwhile (e.g. a reloaded tab) keeps the member in the room.
+   *
+   * @returns True if this call removed the member
+   */
+  private async removeMember(namespace: string, room: string, userId: string): Promise<boolean> {
+    const memberKey = this.roomKey(namespace, room, `member:${userId}`);
+    const socketsKey = this.roomKey(namespace, room, `sockets:${userId}`);
+    const member = await this.stateStore.get<PresenceMember>(memberKey);
+
+    let claimKey: string | null = null;
+    if (member) {
+      claimKey = this.roomKey(namespace, room, `removed:${userId}:${member.joinedAt}`);
+      if ((await this.stateStore.incr(claimKey)) !== 1) {
+        return false;
+      }
+      await this.stateStore.set(claimKey, 1, { ttlMs: this.ttlMs });
+    }
+
+    const release = async () => {
+      if (claimKey) await this.stateStore.del(claimKey);
+      return false;
+    };
+
+    if ((await this.liveSockets(socketsKey)).length > 0) {
+      return release();
+    }
+
+    await this.stateStore.del(memberKey);
+    await this.removeUserFromRoom(namespace, room, userId);
+
+    // A socket joined between the check and the removal: restore the member
+    if ((await this.liveSockets(socketsKey)).length > 0) {
+      if (member) await this.stateStore.set(memberKey, member);
+      await this.addUserToRoom(namespace, room, userId);
+      return release();
+    }
+
+    return member !== null;
+  }
+
+  /**
+   * Key of a room's presence data (the member set, or one of its entries)
+   */
+  private roomKey(namespace: string, room: string, entry?: string): string {
+    const base = `presence:${namespace}:${room}`;
+    return this.key(entry ? `${base}:${entry}` : base);
+  }
+
   /**
    * Add prefix to key
    */
@@ -97,3 +357,17 @@ export class PresenceManager {
     return `${this.prefix}${key}`;
   }
 }
+
+/**
+ * Merges member metadata, ignoring undefined values.
+ */
+function mergeMeta(
+  current: Record<string, any> | undefined,
+  update: Record<string, any> | undefined
+): Record<string, any> {
+  const merged = { ...current };
+  for (const [key, value] of Object.entries(update ?? {})) {
+    if (value !== undefined) merged[key] = value;
+  }
+  return merged;
+}
@@ -106,9 +106,12 @@ export class MemoryStateStore implements RealtimeStateStore {
    * Increment a numeric value
    */
   async incr(key: string, by: number = 1): Promise<number> {
-    const current = await this.get<number>(key);
-    const newValue = (current ?? 0) + by;
-    await this.set(key, newValue);
+    // Read and write without awaiting in between, so concurrent calls can't interleave.
+    // Like Redis INCR, the TTL of the key is kept.
+    const entry = this.store.get(key);
+    const live = entry && !(entry.expiresAt && entry.expiresAt < Date.now()) ? entry : undefined;
+    const newValue = (Number(live?.value) || 0) + by;
+    this.store.set(key, { value: newValue, expiresAt: live?.expiresAt });
     return newValue;
   }
 
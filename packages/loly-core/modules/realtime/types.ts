@@ -14,8 +14,10 @@ export interface AuthContext {
   };
   /** Socket.IO socket instance */
   socket: Socket;
-  /** Namespace path (e.g., "/chat") */
+  /** Namespace path (e.g., "/chat", or "/rooms/42" for a dynamic namespace) */
   namespace: string;
+  /** Params of a dynamic namespace (e.g. `{ roomId: "42" }` for `wss/rooms/[roomId]`) */
+  params: Record<string, string>;
 }
 
 /**
@@ -35,6 +37,7 @@ export type GuardFn<TUser = any> = (ctx: {
   user: TUser | null;
   req: AuthContext["req"];
   namespace: string;
+  params: Record<string, string>;
 }) => boolean | Promise<boolean>;
 
 /**
@@ -118,6 +121,38 @@ export interface RealtimeMetrics {
   recordLatency(name: string, ms: number, labels?: Record<string, string>): void;
 }
 
+/**
+ * Error codes sent to clients when an event is rejected or fails.
+ */
+export type WssErrorCode =
+  | "BAD_PAYLOAD"
+  | "FORBIDDEN"
+  | "RATE_LIMIT"
+  | "TIMEOUT"
+  | "UNAUTHORIZED"
+  | "CONNECTION_LIMIT"
+  | "INTERNAL_ERROR"
+  | (string & {});
+
+/**
+ * Structured error sent through the acknowledgement, the `__loly:error` event, or
+ * the `data` of a refused connection's `connect_error`.
+ */
+export interface WssError {
+  code: WssErrorCode;
+  message: string;
+  details?: any;
+  requestId?: string;
+}
+
+/**
+ * Acknowledgement received by a client that emitted with a callback
+ * (e.g. `await socket.emitWithAck("createRoom", data)`).
+ */
+export type WssAckResponse<TResult = any> =
+  | { ok: true; data: TResult }
+  | { ok: false; error: WssError };
+
 /**
  * Extended WssActions with full RFC support.
  */
@@ -142,12 +177,13 @@ export interface WssActions {
   ): void;
 
   /**
-   * Join a room
+   * Join a room. The user is added to the room's presence with optional metadata,
+   * and `presence:join` is sent to the room when the user was not in it yet.
    */
-  join(room: string): Promise<void>;
+  join(room: string, meta?: Record<string, any>): Promise<void>;
 
   /**
-   * Leave a room
+   * Leave a room. `presence:leave` is sent to the room when the user has no sockets left in it.
    */
   leave(room: string): Promise<void>;
 
@@ -184,6 +220,36 @@ export interface WssActions {
   emitToClient?: (clientId: string, event: string, ...args: any[]) => void;
 }
 
+/**
+ * Member of a room, as returned by `ctx.presence.list()`
+ * and sent with `presence:join` / `presence:update`.
+ */
+export interface PresenceMember<TMeta extends Record<string, any> = Record<string, any>> {
+  /** User id (`user.id` returned by `auth`, or the socket id for anonymous sockets) */
+  userId: string;
+  /** Custom metadata (e.g. `{ color: "#f00", status: "typing" }`) */
+  meta: TMeta;
+  /** When the user joined the room (ms since epoch) */
+  joinedAt: number;
+}
+
+/**
+ * Room presence API (`ctx.presence`).
+ */
+export interface WssPresence {
+  /**
+   * Lists the members of a room in the current namespace.
+   */
+  list<TMeta extends Record<string, any> = Record<string, any>>(
+    room: string
+  ): Promise<PresenceMember<TMeta>[]>;
+
+  /**
+   * Merges metadata into the current user's membership of a room and sends `presence:update` to the room.
+   */
+  update(room: string, meta: Record<string, any>): Promise<void>;
+}
+
 /**
  * Extended WssContext with full RFC support.
  */
@@ -202,7 +268,7 @@ export interface WssContext<TData = any, TUser = any> {
   /** Incoming payload for current event */
   data: TData;
 
-  /** Route params (from dynamic routes) */
+  /** Route params (from dynamic namespaces, e.g. `wss/rooms/[roomId]`) */
   params: Record<string, string>;
 
   /** Route pathname */
@@ -214,19 +280,36 @@ export interface WssContext<TData = any, TUser = any> {
   /** State store for shared state */
   state: RealtimeStateStore;
 
+  /** Room presence (members joined with `actions.join()`) */
+  presence: WssPresence;
+
   /** Logger with WSS context */
   log: RealtimeLogger;
 
   /** Metrics (optional) */
   metrics?: RealtimeMetrics;
+
+  /**
+   * Resolves the client's acknowledgement with `{ ok: true, data: result }`.
+   * Without it, the handler's return value is used. Only the first response is sent,
+   * and it is a no-op when the client emitted without a callback.
+   *
+   * @example
+   * handler: async (ctx) => {
+   *   const room = await createRoom(ctx.data);
+   *   ctx.respond({ roomId: room.id });
+   * }
+   */
+  respond(result?: any): void;
 }
 
 /**
  * WSS event handler type.
+ * The return value resolves the client's acknowledgement (unless `ctx.respond()` was called).
  */
-export type WssHandler<TData = any, TUser = any> = (
+export type WssHandler<TData = any, TUser = any, TResult = any> = (
   ctx: WssContext<TData, TUser>
-) => void | Promise<void>;
+) => TResult | Promise<TResult>;
 
 /**
  * WSS event definition.
@@ -241,14 +324,23 @@ export type WssEventDefinition<TData = any, TUser = any> =
       rateLimit?: RateLimitCfg;
       /** Guard function (auth/roles/permissions) */
       guard?: GuardFn<TUser>;
+      /** Time to respond to an acknowledgement before a `TIMEOUT` error, in ms (overrides `realtime.eventTimeoutMs`) */
+      timeoutMs?: number;
       /** Event handler */
       handler: WssHandler<TData, TUser>;
     };
 
 /**
  * WSS route definition (result of defineWssRoute).
+ * `TEvents` keeps the declared events so clients can infer payloads and ack results.
  */
-export interface WssRouteDefinition<TUser = any> {
+export interface WssRouteDefinition<
+  TUser = any,
+  TEvents extends Record<string, WssEventDefinition<any, TUser>> = Record<
+    string,
+    WssEventDefinition<any, TUser>
+  >
+> {
   /** Namespace (optional, inferred from folder name) */
   namespace?: string;
 
@@ -265,5 +357,53 @@ export interface WssRouteDefinition<TUser = any> {
   ) => void | Promise<void>;
 
   /** Event handlers */
-  events: Record<string, WssEventDefinition<any, TUser>>;
+  events: TEvents;
 }
+
+/**
+ * Input type of a validation schema (Zod `_input`, or the output of `parse`).
+ */
+type SchemaInput<TSchema> = TSchema extends { _input: infer TInput }
+  ? TInput
+  : TSchema extends { parse: (data: any) => infer TOutput }
+    ? TOutput
+    : any;
+
+type EventsOf<TRoute> = TRoute extends { events: infer TEvents } ? TEvents : {};
+
+/**
+ * Event names declared by a WSS route.
+ *
+ * @example
+ * type ChatEvent = RealtimeEventName<typeof chatRoute>; // "message" | "typing"
+ */
+export type RealtimeEventName<TRoute> = [keyof EventsOf<TRoute>] extends [never]
+  ? string
+  : Extract<keyof EventsOf<TRoute>, string>;
+
+/**
+ * Payload a client sends with an event: the input of its `schema`,
+ * or the `ctx.data` type of its handler.
+ */
+export type RealtimeEventPayload<TRoute, TEvent extends string> =
+  TEvent extends keyof EventsOf<TRoute>
+    ? EventsOf<TRoute>[TEvent] extends { schema: infer TSchema }
+      ? SchemaInput<TSchema>
+      : EventsOf<TRoute>[TEvent] extends
+            | WssHandler<infer TData, any>
+            | { handler: WssHandler<infer TData, any> }
+        ? TData
+        : any
+    : any;
+
+/**
+ * Result a client receives in the acknowledgement of an event: the value returned by its handler.
+ */
+export type RealtimeEventResult<TRoute, TEvent extends string> =
+  TEvent extends keyof EventsOf<TRoute>
+    ? EventsOf<TRoute>[TEvent] extends
+        | ((ctx: any) => infer TResult)
+        | { handler: (ctx: any) => infer TResult }
+      ? Awaited<TResult>
+      : any
+    : any;
@@ -1,6 +1,13 @@
 import React, { ReactElement } from "react";
 import type { LoaderResult, PageComponent, LoadedRoute, PageMetadata } from "@router/index";
+import { buildRouteTree } from "@runtime/client/route-tree";
+import { LocaleContext } from "@runtime/client/LocaleContext";
 import { InitialData, RouterData } from "../index.types";
+import {
+  createDeferredScripts,
+  getDeferredRuntimeScript,
+  type DeferredEntry,
+} from "../deferred";
 import {
   WINDOW_DATA_KEY,
   APP_CONTAINER_ID,
@@ -8,45 +15,41 @@ import {
   ROUTER_DATA_KEY,
 } from "@constants/globals";
 
-/**
- * Builds the app tree (Page + layouts) in the same way for SSR and SSG.
- *
- * @param route - Route definition
- * @param params - Route parameters
- * @param props - Props from loader
- * @returns React element tree
- */
 /**
  * Builds the app tree (Page + layouts) in the same way for SSR and SSG.
  *
  * @param route - Route definition
  * @param params - Route parameters
  * @param props - Props from loader (combined layout + page props)
+ * @param options - `error`: page server hook error shown by the nearest `error.tsx`
  * @returns React element tree
  */
 export function buildAppTree(
   route: LoadedRoute,
   params: Record<string, string>,
-  props: Record<string, any>
+  props: Record<string, any>,
+  options: { error?: Error | null } = {}
 ): ReactElement {
-  const Page = route.component;
-
-  let appTree: ReactElement = React.createElement(Page, {
+  // Same builder as the client RouterView, so the hydrated tree matches
+  return buildRouteTree({
+    components: {
+      Page: route.component,
+      layouts: route.layouts,
+      slots: route.slots?.map((slot) => ({
+        name: slot.name,
+        layoutIndex: slot.layoutIndex,
+        Page: slot.component,
+      })),
+      boundaries: route.boundaries?.map((boundary) => ({
+        layoutDepth: boundary.layoutDepth,
+        Loading: boundary.loading,
+        Error: boundary.error,
+      })),
+    },
     params,
-    ...props,
-  } as any);
-
-  const layoutChain = route.layouts.slice().reverse();
-
-  for (const Layout of layoutChain) {
-    appTree = React.createElement(Layout, {
-      params,
-      ...props,
-      children: appTree,
-    } as any);
-  }
-
-  return appTree;
+    props,
+    error: options.error,
+  });
 }
 
 /**
@@ -71,6 +74,7 @@ export function createDocumentTree(options: {
   includeInlineScripts?: boolean; // For SSG: include inline scripts in body (renderToString doesn't support bootstrapScripts)
   faviconPath?: string | null; // Favicon path (e.g., "/favicon.ico" or "/static/favicon.png")
   faviconType?: string | null; // Favicon MIME type (e.g., "image/x-icon" or "image/png")
+  deferred?: DeferredEntry[]; // Deferred loader props streamed after the shell (SSR only)
 }): ReactElement {
   const {
     appTree,
@@ -88,12 +92,13 @@ export function createDocumentTree(options: {
     includeInlineScripts = true, // Default true - scripts inline in body for both SSR and SSG
     faviconPath = FAVICON_PATH, // Default to /static/favicon.png for backward compatibility
     faviconType = "image/png", // Default to PNG for backward compatibility
+    deferred = [],
   } = options;
 
   // Type-safe metadata access
   const metaObj: PageMetadata | null = meta ?? null;
   const title = metaObj?.title ?? titleFallback ?? "My Framework Dev";
-  const lang = metaObj?.lang ?? "en";
+  const lang = metaObj?.lang ?? routerData.locale?.locale ?? "en";
   const description = metaObj?.description ?? descriptionFallback ?? "Demo Loly framework";
 
   const extraMetaTags: ReactElement[] = [];
@@ -383,7 +388,12 @@ export function createDocumentTree(options: {
   });
 
   const bodyChildren: ReactElement[] = [
-    React.createElement("div", { id: APP_CONTAINER_ID }, appTree),
+    React.createElement(
+      "div",
+      { id: APP_CONTAINER_ID },
+      // Link and useRouter read the locale from context on the server
+      React.createElement(LocaleContext.Provider, { value: routerData.locale ?? null }, appTree)
+    ),
   ];
 
   // Add inline scripts for SSG (renderToString doesn't support bootstrapScripts)
@@ -406,6 +416,20 @@ export function createDocumentTree(options: {
     );
   }
 
+  // Deferred props: registry first, then one script per value, streamed as each resolves
+  if (deferred.length > 0) {
+    bodyChildren.push(
+      React.createElement("script", {
+        key: "deferred-runtime",
+        nonce: nonce,
+        dangerouslySetInnerHTML: {
+          __html: getDeferredRuntimeScript(),
+        },
+      }),
+      ...createDeferredScripts(deferred, nonce)
+    );
+  }
+
   const documentTree = React.createElement(
     "html",
     { lang },
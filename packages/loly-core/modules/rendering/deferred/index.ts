@@ -0,0 +1,210 @@
+import React, { ReactElement, Suspense } from "react";
+import { DEFERRED_DATA_KEY, WINDOW_DATA_KEY } from "@constants/globals";
+
+/** Key of the placeholder that replaces a deferred prop in serialized initial data */
+export const DEFERRED_PLACEHOLDER_KEY = "__fw_deferred";
+
+// Marks promises created with defer(). A global symbol (not module state) so the mark is
+// recognised across bundles: defer() runs from the app's copy of the package, the
+// renderer from the CLI's.
+const DEFERRED_MARKER = Symbol.for("loly.deferred");
+
+/**
+ * A deferred loader prop streamed into the page after the shell.
+ */
+export interface DeferredEntry {
+  /** Prop name (deferred values are top-level props) */
+  id: string;
+  promise: Promise<unknown>;
+}
+
+/**
+ * Marks a loader prop as deferred: the page shell is sent without waiting for it,
+ * and the value streams into the `<Suspense>` boundary that reads it (with `<Await>`)
+ * once it resolves.
+ *
+ * Only top-level props can be deferred. Data requests (SPA navigation) and SSG
+ * wait for deferred values and send them resolved.
+ *
+ * @param value - Promise (or function returning a promise) with the prop value
+ * @returns The same promise, marked as deferred
+ *
+ * @example
+ * export const getServerSideProps: ServerLoader = async (ctx) => ({
+ *   props: {
+ *     post: await getPost(ctx.params.id),          // In the shell
+ *     comments: defer(getComments(ctx.params.id)), // Streamed later
+ *   },
+ * });
+ */
+export function defer<T>(value: Promise<T> | (() => Promise<T>)): Promise<T> {
+  const promise = typeof value === "function" ? value() : value;
+  // Rejections are reported where the value is rendered; avoid unhandled rejection warnings
+  promise.catch(() => {});
+  Object.defineProperty(promise, DEFERRED_MARKER, { value: true });
+  return promise;
+}
+
+/**
+ * Checks whether a value was created with `defer()`.
+ */
+export function isDeferred(value: unknown): value is Promise<unknown> {
+  return (
+    typeof (value as any)?.then === "function" && (value as any)[DEFERRED_MARKER] === true
+  );
+}
+
+/**
+ * Splits deferred props out of a props object.
+ *
+ * @param props - Combined loader props
+ * @returns Serializable props (deferred values replaced by placeholders) and the deferred entries
+ */
+export function collectDeferredProps(props: Record<string, any>): {
+  serializableProps: Record<string, any>;
+  entries: DeferredEntry[];
+} {
+  const serializableProps: Record<string, any> = {};
+  const entries: DeferredEntry[] = [];
+
+  for (const [key, value] of Object.entries(props)) {
+    if (isDeferred(value)) {
+      serializableProps[key] = { [DEFERRED_PLACEHOLDER_KEY]: key };
+      entries.push({ id: key, promise: value });
+    } else {
+      serializableProps[key] = value;
+    }
+  }
+
+  return { serializableProps, entries };
+}
+
+/**
+ * Waits for every deferred prop and returns the props with resolved values.
+ * Used for data requests and SSG, where there is no stream to fill later.
+ *
+ * @param props - Loader props, possibly with deferred values
+ * @returns Props with deferred values resolved
+ */
+export async function resolveDeferredProps<T extends Record<string, any>>(props: T): Promise<T> {
+  const entries = Object.entries(props);
+  if (!entries.some(([, value]) => isDeferred(value))) {
+    return props;
+  }
+
+  const resolved = await Promise.all(
+    entries.map(async ([key, value]) => [key, isDeferred(value) ? await value : value] as const)
+  );
+  return Object.fromEntries(resolved) as T;
+}
+
+/**
+ * Serializes a value for an inline script (escapes `<` so it cannot close the tag).
+ */
+function serializeForScript(value: unknown): string {
+  return (JSON.stringify(value) ?? "undefined").replace(/</g, "\\u003c");
+}
+
+/**
+ * Inline script that defines the deferred registry. Resolved values are stored in
+ * `window.__FW_DEFER__` and written into `window.__FW_DATA__.props` as they arrive.
+ */
+export function getDeferredRuntimeScript(): string {
+  return (
+    `window.${DEFERRED_DATA_KEY}=window.${DEFERRED_DATA_KEY}||{v:{},e:{},l:{},` +
+    `r:function(i,v){this.v[i]=v;var d=window.${WINDOW_DATA_KEY};if(d&&d.props)d.props[i]=v;var l=this.l[i];if(l)l.res(v);},` +
+    `x:function(i,m){this.e[i]=m;var l=this.l[i];if(l)l.rej(new Error(m));}};`
+  );
+}
+
+/**
+ * Renders the script that resolves (or rejects) one deferred value on the client.
+ * Suspends on the server until the value is ready, so React streams it in place.
+ */
+function DeferredScript({
+  id,
+  settled,
+  nonce,
+}: {
+  id: string;
+  settled: Promise<{ ok: true; value: unknown } | { ok: false; message: string }>;
+  nonce?: string;
+}): ReactElement {
+  const result = useSettled(settled);
+  const call = result.ok
+    ? `window.${DEFERRED_DATA_KEY}.r(${serializeForScript(id)},${serializeForScript(result.value)});`
+    : `window.${DEFERRED_DATA_KEY}.x(${serializeForScript(id)},${serializeForScript(result.message)});`;
+
+  return React.createElement("script", {
+    nonce,
+    dangerouslySetInnerHTML: { __html: call },
+  });
+}
+
+// Settled state per promise, for the suspend-by-throwing protocol (React 18 has no `use`)
+const settledState = new WeakMap<Promise<any>, { done: boolean; value?: any }>();
+
+function useSettled<T>(promise: Promise<T>): T {
+  const reactUse = (React as any).use;
+  if (typeof reactUse === "function") {
+    return reactUse(promise);
+  }
+
+  let state = settledState.get(promise);
+  if (!state) {
+    state = { done: false };
+    settledState.set(promise, state);
+    promise.then((value) => {
+      state!.done = true;
+      state!.value = value;
+    });
+  }
+  if (!state.done) {
+    throw promise;
+  }
+  return state.value;
+}
+
+/**
+ * Message sent to the client for a rejected deferred value. Server error messages
+ * are only exposed in development.
+ */
+function getDeferredErrorMessage(error: unknown): string {
+  if (process.env.NODE_ENV !== "development") {
+    console.error("[framework][deferred] Deferred value rejected:", error);
+    return "Failed to load deferred data";
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Builds the elements that stream deferred values to the client. Rendered outside
+ * the app container, each in its own Suspense boundary, so React flushes every
+ * script as soon as its value resolves.
+ *
+ * @param entries - Deferred props collected with `collectDeferredProps`
+ * @param nonce - CSP nonce for the inline scripts
+ * @returns React elements to append to the document body
+ */
+export function createDeferredScripts(
+  entries: DeferredEntry[],
+  nonce?: string
+): ReactElement[] {
+  return entries.map(({ id, promise }) =>
+    React.createElement(
+      Suspense,
+      { key: `deferred-${id}`, fallback: null },
+      React.createElement(DeferredScript, {
+        id,
+        nonce,
+        settled: promise.then(
+          (value) => ({ ok: true as const, value }),
+          (error) => ({
+            ok: false as const,
+            message: getDeferredErrorMessage(error),
+          })
+        ),
+      })
+    )
+  );
+}
@@ -1,3 +1,4 @@
 export * from './createDocumentTree';
 export * from './initialData';
-export * from './routerData';
\ No newline at end of file
+export * from './routerData';
+export * from './deferred';
@@ -6,5 +6,7 @@ export const buildRouterData = (req: Request): RouterData => {
     pathname: req.path,
     params: req.params,
     searchParams: req.query,
+    // Set by handleLocaleRouting (config.i18n)
+    ...((req as any).localeInfo && { locale: (req as any).localeInfo }),
   };
 };
@@ -0,0 +1,78 @@
+import fs from "fs";
+import path from "path";
+import { ErrorComponent, LoadingComponent, RouteBoundary } from "./index.types";
+import { ERROR_BOUNDARY_FILE_BASENAME, LOADING_FILE_BASENAME } from "./constants";
+
+/**
+ * Finds a file with the given basename in a directory (.tsx, .ts, .jsx or .js).
+ */
+function findFileInDir(dir: string, basename: string): string | null {
+  for (const ext of ["tsx", "ts", "jsx", "js"]) {
+    const fullPath = path.join(dir, `${basename}.${ext}`);
+    if (fs.existsSync(fullPath)) return fullPath;
+  }
+  return null;
+}
+
+/**
+ * Resolves the segment boundaries of a page route.
+ *
+ * Walks from the app root to the page directory. Each directory with a `loading.tsx`
+ * or `error.tsx` becomes a boundary around its subtree: it renders inside the layout
+ * of that directory (if any) and wraps the nested layouts and the page.
+ *
+ * @param pageDir - Directory containing the page file
+ * @param layoutFiles - Layout files of the route (root → specific)
+ * @param appDir - Root app directory
+ * @param projectRoot - Project root (for module loading)
+ * @returns Boundaries in order from root to most specific
+ *
+ * @example
+ * // app/layout.tsx + app/dashboard/error.tsx + app/dashboard/settings/page.tsx
+ * // Returns [{ layoutDepth: 1, error: DashboardError, loading: null, ... }]
+ */
+export async function loadRouteBoundaries(
+  pageDir: string,
+  layoutFiles: string[],
+  appDir: string,
+  projectRoot: string
+): Promise<RouteBoundary[]> {
+  const boundaries: RouteBoundary[] = [];
+  const { loadDefaultExport } = await import("./utils/module-loader");
+
+  const relDir = path.relative(appDir, pageDir);
+  const segments = relDir ? relDir.split(/[\\/]/).filter(Boolean) : [];
+  const layoutDirs = layoutFiles.map((file) => path.resolve(path.dirname(file)));
+
+  let currentDir = appDir;
+  for (let i = 0; i <= segments.length; i++) {
+    if (i > 0) currentDir = path.join(currentDir, segments[i - 1]);
+
+    const loadingFile = findFileInDir(currentDir, LOADING_FILE_BASENAME);
+    const errorFile = findFileInDir(currentDir, ERROR_BOUNDARY_FILE_BASENAME);
+    if (!loadingFile && !errorFile) continue;
+
+    const loading = loadingFile
+      ? await loadDefaultExport<LoadingComponent>(loadingFile, { projectRoot })
+      : null;
+    const error = errorFile
+      ? await loadDefaultExport<ErrorComponent>(errorFile, { projectRoot })
+      : null;
+
+    // Layouts in this directory or above wrap the boundary
+    const resolvedDir = path.resolve(currentDir);
+    const layoutDepth = layoutDirs.filter(
+      (dir) => resolvedDir === dir || resolvedDir.startsWith(dir + path.sep)
+    ).length;
+
+    boundaries.push({
+      layoutDepth,
+      loading: loading ?? null,
+      error: error ?? null,
+      loadingFile,
+      errorFile,
+    });
+  }
+
+  return boundaries;
+}
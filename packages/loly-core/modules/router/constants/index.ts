@@ -2,6 +2,11 @@ import type { FrameworkConfig } from "@src/config";
 
 export const PAGE_FILE_REGEX = /^page\.(tsx|ts|jsx|js)$/;
 export const LAYOUT_FILE_BASENAME = "layout";
+// Fallback of a parallel route slot when no slot page matches (e.g. @modal/default.tsx)
+export const SLOT_DEFAULT_FILE_REGEX = /^default\.(tsx|ts|jsx|js)$/;
+// Segment boundaries: Suspense fallback and error UI of a directory subtree
+export const LOADING_FILE_BASENAME = "loading";
+export const ERROR_BOUNDARY_FILE_BASENAME = "error";
 
 /**
  * Creates a regex pattern for page files based on configuration.
@@ -6,6 +6,19 @@ import type {
   GuardFn,
 } from "@realtime/types";
 
+/**
+ * Normalized event of a WSS route.
+ */
+export interface NormalizedWssEvent {
+  /** Event name as declared in `events` (the map key is lowercased) */
+  name: string;
+  schema?: any;
+  rateLimit?: { eventsPerSecond: number; burst?: number };
+  guard?: GuardFn;
+  timeoutMs?: number;
+  handler: WssHandler;
+}
+
 /**
  * Normalized internal structure for WSS routes.
  * This is what we use internally after loading and normalizing the route definition.
@@ -15,15 +28,7 @@ export interface NormalizedWssRoute {
   auth?: AuthFn;
   onConnect?: WssHandler;
   onDisconnect?: (ctx: any, reason?: string) => void | Promise<void>;
-  events: Map<
-    string,
-    {
-      schema?: any;
-      rateLimit?: { eventsPerSecond: number; burst?: number };
-      guard?: GuardFn;
-      handler: WssHandler;
-    }
-  >;
+  events: Map<string, NormalizedWssEvent>;
 }
 
 /**
@@ -31,7 +36,8 @@ export interface NormalizedWssRoute {
  * Supports the new defineWssRoute() format only.
  * 
  * @param mod - The loaded module
- * @param namespace - The namespace path (inferred from folder structure)
+ * @param namespace - The namespace path (inferred from folder structure), unless the
+ *   definition sets `namespace`
  * @returns Normalized route or null if invalid
  */
 export function extractDefineWssRoute(
@@ -66,28 +72,23 @@ export function extractDefineWssRoute(
   }
 
   // Normalize events
-  const normalizedEvents = new Map<
-    string,
-    {
-      schema?: any;
-      rateLimit?: { eventsPerSecond: number; burst?: number };
-      guard?: GuardFn;
-      handler: WssHandler;
-    }
-  >();
+  const normalizedEvents = new Map<string, NormalizedWssEvent>();
 
   for (const [eventName, eventDef] of Object.entries(routeDef.events)) {
     if (typeof eventDef === "function") {
       // Simple handler function
       normalizedEvents.set(eventName.toLowerCase(), {
+        name: eventName,
         handler: eventDef,
       });
     } else if (eventDef && typeof eventDef === "object" && eventDef.handler) {
       // Object with handler and optional config
       normalizedEvents.set(eventName.toLowerCase(), {
+        name: eventName,
         schema: eventDef.schema,
         rateLimit: eventDef.rateLimit,
         guard: eventDef.guard,
+        timeoutMs: eventDef.timeoutMs,
         handler: eventDef.handler,
       });
     } else {
@@ -99,8 +100,13 @@ export function extractDefineWssRoute(
     }
   }
 
+  let routeNamespace = routeDef.namespace || namespace;
+  if (!routeNamespace.startsWith("/")) {
+    routeNamespace = "/" + routeNamespace;
+  }
+
   return {
-    namespace,
+    namespace: routeNamespace,
     auth: routeDef.auth,
     onConnect: routeDef.onConnect,
     onDisconnect: routeDef.onDisconnect,
@@ -1,10 +1,13 @@
 import fs from "fs";
 import path from "path";
+import type { ZodSchema } from "zod";
 import {
   ApiHandler,
   ApiMiddleware,
+  CachePolicy,
   LayoutComponent,
   PageComponent,
+  RouteHeaders,
   RoutesManifest,
 } from "../../index.types";
 import { buildRegexFromRoutePath } from "../../path";
@@ -119,6 +122,78 @@ export function extractApiMiddlewares(
   };
 }
 
+/**
+ * Extracts the response headers (`headers`) and Cache-Control policy (`cache`)
+ * exported by a page server hook or API route module. Invalid values are ignored with a warning.
+ */
+export function extractRouteCacheConfig<TContext>(
+  mod: any,
+  file: string
+): {
+  headers: RouteHeaders<TContext> | null;
+  cache: CachePolicy | null;
+} {
+  let headers: RouteHeaders<TContext> | null = null;
+  const rawHeaders = mod?.headers;
+  if (rawHeaders !== undefined) {
+    if (
+      typeof rawHeaders === "function" ||
+      (rawHeaders && typeof rawHeaders === "object" && !Array.isArray(rawHeaders))
+    ) {
+      headers = rawHeaders;
+    } else {
+      console.warn(
+        `[framework][routes] headers must be an object or a function in ${file}, ignoring invalid value`
+      );
+    }
+  }
+
+  let cache: CachePolicy | null = null;
+  const rawCache = mod?.cache;
+  if (rawCache !== undefined) {
+    if (
+      rawCache === false ||
+      (typeof rawCache === "string" && rawCache.trim()) ||
+      (rawCache && typeof rawCache === "object" && !Array.isArray(rawCache))
+    ) {
+      cache = rawCache;
+    } else {
+      console.warn(
+        `[framework][routes] cache must be a Cache-Control string, an object or false in ${file}, ignoring invalid value`
+      );
+    }
+  }
+
+  return { headers, cache };
+}
+
+/**
+ * Extracts the Zod schemas of the route params (`params`) and query parameters (`searchParams`)
+ * exported by a page server hook or API route module. Invalid values are ignored with a warning.
+ */
+export function extractRouteSchemas(
+  mod: any,
+  file: string
+): {
+  paramsSchema: ZodSchema | null;
+  searchParamsSchema: ZodSchema | null;
+} {
+  const read = (name: "params" | "searchParams"): ZodSchema | null => {
+    const raw = mod?.[name];
+    if (raw === undefined) return null;
+    if (raw && typeof raw.safeParse === "function") return raw as ZodSchema;
+    console.warn(
+      `[framework][routes] ${name} must be a Zod schema in ${file}, ignoring invalid value`
+    );
+    return null;
+  };
+
+  return {
+    paramsSchema: read("params"),
+    searchParamsSchema: read("searchParams"),
+  };
+}
+
 /**
  * Extracts WebSocket event handlers from a module.
  */
@@ -179,5 +254,9 @@ export async function loadPageComponent(
 }
 
 // Export WSS route extractor
-export { extractDefineWssRoute, type NormalizedWssRoute } from "./extract-wss-route";
+export {
+  extractDefineWssRoute,
+  type NormalizedWssRoute,
+  type NormalizedWssEvent,
+} from "./extract-wss-route";
 
@@ -16,4 +16,10 @@ export * from "./loader-routes";
 export * from "./route-loader";
 export * from "./rewrites";
 export * from "./rewrites-loader";
-export * from "./rewrites-manifest";
\ No newline at end of file
+export * from "./rewrites-manifest";
+export * from "./redirects";
+export * from "./redirects-loader";
+export * from "./route-types";
+export * from "./slots";
+export * from "./boundaries";
+export * from "./not-found";
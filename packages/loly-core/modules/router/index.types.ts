@@ -2,6 +2,8 @@ import React from "react";
 
 import type { Request, Response } from "express";
 import { Server, Socket } from "socket.io";
+import type { ZodSchema } from "zod";
+import type { Href, RouteParams, RoutePattern, RouteSearchParams } from "./route-types";
 
 // Re-export WssContext from realtime/types for backwards compatibility
 // The real definition is in @realtime/types with required state and log
@@ -23,6 +25,30 @@ export type LayoutComponent<TProps extends Record<string, any> = Record<string,
   TProps & { params: Record<string, string>; children: React.ReactNode }
 >;
 
+/**
+ * Loading component (`loading.tsx`): Suspense fallback of its directory subtree.
+ */
+export type LoadingComponent = React.ComponentType<Record<string, any>>;
+
+/**
+ * Props of an error component (`error.tsx`).
+ */
+export interface ErrorComponentProps {
+  /**
+   * Error thrown by the page server hook or while rendering the subtree.
+   * Server hook errors have a generic message in production and a `digest`
+   * that identifies the error in the server logs.
+   */
+  error: Error & { digest?: string };
+  /** Re-fetches the route data and renders the subtree again */
+  reset: () => void;
+}
+
+/**
+ * Error component (`error.tsx`): error UI of its directory subtree.
+ */
+export type ErrorComponent = React.ComponentType<ErrorComponentProps>;
+
 /**
  * Route definition loaded from the filesystem or manifest.
  * @template TPageProps - Type of props for the page component (defaults to Record<string, any>)
@@ -46,17 +72,124 @@ export interface LoadedRoute<
   layoutServerHooks?: (ServerLoader<TLayoutProps> | null)[];
   /** Middlewares (beforeServerData) from each layout's server.hook.ts file, in same order as layouts array */
   layoutMiddlewares?: RouteMiddleware[][];
+  /** `parallel` flag from each layout's server.hook.ts file: the hook runs concurrently with the others */
+  layoutParallel?: boolean[];
   dynamic: DynamicMode;
   generateStaticParams: GenerateStaticParams | null;
+  /** Seconds after which SSG output is regenerated in the background (ISR). `false` disables it */
+  revalidate?: number | false;
+  /** Render and persist static paths not returned by generateStaticParams on first request */
+  dynamicParams?: boolean;
+  /** Response headers (`headers`) from the page's server.hook.ts file */
+  headers?: RouteHeaders | null;
+  /** Cache-Control policy (`cache`) from the page's server.hook.ts file */
+  cache?: CachePolicy | null;
+  /** Schema of the route params (`params`) from the page's server.hook.ts file */
+  paramsSchema?: ZodSchema | null;
+  /** Schema of the query parameters (`searchParams`) from the page's server.hook.ts file */
+  searchParamsSchema?: ZodSchema | null;
+  /** Server actions (action / actions) from the page's server.hook.ts file, keyed by name ("default" for `action`) */
+  actions?: Record<string, ServerAction>;
+  /** Parallel route slots (`@name` directories next to layouts) rendered for this route */
+  slots?: RouteSlot[];
+  /** Intercepting routes (`@name/(.)path`) reachable from this route with client-side navigation */
+  intercepts?: RouteIntercept[];
+  /** Segment boundaries (`loading.tsx` / `error.tsx`) from the app root to the page directory */
+  boundaries?: RouteBoundary[];
+  /** Nearest `_not-found.tsx` below the app root (with its layouts); null uses the app-level one */
+  notFound?: LoadedRoute | null;
+}
+
+/**
+ * Loading and error boundary of a directory (`loading.tsx` / `error.tsx`).
+ * It wraps everything below that directory: nested layouts and the page.
+ */
+export interface RouteBoundary {
+  /** Number of layouts wrapping the boundary (it renders inside `layouts[layoutDepth - 1]`) */
+  layoutDepth: number;
+  loading: LoadingComponent | null;
+  error: ErrorComponent | null;
+  loadingFile: string | null;
+  errorFile: string | null;
+}
+
+/**
+ * Parallel route slot: an `@name` directory next to a layout.
+ * The layout receives the slot page for the current route as the `name` prop
+ * (or the slot's `default.tsx`, or null).
+ */
+export interface RouteSlot {
+  /** Slot name (directory name without @) */
+  name: string;
+  /** Index in `layouts` of the layout that receives the slot */
+  layoutIndex: number;
+  /** Slot page matching the route, or the slot default */
+  component: PageComponent | null;
+  file: string | null;
+}
+
+/**
+ * Intercepting route inside a slot (e.g. `@modal/(.)photo/[id]/page.tsx`).
+ * A client-side navigation to `pattern` renders it in the slot, keeping the current page;
+ * a full page load renders the regular route for that URL.
+ */
+export interface RouteIntercept {
+  /** Slot name that renders the intercepted page */
+  slot: string;
+  /** Index in `layouts` of the layout that owns the slot */
+  layoutIndex: number;
+  /** Route pattern intercepted (e.g. "/photo/[id]") */
+  pattern: string;
+  paramNames: string[];
+  file: string;
 }
 
 
 export type DynamicMode = "auto" | "force-static" | "force-dynamic";
 
+/**
+ * `Cache-Control` policy of a page or API route (`export const cache`).
+ *
+ * - A string is sent as is (e.g. "public, max-age=60")
+ * - `false` disables caching ("no-store")
+ * - An object is formatted as `public, max-age=..., s-maxage=..., stale-while-revalidate=...`
+ *
+ * @example
+ * export const cache: CachePolicy = { sMaxAge: 60, staleWhileRevalidate: 300 };
+ */
+export type CachePolicy =
+  | string
+  | false
+  | {
+      /** Shared caches (CDN) may store the response ("public", default) or only the browser ("private") */
+      scope?: "public" | "private";
+      /** Seconds the response is fresh in the browser */
+      maxAge?: number;
+      /** Seconds the response is fresh in shared caches */
+      sMaxAge?: number;
+      /** Seconds a stale response may be served while it is revalidated */
+      staleWhileRevalidate?: number;
+    };
+
+/**
+ * Response headers of a page or API route (`export const headers`):
+ * an object, or a function of the request context.
+ *
+ * @example
+ * export const headers: RouteHeaders = (ctx) => ({ "X-Post": ctx.params.slug });
+ */
+export type RouteHeaders<TContext = ServerContext> =
+  | Record<string, string>
+  | ((ctx: TContext) => Record<string, string> | Promise<Record<string, string>>);
+
 export type GenerateStaticParams = () =>
   | Array<Record<string, string>>
   | Promise<Array<Record<string, string>>>;
 
+// Brands loader responses with a global symbol, so they are recognised by code running
+// from another bundle of the package (where `instanceof` fails)
+const LOADER_RESPONSE_KIND = Symbol.for("loly.loaderResponse");
+
 /**
  * Response class for redirects in server loaders.
  * Use ctx.Redirect() to return this from getServerSideProps.
@@ -65,7 +198,9 @@ export class RedirectResponse {
   constructor(
     public destination: string,
     public permanent: boolean = false
-  ) {}
+  ) {
+    Object.defineProperty(this, LOADER_RESPONSE_KIND, { value: "redirect" });
+  }
 }
 
 /**
@@ -73,7 +208,34 @@ export class RedirectResponse {
  * Use ctx.NotFound() to return this from getServerSideProps.
  */
 export class NotFoundResponse {
-  constructor() {}
+  constructor() {
+    Object.defineProperty(this, LOADER_RESPONSE_KIND, { value: "not-found" });
+  }
+}
+
+/**
+ * Checks whether a loader result is a redirect or not-found response,
+ * created by any copy of the package.
+ */
+export function isLoaderControlResponse(
+  value: unknown
+): value is RedirectResponse | NotFoundResponse {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as any)[LOADER_RESPONSE_KIND] !== undefined
+  );
+}
+
+/**
+ * Response class for validation errors in server actions.
+ * Use ctx.Invalid() to return this from an action.
+ */
+export class InvalidResponse {
+  constructor(
+    public errors: Record<string, string | string[]>,
+    public values: Record<string, any> = {}
+  ) {}
 }
 
 /**
@@ -87,21 +249,33 @@ interface BaseContext {
   res: Response;
   /** Route parameters extracted from the URL pattern */
   params: Record<string, string>;
+  /** Query parameters, parsed by the route's `searchParams` schema when it exports one */
+  query: Record<string, any>;
   /** Current pathname (may be rewritten path for rewrites) */
   pathname: string;
   /** Local storage for passing data between middlewares and handlers */
   locals: Record<string, any>;
 }
 
-export interface ServerContext extends BaseContext {
+export interface ServerContext<
+  TParams extends Record<string, any> = Record<string, string>,
+  TQuery extends Record<string, any> = Record<string, any>
+> extends Omit<BaseContext, "params" | "query"> {
+  /** Route parameters extracted from the URL pattern (typed with `ServerLoader<TProps, TPattern>`) */
+  params: TParams;
+  /** Query parameters (typed by the route's `searchParams` schema with `ServerLoader<TProps, TPattern>`) */
+  query: TQuery;
+  /** Locale of the request (config.i18n), undefined when the app is not internationalised */
+  locale?: string;
   /**
    * Redirect helper method. Returns a RedirectResponse that will be handled automatically.
+   * The destination is type-checked against the generated route types.
    * @example
    * if (!user) {
    *   return ctx.Redirect("/login");
    * }
    */
-  Redirect: (destination: string, permanent?: boolean) => RedirectResponse;
+  Redirect: (destination: Href, permanent?: boolean) => RedirectResponse;
   /**
    * Not found helper method. Returns a NotFoundResponse that will be handled automatically.
    * @example
@@ -133,12 +307,12 @@ export interface WssActions {
   ): void;
 
   /**
-   * Join a room
+   * Join a room (and its presence, with optional member metadata)
    */
-  join(room: string): Promise<void>;
+  join(room: string, meta?: Record<string, any>): Promise<void>;
 
   /**
-   * Leave a room
+   * Leave a room (and its presence)
    */
   leave(room: string): Promise<void>;
 
@@ -246,6 +420,7 @@ export interface LoaderResult<TProps extends Record<string, any> = Record<string
  * This function is exported from server.hook.ts files.
  * 
  * @template TProps - Type of props that will be returned (defaults to Record<string, any>)
+ * @template TPattern - Route pattern whose params `ctx.params` gets (from the generated route types)
  * 
  * @example
  * // Typed loader
@@ -254,15 +429,99 @@ export interface LoaderResult<TProps extends Record<string, any> = Record<string
  * });
  * 
  * @example
+ * // Typed params (ctx.params.slug is a string, ctx.params.slgu is an error)
+ * export const getServerSideProps: ServerLoader<{ post: Post }, "/blog/[slug]"> = async (ctx) => ({
+ *   props: { post: await getPost(ctx.params.slug) }
+ * });
+ * 
+ * @example
  * // Untyped loader (backward compatible)
  * export const getServerSideProps: ServerLoader = async (ctx) => ({
  *   props: { any: 'data' }
  * });
  */
-export type ServerLoader<TProps extends Record<string, any> = Record<string, any>> = (
-  ctx: ServerContext
+export type ServerLoader<
+  TProps extends Record<string, any> = Record<string, any>,
+  TPattern extends RoutePattern = never
+> = (
+  ctx: ServerContext<RouteParams<TPattern>, RouteSearchParams<TPattern>>
 ) => Promise<LoaderResult<TProps> | RedirectResponse | NotFoundResponse>;
 
+/**
+ * Context passed to server actions. Extends ServerContext with the parsed request body.
+ */
+export interface ActionContext extends ServerContext {
+  /** Parsed form fields (urlencoded) or JSON body, without the internal `__action` field */
+  body: Record<string, any>;
+  /** Name of the action being run ("default" for the `action` export) */
+  actionName: string;
+  /**
+   * Validation error helper. Returns an InvalidResponse that is passed back to the page
+   * (as `actionData`) with a 400 status.
+   * @example
+   * if (!ctx.body.email) {
+   *   return ctx.Invalid({ email: "Email is required" }, ctx.body);
+   * }
+   */
+  Invalid: (
+    errors: Record<string, string | string[]>,
+    values?: Record<string, any>
+  ) => InvalidResponse;
+}
+
+/**
+ * Server action type. Exported from page.server.hook.ts as `action`, or as
+ * named handlers in `actions`, and run on POST requests to the page.
+ *
+ * Returns a RedirectResponse, an InvalidResponse (validation errors) or data
+ * that is passed to the page on re-render as `actionData`.
+ *
+ * @template TData - Type of data returned on success
+ *
+ * @example
+ * export const action: ServerAction<{ id: string }> = async (ctx) => {
+ *   if (!ctx.body.title) {
+ *     return ctx.Invalid({ title: "Title is required" }, ctx.body);
+ *   }
+ *   const post = await createPost(ctx.body);
+ *   return ctx.Redirect(`/posts/${post.id}`);
+ * };
+ *
+ * @example
+ * export const actions: Record<string, ServerAction> = {
+ *   archive: async (ctx) => ({ archived: await archivePost(ctx.params.id) }),
+ *   remove: async (ctx) => { await removePost(ctx.params.id); return ctx.Redirect("/posts"); },
+ * };
+ */
+export type ServerAction<TData = any> = (
+  ctx: ActionContext
+) =>
+  | Promise<TData | RedirectResponse | InvalidResponse | void>
+  | TData
+  | RedirectResponse
+  | InvalidResponse
+  | void;
+
+/**
+ * Outcome of a server action. Passed to the page as the `actionData` prop
+ * and returned to client calls (useAction / submitAction).
+ * @template TData - Type of data returned on success
+ */
+export interface ActionResult<TData = any> {
+  /** False when the action returned ctx.Invalid() */
+  ok: boolean;
+  /** Name of the action that ran */
+  name: string;
+  /** Data returned by the action (when ok) */
+  data?: TData;
+  /** Validation errors (when not ok) */
+  errors?: Record<string, string | string[]>;
+  /** Submitted values to repopulate the form (when not ok) */
+  values?: Record<string, any>;
+  /** Redirect destination, if the action redirected (client calls only) */
+  redirect?: string;
+}
+
 export interface ClientRoute {
   pattern: string;
   paramNames: string[];
@@ -361,6 +620,72 @@ export interface ApiContext extends BaseContext {
    * return ctx.NotFound({ error: "Resource not found" });
    */
   NotFound: (body?: any) => Response<any, Record<string, any>>;
+  /**
+   * Fetch API `Request` view of the request, created on first access.
+   * Lets handlers written for edge runtimes run unchanged.
+   * @example
+   * const { prompt } = await ctx.request.json();
+   */
+  readonly request: globalThis.Request;
+  /**
+   * Starts a Server-Sent Events stream on the response: sets the SSE headers,
+   * flushes them, sends heartbeats and stops them when the client disconnects.
+   * @example
+   * export const GET: ApiHandler = (ctx) => {
+   *   const stream = ctx.sse();
+   *   const unsubscribe = metrics.subscribe((value) => stream.send(value, { event: "metric" }));
+   *   stream.onClose(unsubscribe);
+   * };
+   */
+  sse: (options?: SSEOptions) => SSEStream;
+}
+
+/**
+ * Options of `ctx.sse()`.
+ */
+export interface SSEOptions {
+  /** Interval between heartbeat comments in ms, or false to disable (default: 15000) */
+  heartbeat?: number | false;
+  /** Reconnection delay sent to the client (`retry:` field), in ms */
+  retry?: number;
+}
+
+/**
+ * Fields of a Server-Sent Event besides its data.
+ */
+export interface SSEEventOptions {
+  /** Event name (`addEventListener(event)` on the client); defaults to "message" */
+  event?: string;
+  /** Event id; the client sends the last one back as `Last-Event-ID` when it reconnects */
+  id?: string | number;
+  /** Reconnection delay for the client, in ms */
+  retry?: number;
+}
+
+/**
+ * Server-Sent Events stream returned by `ctx.sse()`.
+ */
+export interface SSEStream {
+  /**
+   * Id of the last event received by the client before reconnecting
+   * (`Last-Event-ID` header or `lastEventId` query parameter), to resume from it.
+   */
+  readonly lastEventId: string | undefined;
+  /** True once the client disconnected or `close()` was called */
+  readonly closed: boolean;
+  /** Aborted when the stream closes; pass it to fetches or iterators feeding the stream */
+  readonly signal: AbortSignal;
+  /**
+   * Sends an event. Non-string data is serialized as JSON.
+   * @returns False if the stream is closed
+   */
+  send: (data: unknown, options?: SSEEventOptions) => boolean;
+  /** Sends a comment line (ignored by the client) */
+  comment: (text: string) => boolean;
+  /** Registers a callback for when the stream closes (client disconnect or `close()`) */
+  onClose: (callback: () => void) => void;
+  /** Ends the stream */
+  close: () => void;
 }
 
 /**
@@ -393,16 +718,31 @@ export type ApiMiddleware = (
  * API handler function type.
  * Handles the actual API request after all middlewares have run.
  * 
+ * A handler can also return a WHATWG `Response`: its status, headers and body are sent,
+ * streaming `ReadableStream` bodies as they are produced.
+ * 
  * @param ctx - API context
- * @returns Promise<void> | void
+ * @returns Nothing (the response was sent with `ctx.Response()` / `ctx.res`) or a WHATWG `Response`
  * 
  * @example
  * export const GET: ApiHandler = async (ctx) => {
  *   const user = ctx.locals.user;
  *   return ctx.Response({ user }, 200);
  * };
+ *
+ * @example
+ * export const POST: ApiHandler = async (ctx) => {
+ *   const { prompt } = await ctx.request.json();
+ *   return new Response(streamTokens(prompt), {
+ *     headers: { "Content-Type": "text/plain; charset=utf-8" },
+ *   });
+ * };
  */
-export type ApiHandler = (ctx: ApiContext) => void | Promise<void>;
+export type ApiHandler = (
+  ctx: ApiContext
+) => ApiHandlerResult | Promise<ApiHandlerResult>;
+
+type ApiHandlerResult = void | globalThis.Response | Response<any, Record<string, any>>;
 
 export interface ApiRoute {
   pattern: string;
@@ -418,6 +758,14 @@ export interface ApiRoute {
   // Handlers(GET, POST, etc.)
   handlers: Record<string, ApiHandler>;
 
+  // Response headers and Cache-Control policy (`headers` / `cache` exports)
+  headers?: RouteHeaders<ApiContext> | null;
+  cache?: CachePolicy | null;
+
+  // Schemas of the route params and query parameters (`params` / `searchParams` exports)
+  paramsSchema?: ZodSchema | null;
+  searchParamsSchema?: ZodSchema | null;
+
   filePath: string;
 }
 
@@ -430,6 +778,12 @@ export interface PageRouteManifestEntry {
   pageFile: string; 
   layoutFiles: string[];     
   dynamic: DynamicMode;       
+  /** Parallel route slots (compiled slot page or default file, null if none matches) */
+  slots?: { name: string; layoutIndex: number; file: string | null }[];
+  /** Segment boundaries (compiled loading / error files) */
+  boundaries?: { layoutDepth: number; loadingFile: string | null; errorFile: string | null }[];
+  /** Nearest segment not-found page (compiled page and layout files) */
+  notFound?: { pageFile: string; layoutFiles: string[] };
 }
 
 export interface ApiRouteManifestEntry {
@@ -1,15 +1,17 @@
 import fs from "fs";
 import path from "path";
-import { ApiRoute } from "./index.types";
+import { ApiContext, ApiRoute } from "./index.types";
 import {
   extractApiHandlers,
   extractApiMiddlewares,
+  extractRouteCacheConfig,
+  extractRouteSchemas,
   extractRouteRegex,
   loadModuleSafely,
 } from "./helpers/routes";
 
 const ROUTE_FILE_REGEX = /route\.(ts|tsx|js|jsx)$/;
-const HTTP_METHODS = ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"];
+const HTTP_METHODS = ["GET", "HEAD", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"];
 
 /**
  * Scans the app/api directory and loads all API routes.
@@ -65,6 +67,8 @@ export async function loadApiRoutes(appDir: string): Promise<ApiRoute[]> {
       const handlers = extractApiHandlers(mod, HTTP_METHODS);
       const { global: globalMiddlewares, methodSpecific: methodMiddlewares } =
         extractApiMiddlewares(mod, HTTP_METHODS);
+      const { headers, cache } = extractRouteCacheConfig<ApiContext>(mod, fullPath);
+      const { paramsSchema, searchParamsSchema } = extractRouteSchemas(mod, fullPath);
 
       routes.push({
         pattern,
@@ -73,6 +77,10 @@ export async function loadApiRoutes(appDir: string): Promise<ApiRoute[]> {
         handlers,
         middlewares: globalMiddlewares,
         methodMiddlewares,
+        headers,
+        cache,
+        paramsSchema,
+        searchParamsSchema,
         filePath: fullPath,
       });
     }
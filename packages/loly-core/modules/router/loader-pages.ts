@@ -2,8 +2,11 @@ import fs from "fs";
 import path from "path";
 import { LoadedRoute, PageComponent, RouteMiddleware } from "./index.types";
 import { PAGE_FILE_REGEX } from "./constants";
-import { buildRoutePathFromDir, buildRegexFromRoutePath, isRouteGroup } from "./path";
+import { buildRoutePathFromDir, buildRegexFromRoutePath, isRouteGroup, isSlotDir } from "./path";
 import { loadLayoutsForDir } from "./layout";
+import { loadRouteSlots } from "./slots";
+import { loadRouteBoundaries } from "./boundaries";
+import { loadSegmentNotFoundRoute } from "./not-found";
 import { loadServerHookForDir, loadLayoutServerHook } from "./server-hook";
 
 /**
@@ -100,6 +103,8 @@ export async function loadRoutes(appDir: string): Promise<LoadedRoute[]> {
       const fullPath = path.join(currentDir, entry.name);
 
       if (entry.isDirectory()) {
+        // Slot directories (@modal) are rendered by their layout, not as routes
+        if (isSlotDir(entry.name)) continue;
         await walk(fullPath);
         continue;
       }
@@ -133,20 +138,45 @@ export async function loadRoutes(appDir: string): Promise<LoadedRoute[]> {
       // For a layout at app/layout.tsx, we look for app/layout.server.hook.ts (same directory)
       const layoutServerHooks: (typeof serverHook)[] = [];
       const layoutMiddlewares: RouteMiddleware[][] = [];
+      const layoutParallel: boolean[] = [];
       for (const layoutFile of layoutFiles) {
         const layoutHookData = await loadLayoutServerHook(layoutFile, projectRoot);
         if (layoutHookData) {
           layoutServerHooks.push(layoutHookData.serverHook);
           layoutMiddlewares.push(layoutHookData.middlewares);
+          layoutParallel.push(layoutHookData.parallel);
         } else {
           layoutServerHooks.push(null);
           layoutMiddlewares.push([]);
+          layoutParallel.push(false);
         }
       }
 
-      const { middlewares, serverHook, dynamic, generateStaticParams } =
+      const {
+        middlewares,
+        serverHook,
+        dynamic,
+        generateStaticParams,
+        revalidate,
+        dynamicParams,
+        actions,
+        headers,
+        cache,
+        paramsSchema,
+        searchParamsSchema,
+      } =
         await loadServerHookForDir(currentDir, projectRoot);
 
+      const { slots, intercepts } = await loadRouteSlots(
+        routePath,
+        layoutFiles,
+        appDir,
+        projectRoot
+      );
+
+      const boundaries = await loadRouteBoundaries(currentDir, layoutFiles, appDir, projectRoot);
+      const notFound = await loadSegmentNotFoundRoute(currentDir, appDir, projectRoot);
+
       routes.push({
         pattern: routePath,
         regex,
@@ -159,8 +189,20 @@ export async function loadRoutes(appDir: string): Promise<LoadedRoute[]> {
         loader: serverHook, // Keep 'loader' field name for backward compatibility
         layoutServerHooks, // Server hooks for each layout (same order as layouts)
         layoutMiddlewares, // Middlewares for each layout (same order as layouts)
+        layoutParallel, // Parallel flag for each layout hook (same order as layouts)
         dynamic,
         generateStaticParams,
+        revalidate,
+        dynamicParams,
+        actions,
+        headers,
+        cache,
+        paramsSchema,
+        searchParamsSchema,
+        slots,
+        intercepts,
+        boundaries,
+        notFound,
       });
     }
   }
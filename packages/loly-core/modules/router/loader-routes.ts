@@ -1,16 +1,22 @@
 import fs from "fs";
 import path from "path";
 import {
+  ApiContext,
   ApiRoute,
   LoadedRoute,
   RouteMiddleware,
+  RouteBoundary,
+  RouteSlot,
   WssRoute,
 } from "./index.types";
 import { loadServerHookForDir, loadLayoutServerHook } from "./server-hook";
+import { createSegmentNotFoundRoute } from "./not-found";
 import { BUILD_FOLDER_NAME, ERROR_PATTERN } from "@constants/globals";
 import {
   extractApiHandlers,
   extractApiMiddlewares,
+  extractRouteCacheConfig,
+  extractRouteSchemas,
   extractRouteRegex,
   extractWssHandlers,
   extractDefineWssRoute,
@@ -53,6 +59,46 @@ export async function loadRoutesFromManifest(projectRoot: string): Promise<{
 
     const layouts = await loadLayouts(entry.layoutFiles, projectRoot);
     const pageFile = path.join(projectRoot, entry.pageFile);
+
+    // Parallel route slots (intercepting routes only exist on the client)
+    const slots: RouteSlot[] = [];
+    for (const slot of entry.slots ?? []) {
+      slots.push({
+        name: slot.name,
+        layoutIndex: slot.layoutIndex,
+        component: slot.file ? await loadPageComponent(slot.file, projectRoot) : null,
+        file: slot.file ? path.join(projectRoot, slot.file) : null,
+      });
+    }
+    // Segment boundaries (loading.tsx / error.tsx)
+    const boundaries: RouteBoundary[] = [];
+    for (const boundary of entry.boundaries ?? []) {
+      boundaries.push({
+        layoutDepth: boundary.layoutDepth,
+        loading: boundary.loadingFile
+          ? ((await loadPageComponent(boundary.loadingFile, projectRoot)) as RouteBoundary["loading"])
+          : null,
+        error: boundary.errorFile
+          ? ((await loadPageComponent(boundary.errorFile, projectRoot)) as RouteBoundary["error"])
+          : null,
+        loadingFile: boundary.loadingFile ? path.join(projectRoot, boundary.loadingFile) : null,
+        errorFile: boundary.errorFile ? path.join(projectRoot, boundary.errorFile) : null,
+      });
+    }
+    // Nearest segment _not-found.tsx (null uses the app-level one)
+    let notFound: LoadedRoute | null = null;
+    if (entry.notFound) {
+      const notFoundComponent = await loadPageComponent(entry.notFound.pageFile, projectRoot);
+      if (notFoundComponent) {
+        notFound = await createSegmentNotFoundRoute(
+          notFoundComponent,
+          path.join(projectRoot, entry.notFound.pageFile),
+          await loadLayouts(entry.notFound.layoutFiles, projectRoot),
+          entry.notFound.layoutFiles.map((f) => path.join(projectRoot, f)),
+          projectRoot
+        );
+      }
+    }
     const layoutFiles = entry.layoutFiles.map((f) =>
       path.join(projectRoot, f)
     );
@@ -62,18 +108,33 @@ export async function loadRoutesFromManifest(projectRoot: string): Promise<{
     // For a layout at app/layout.tsx, we look for app/layout.server.hook.ts (same directory)
     const layoutServerHooks: (typeof serverHook)[] = [];
     const layoutMiddlewares: RouteMiddleware[][] = [];
+    const layoutParallel: boolean[] = [];
     for (const layoutFile of layoutFiles) {
       const layoutHookData = await loadLayoutServerHook(layoutFile, projectRoot);
       if (layoutHookData) {
         layoutServerHooks.push(layoutHookData.serverHook);
         layoutMiddlewares.push(layoutHookData.middlewares);
+        layoutParallel.push(layoutHookData.parallel);
       } else {
         layoutServerHooks.push(null);
         layoutMiddlewares.push([]);
+        layoutParallel.push(false);
       }
     }
     
-    const { middlewares, serverHook, dynamic, generateStaticParams } =
+    const {
+      middlewares,
+      serverHook,
+      dynamic,
+      generateStaticParams,
+      revalidate,
+      dynamicParams,
+      actions,
+      headers,
+      cache,
+      paramsSchema,
+      searchParamsSchema,
+    } =
       await loadServerHookForDir(pageDir, projectRoot);
 
     pageRoutes.push({
@@ -88,13 +149,24 @@ export async function loadRoutesFromManifest(projectRoot: string): Promise<{
       loader: serverHook, // Keep 'loader' field name for backward compatibility
       layoutServerHooks, // Server hooks for each layout (same order as layouts)
       layoutMiddlewares, // Middlewares for each layout (same order as layouts)
+      layoutParallel, // Parallel flag for each layout hook (same order as layouts)
       dynamic: entry.dynamic ?? dynamic,
       generateStaticParams,
+      revalidate,
+      dynamicParams,
+      actions,
+      headers,
+      cache,
+      paramsSchema,
+      searchParamsSchema,
+      slots,
+      boundaries,
+      notFound,
     });
   }
 
   const apiRoutes: ApiRoute[] = [];
-  const httpMethods = ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"];
+  const httpMethods = ["GET", "HEAD", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"];
 
   for (const entry of manifest.apiRoutes) {
     const { regex, paramNames } = extractRouteRegex(
@@ -111,6 +183,8 @@ export async function loadRoutesFromManifest(projectRoot: string): Promise<{
     const handlers = extractApiHandlers(mod, httpMethods);
     const { global: globalMiddlewares, methodSpecific: methodMiddlewares } =
       extractApiMiddlewares(mod, httpMethods);
+    const { headers, cache } = extractRouteCacheConfig<ApiContext>(mod, filePath);
+    const { paramsSchema, searchParamsSchema } = extractRouteSchemas(mod, filePath);
 
     apiRoutes.push({
       pattern: entry.pattern,
@@ -119,6 +193,10 @@ export async function loadRoutesFromManifest(projectRoot: string): Promise<{
       handlers,
       middlewares: globalMiddlewares,
       methodMiddlewares,
+      headers,
+      cache,
+      paramsSchema,
+      searchParamsSchema,
       filePath,
     });
   }
@@ -9,6 +9,7 @@ import {
   WssRoute,
   WssRouteManifestEntry,
 } from "./index.types";
+import type { ExtendedWssRoute } from "./loader-wss";
 import {
   BUILD_FOLDER_NAME,
   STYLE_FILE_NAME,
@@ -109,6 +110,17 @@ export function writeClientRoutesManifest(
   lines.push(`export interface ClientLoadedComponents {`);
   lines.push(`  Page: React.ComponentType<any>;`);
   lines.push(`  layouts: React.ComponentType<any>[];`);
+  lines.push(`  slots?: { name: string; layoutIndex: number; Page: React.ComponentType<any> | null }[];`);
+  lines.push(`  boundaries?: { layoutDepth: number; Loading: React.ComponentType<any> | null; Error: React.ComponentType<any> | null }[];`);
+  lines.push(`}`);
+  lines.push("");
+
+  lines.push(`export interface ClientInterceptRoute {`);
+  lines.push(`  slot: string;`);
+  lines.push(`  layoutIndex: number;`);
+  lines.push(`  pattern: string;`);
+  lines.push(`  paramNames: string[];`);
+  lines.push(`  load: () => Promise<React.ComponentType<any>>;`);
   lines.push(`}`);
   lines.push("");
 
@@ -116,6 +128,8 @@ export function writeClientRoutesManifest(
   lines.push(`  pattern: string;`);
   lines.push(`  paramNames: string[];`);
   lines.push(`  load: () => Promise<ClientLoadedComponents>;`);
+  lines.push(`  intercepts?: ClientInterceptRoute[];`);
+  lines.push(`  notFound?: ClientRouteLoaded;`);
   lines.push(`}`);
   lines.push("");
 
@@ -126,9 +140,22 @@ export function writeClientRoutesManifest(
     const pattern = route.pattern;
     const paramNames = route.paramNames;
 
-    const modulePaths = [route.pageFile, ...route.layoutFiles].map(
-      toImportPath
-    );
+    const slots = route.slots ?? [];
+    const slotFiles = slots
+      .map((slot) => slot.file)
+      .filter((file): file is string => !!file);
+
+    const boundaries = route.boundaries ?? [];
+    const boundaryFiles = boundaries
+      .flatMap((boundary) => [boundary.loadingFile, boundary.errorFile])
+      .filter((file): file is string => !!file);
+
+    const modulePaths = [
+      route.pageFile,
+      ...route.layoutFiles,
+      ...slotFiles,
+      ...boundaryFiles,
+    ].map(toImportPath);
 
     const safeName =
       pattern.replace(/^\//, "").replace(/\//g, "_").replace(/\[|\]/g, "") ||
@@ -150,12 +177,87 @@ export function writeClientRoutesManifest(
     }
 
     lines.push("      ]);");
-    lines.push("      const [pageMod, ...layoutMods] = mods;");
-    lines.push("      return {");
-    lines.push("        Page: pageMod.default,");
-    lines.push("        layouts: layoutMods.map((m) => m.default),");
-    lines.push("      };");
+    if (slots.length === 0 && boundaries.length === 0) {
+      lines.push("      const [pageMod, ...layoutMods] = mods;");
+      lines.push("      return {");
+      lines.push("        Page: pageMod.default,");
+      lines.push("        layouts: layoutMods.map((m) => m.default),");
+      lines.push("      };");
+    } else {
+      // Slot and boundary modules come after the layouts, in the same order as modulePaths
+      let modIndex = 1 + route.layoutFiles.length;
+      const nextMod = (file: string | null) => (file ? `mods[${modIndex++}].default` : "null");
+
+      lines.push("      const [pageMod, ...restMods] = mods;");
+      lines.push(`      const layoutMods = restMods.slice(0, ${route.layoutFiles.length});`);
+      lines.push("      return {");
+      lines.push("        Page: pageMod.default,");
+      lines.push("        layouts: layoutMods.map((m) => m.default),");
+      if (slots.length > 0) {
+        lines.push("        slots: [");
+        for (const slot of slots) {
+          lines.push(
+            `          { name: ${JSON.stringify(slot.name)}, layoutIndex: ${slot.layoutIndex}, Page: ${nextMod(slot.file)} },`
+          );
+        }
+        lines.push("        ],");
+      }
+      if (boundaries.length > 0) {
+        lines.push("        boundaries: [");
+        for (const boundary of boundaries) {
+          const loading = nextMod(boundary.loadingFile);
+          const error = nextMod(boundary.errorFile);
+          lines.push(
+            `          { layoutDepth: ${boundary.layoutDepth}, Loading: ${loading}, Error: ${error} },`
+          );
+        }
+        lines.push("        ],");
+      }
+      lines.push("      };");
+    }
     lines.push("    },");
+
+    // Intercepting routes: loaded on demand when a navigation from this route matches them
+    const intercepts = route.intercepts ?? [];
+    if (intercepts.length > 0) {
+      lines.push("    intercepts: [");
+      for (const intercept of intercepts) {
+        const interceptName =
+          intercept.pattern.replace(/^\//, "").replace(/\//g, "_").replace(/\[|\]/g, "") ||
+          "root";
+        lines.push("      {");
+        lines.push(`        slot: ${JSON.stringify(intercept.slot)},`);
+        lines.push(`        layoutIndex: ${intercept.layoutIndex},`);
+        lines.push(`        pattern: ${JSON.stringify(intercept.pattern)},`);
+        lines.push(`        paramNames: ${JSON.stringify(intercept.paramNames)},`);
+        lines.push(
+          `        load: () => import(/* webpackChunkName: "intercept-${intercept.slot}-${interceptName}" */ "${toImportPath(intercept.file)}").then((m) => m.default),`
+        );
+        lines.push("      },");
+      }
+      lines.push("    ],");
+    }
+
+    // Nearest segment _not-found.tsx, rendered inside the layouts of its directory
+    if (route.notFound) {
+      const notFoundChunk = `route-not-found-${safeName}`;
+      lines.push("    notFound: {");
+      lines.push(`      pattern: "${NOT_FOUND_CHUNK_KEY}",`);
+      lines.push("      paramNames: [],");
+      lines.push("      load: async () => {");
+      lines.push("        const mods = await Promise.all([");
+      for (const p of [route.notFound.pageFile, ...route.notFound.layoutFiles].map(toImportPath)) {
+        lines.push(`          import(/* webpackChunkName: "${notFoundChunk}" */ "${p}"),`);
+      }
+      lines.push("        ]);");
+      lines.push("        const [pageMod, ...layoutMods] = mods;");
+      lines.push("        return {");
+      lines.push("          Page: pageMod.default,");
+      lines.push("          layouts: layoutMods.map((m) => m.default),");
+      lines.push("        };");
+      lines.push("      },");
+      lines.push("    },");
+    }
     lines.push("  },");
   }
 
@@ -297,6 +399,8 @@ export function writeClientBoostrapManifest(projectRoot: string): void {
  * @param projectRoot - Root directory of the project
  * @param serverOutDir - Server output directory from buildServerApp
  * @param appDir - Absolute path to the app directory
+ * @param basePath - Normalized routing.basePath (optional, defaults to "")
+ * @param caseSensitive - routing.caseSensitive (optional, defaults to false)
  */
 export function writeRoutesManifest({
   routes,
@@ -307,6 +411,8 @@ export function writeRoutesManifest({
   projectRoot,
   serverOutDir,
   appDir,
+  basePath = "",
+  caseSensitive = false,
 }: {
   routes: LoadedRoute[];
   apiRoutes: ApiRoute[];
@@ -316,6 +422,8 @@ export function writeRoutesManifest({
   projectRoot: string;
   serverOutDir: string;
   appDir: string;
+  basePath?: string;
+  caseSensitive?: boolean;
 }) {
   const fwDir = path.join(projectRoot, BUILD_FOLDER_NAME);
   if (!fs.existsSync(fwDir)) {
@@ -341,6 +449,29 @@ export function writeRoutesManifest({
       return path.join(serverOutDir, convertToJs(rel));
     });
 
+    const slots = (r.slots ?? []).map((slot) => ({
+      name: slot.name,
+      layoutIndex: slot.layoutIndex,
+      file: slot.file
+        ? toRelative(path.join(serverOutDir, convertToJs(path.relative(appDir, slot.file))))
+        : null,
+    }));
+
+    const toCompiled = (file: string | null) =>
+      file ? toRelative(path.join(serverOutDir, convertToJs(path.relative(appDir, file)))) : null;
+    const boundaries = (r.boundaries ?? []).map((boundary) => ({
+      layoutDepth: boundary.layoutDepth,
+      loadingFile: toCompiled(boundary.loadingFile),
+      errorFile: toCompiled(boundary.errorFile),
+    }));
+
+    const notFound = r.notFound
+      ? {
+          pageFile: toCompiled(r.notFound.pageFile)!,
+          layoutFiles: r.notFound.layoutFiles.map((lf) => toCompiled(lf)!),
+        }
+      : null;
+
     return {
       type: "page",
       pattern: r.pattern,
@@ -348,6 +479,9 @@ export function writeRoutesManifest({
       pageFile: toRelative(jsPageFile),
       layoutFiles: jsLayoutFiles.map(toRelative),
       dynamic: r.dynamic,
+      ...(slots.length > 0 && { slots }),
+      ...(boundaries.length > 0 && { boundaries }),
+      ...(notFound && { notFound }),
     };
   });
 
@@ -455,8 +589,8 @@ export function writeRoutesManifest({
 
   const manifest: RoutesManifest = {
     version: 1,
-    basePath: "",
-    caseSensitive: false,
+    basePath,
+    caseSensitive,
     pages404: true,
     routes: pageEntries,
     apiRoutes: apiEntries,
@@ -467,3 +601,136 @@ export function writeRoutesManifest({
 
   fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2), "utf-8");
 }
+
+/**
+ * Converts a route pattern into a TypeScript path type.
+ * Dynamic and catch-all segments become `${string}`.
+ *
+ * @example
+ * routePatternToPathType("/about") // "/about"
+ * routePatternToPathType("/blog/[slug]") // `/blog/${string}`
+ */
+function routePatternToPathType(pattern: string): string {
+  const segments = pattern.split("/").filter(Boolean);
+  let dynamic = false;
+
+  const parts = segments.map((seg) => {
+    if (seg.startsWith("[") && seg.endsWith("]")) {
+      dynamic = true;
+      return "${string}";
+    }
+    return seg.replace(/[\\`$]/g, (c) => `\\${c}`);
+  });
+
+  const path = "/" + parts.join("/");
+  return dynamic ? `\`${path}\`` : JSON.stringify(path);
+}
+
+/**
+ * Gets the import path of a page's server hook relative to the types directory
+ * (without extension), or null if the page has none.
+ */
+function getServerHookImportPath(pageFile: string, typesDir: string): string | null {
+  const pageDir = path.dirname(pageFile);
+  for (const name of ["page.server.hook", "server.hook"]) {
+    for (const ext of [".ts", ".js"]) {
+      const file = path.join(pageDir, name + ext);
+      if (fs.existsSync(file)) {
+        const rel = path.relative(typesDir, path.join(pageDir, name)).split(path.sep).join("/");
+        return rel.startsWith(".") ? rel : `./${rel}`;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Writes the route type declarations (`.loly/types/routes.d.ts`).
+ *
+ * Augments the global `LolyRoutes` interface with every page pattern, its params
+ * and the paths it matches, so `Link`, `router.push`, `ctx.Redirect` and
+ * `ServerLoader` params are type-checked. Pages with `params` / `searchParams`
+ * schemas get the schemas' output types. WSS routes fill `LolyRealtimeRoutes`
+ * with their `defineWssRoute` definition, typing `createRealtimeClient`.
+ * The app's tsconfig must include the `.loly/types` directory.
+ *
+ * @param routes - Array of loaded page routes
+ * @param projectRoot - Root directory of the project
+ * @param wssRoutes - Array of loaded WSS routes (source files)
+ */
+export function writeRouteTypes(
+  routes: LoadedRoute[],
+  projectRoot: string,
+  wssRoutes: ExtendedWssRoute[] = []
+): void {
+  const typesDir = path.join(projectRoot, BUILD_FOLDER_NAME, "types");
+  if (!fs.existsSync(typesDir)) {
+    fs.mkdirSync(typesDir, { recursive: true });
+  }
+
+  const typesPath = path.join(typesDir, "routes.d.ts");
+
+  const lines: string[] = [];
+  lines.push("// AUTO-GENERATED by Loly. Do not edit.");
+  lines.push("export {};");
+  lines.push("");
+  lines.push("declare global {");
+  lines.push("  interface LolyRoutes {");
+
+  const sorted = [...routes].sort((a, b) => a.pattern.localeCompare(b.pattern));
+  for (const route of sorted) {
+    // `params` / `searchParams` schemas: the output type of the schema exported by the server hook
+    const hookImport = route.paramsSchema || route.searchParamsSchema
+      ? getServerHookImportPath(route.pageFile, typesDir)
+      : null;
+    const schemaOutput = (name: string) =>
+      `ReturnType<typeof import(${JSON.stringify(hookImport)})[${JSON.stringify(name)}]["parse"]>`;
+
+    const params = hookImport && route.paramsSchema
+      ? schemaOutput("params")
+      : route.paramNames.length
+      ? `{ ${route.paramNames.map((name) => `${JSON.stringify(name)}: string`).join("; ")} }`
+      : "{}";
+    const searchParams = hookImport && route.searchParamsSchema
+      ? `; searchParams: ${schemaOutput("searchParams")}`
+      : "";
+    lines.push(
+      `    ${JSON.stringify(route.pattern)}: { params: ${params}; href: ${routePatternToPathType(route.pattern)}${searchParams} };`
+    );
+  }
+
+  lines.push("  }");
+  lines.push("");
+  lines.push("  interface LolyRealtimeRoutes {");
+
+  // Namespace served by the route: the `namespace` override of defineWssRoute, or the folder
+  const wssNamespaces = wssRoutes
+    .map((route) => ({
+      route,
+      namespace: route.normalized?.namespace ?? (route.pattern.replace(/^\/wss/, "") || "/"),
+    }))
+    .sort((a, b) => a.namespace.localeCompare(b.namespace));
+  for (const { route, namespace } of wssNamespaces) {
+    const rel = path
+      .relative(typesDir, route.filePath.replace(/\.(ts|tsx|js|jsx)$/, ""))
+      .split(path.sep)
+      .join("/");
+    const importPath = rel.startsWith(".") ? rel : `./${rel}`;
+    lines.push(
+      `    ${JSON.stringify(namespace)}: { route: typeof import(${JSON.stringify(importPath)})["default"]; path: ${routePatternToPathType(namespace)} };`
+    );
+  }
+
+  lines.push("  }");
+  lines.push("}");
+  lines.push("");
+
+  const content = lines.join("\n");
+
+  // Skip unchanged output so editors and tsc watchers do not re-check needlessly
+  if (fs.existsSync(typesPath) && fs.readFileSync(typesPath, "utf-8") === content) {
+    return;
+  }
+
+  fs.writeFileSync(typesPath, content, "utf-8");
+}
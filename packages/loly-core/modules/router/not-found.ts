@@ -0,0 +1,111 @@
+import fs from "fs";
+import path from "path";
+import { LayoutComponent, LoadedRoute, PageComponent, RouteMiddleware, ServerLoader } from "./index.types";
+import { loadLayoutsForDir } from "./layout";
+import { loadLayoutServerHook } from "./server-hook";
+import { NOT_FOUND_FILE_PREFIX, NOT_FOUND_PATTERN } from "@constants/globals";
+
+/**
+ * Finds the nearest `_not-found.tsx` for a page directory, walking up to the app root.
+ * The app root itself is excluded: its not-found page is the app-level one.
+ *
+ * @param pageDir - Directory containing the page file
+ * @param appDir - Root app directory
+ * @returns Path of the segment not-found file, or null if none below the app root
+ *
+ * @example
+ * // app/_not-found.tsx + app/shop/_not-found.tsx + app/shop/[sku]/page.tsx
+ * findSegmentNotFoundFile("app/shop/[sku]", "app"); // "app/shop/_not-found.tsx"
+ */
+export function findSegmentNotFoundFile(pageDir: string, appDir: string): string | null {
+  const appDirResolved = path.resolve(appDir);
+  let currentDir = path.resolve(pageDir);
+
+  while (currentDir !== appDirResolved && currentDir.startsWith(appDirResolved + path.sep)) {
+    for (const ext of ["tsx", "ts", "jsx", "js"]) {
+      const candidate = path.join(currentDir, `${NOT_FOUND_FILE_PREFIX}.${ext}`);
+      if (fs.existsSync(candidate)) return candidate;
+    }
+    currentDir = path.dirname(currentDir);
+  }
+
+  return null;
+}
+
+/**
+ * Builds the route of a segment not-found page, rendered inside the layouts of its directory.
+ * Layout server hooks run as for any page; the not-found page has no server hook of its own.
+ *
+ * @param component - Not-found page component
+ * @param pageFile - Not-found page file
+ * @param layouts - Layout components (root → specific)
+ * @param layoutFiles - Layout files, same order as layouts
+ * @param projectRoot - Project root (for module loading)
+ * @returns LoadedRoute for the segment not-found page
+ */
+export async function createSegmentNotFoundRoute(
+  component: PageComponent,
+  pageFile: string,
+  layouts: LayoutComponent[],
+  layoutFiles: string[],
+  projectRoot: string
+): Promise<LoadedRoute> {
+  const layoutServerHooks: (ServerLoader | null)[] = [];
+  const layoutMiddlewares: RouteMiddleware[][] = [];
+  const layoutParallel: boolean[] = [];
+  for (const layoutFile of layoutFiles) {
+    const layoutHookData = await loadLayoutServerHook(layoutFile, projectRoot);
+    layoutServerHooks.push(layoutHookData?.serverHook ?? null);
+    layoutMiddlewares.push(layoutHookData?.middlewares ?? []);
+    layoutParallel.push(layoutHookData?.parallel ?? false);
+  }
+
+  return {
+    pattern: NOT_FOUND_PATTERN,
+    regex: new RegExp(`^${NOT_FOUND_PATTERN}/?$`),
+    paramNames: [],
+    component,
+    layouts,
+    pageFile,
+    layoutFiles,
+    middlewares: [],
+    loader: null,
+    layoutServerHooks,
+    layoutMiddlewares,
+    layoutParallel,
+    dynamic: "force-dynamic",
+    generateStaticParams: null,
+  };
+}
+
+/**
+ * Loads the nearest segment not-found page of a page directory from the filesystem.
+ *
+ * @param pageDir - Directory containing the page file
+ * @param appDir - Root app directory
+ * @param projectRoot - Project root (for module loading)
+ * @returns LoadedRoute for the segment not-found page, or null to use the app-level one
+ */
+export async function loadSegmentNotFoundRoute(
+  pageDir: string,
+  appDir: string,
+  projectRoot: string
+): Promise<LoadedRoute | null> {
+  const notFoundFile = findSegmentNotFoundFile(pageDir, appDir);
+  if (!notFoundFile) {
+    return null;
+  }
+
+  const { loadDefaultExport } = await import("./utils/module-loader");
+  const component = await loadDefaultExport<PageComponent>(notFoundFile, { projectRoot });
+  if (!component) {
+    return null;
+  }
+
+  const { components: layouts, files: layoutFiles } = await loadLayoutsForDir(
+    path.dirname(notFoundFile),
+    appDir
+  );
+
+  return createSegmentNotFoundRoute(component, notFoundFile, layouts, layoutFiles, projectRoot);
+}
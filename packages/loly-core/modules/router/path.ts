@@ -2,6 +2,8 @@
  * Path utilities for building route paths and regex patterns.
  */
 
+import { isCaseSensitive } from "@runtime/client/routing-options";
+
 /**
  * Checks if a directory name is a route group.
  * Route groups are directories wrapped in parentheses like (dashboard) or (landing).
@@ -16,11 +18,7 @@
  * isRouteGroup('dashboard') // false
  * isRouteGroup('settings') // false
  * 
- * @future
- * This function can be extended to support special route group types like (modal)
- * for parallel routes. For example:
- * - isRouteGroup('(modal)') could return a special type indicating it's a parallel route
- * - The routing system could handle parallel routes differently from regular route groups
+ * Parallel routes use `@name` directories instead (see isSlotDir).
  */
 export function isRouteGroup(dirName: string): boolean {
   return dirName.startsWith('(') && dirName.endsWith(')');
@@ -37,17 +35,74 @@ export function isRouteGroup(dirName: string): boolean {
  * getRouteGroupName('(dashboard)') // 'dashboard'
  * getRouteGroupName('(landing)') // 'landing'
  * getRouteGroupName('dashboard') // null
- * 
- * @future
- * This function can be used to identify special route group types:
- * - getRouteGroupName('(modal)') -> 'modal' (for parallel routes)
- * - The routing system can then handle 'modal' as a special case
  */
 export function getRouteGroupName(dirName: string): string | null {
   if (!isRouteGroup(dirName)) return null;
   return dirName.slice(1, -1); // Remove parentheses
 }
 
+/**
+ * Checks if a directory name is a parallel route slot.
+ * Slots are directories prefixed with @ like @modal or @sidebar. They don't appear
+ * in the URL: their pages are passed as a prop to the layout next to them.
+ * 
+ * @param dirName - Directory name to check
+ * @returns true if the directory is a slot
+ * 
+ * @example
+ * isSlotDir('@modal') // true
+ * isSlotDir('modal') // false
+ */
+export function isSlotDir(dirName: string): boolean {
+  return dirName.startsWith('@') && dirName.length > 1;
+}
+
+/**
+ * Gets the slot name from a directory name, e.g., "@modal" -> "modal".
+ * 
+ * @param dirName - Directory name (should be a slot)
+ * @returns The slot name without @, or null if not a slot
+ */
+export function getSlotName(dirName: string): string | null {
+  if (!isSlotDir(dirName)) return null;
+  return dirName.slice(1);
+}
+
+/**
+ * Parses the intercepting route marker at the start of a directory name.
+ * 
+ * - `(.)photo` - same level as the slot's layout
+ * - `(..)photo` - one level up (repeatable: `(..)(..)photo`)
+ * - `(...)photo` - from the app root
+ * 
+ * @param dirName - Directory name inside a slot
+ * @returns Levels to go up (`"root"` for `(...)`) and the remaining segment, or null if not intercepting
+ * 
+ * @example
+ * parseInterceptMarker('(.)photo') // { up: 0, segment: 'photo' }
+ * parseInterceptMarker('(..)(..)photo') // { up: 2, segment: 'photo' }
+ * parseInterceptMarker('(...)photo') // { up: 'root', segment: 'photo' }
+ * parseInterceptMarker('photo') // null
+ */
+export function parseInterceptMarker(
+  dirName: string
+): { up: number | "root"; segment: string } | null {
+  if (dirName.startsWith('(...)')) {
+    return { up: 'root', segment: dirName.slice(5) };
+  }
+  if (dirName.startsWith('(.)')) {
+    return { up: 0, segment: dirName.slice(3) };
+  }
+
+  let up = 0;
+  let rest = dirName;
+  while (rest.startsWith('(..)')) {
+    up++;
+    rest = rest.slice(4);
+  }
+  return up > 0 ? { up, segment: rest } : null;
+}
+
 /**
  * Builds a route path from a relative directory path.
  * Route groups (directories in parentheses) are filtered out and don't appear in the URL.
@@ -86,7 +141,11 @@ export function buildRoutePathFromDir(relDir: string): string {
  * - Dynamic segments: `[slug]` → captures single segment
  * - Catch-all segments: `[...path]` → captures remaining path (must be last)
  * 
+ * The regex gets the `i` flag unless `routing.caseSensitive` is enabled
+ * (or `options.caseSensitive` overrides it).
+ * 
  * @param routePath - Route path pattern (e.g., '/blog/[slug]', '/post/[...path]')
+ * @param options - `caseSensitive` overrides `routing.caseSensitive` (e.g. for realtime namespaces)
  * @returns Object with regex pattern and parameter names
  * 
  * @example
@@ -98,7 +157,10 @@ export function buildRoutePathFromDir(relDir: string): string {
  * 
  * @throws Error if catch-all segment is not the last segment
  */
-export function buildRegexFromRoutePath(routePath: string): {
+export function buildRegexFromRoutePath(
+  routePath: string,
+  options: { caseSensitive?: boolean } = {}
+): {
   regex: RegExp;
   paramNames: string[];
 } {
@@ -140,8 +202,38 @@ export function buildRegexFromRoutePath(routePath: string): {
   }
 
   const regexSource = "^/" + regexParts.join("/") + "/?$";
-  const regex = new RegExp(regexSource);
+  // routing.caseSensitive: false (default) matches static segments in any case
+  const caseSensitive = options.caseSensitive ?? isCaseSensitive();
+  const regex = new RegExp(regexSource, caseSensitive ? "" : "i");
 
   return { regex, paramNames };
 }
 
+/**
+ * Gets a path matched by a route pattern with the pattern's static segments in
+ * their declared casing. Dynamic segments keep the casing of the URL.
+ *
+ * Used to redirect case-insensitive matches (`routing.caseSensitive: false`)
+ * to a single canonical URL.
+ *
+ * @param pattern - Route pattern that matched the path (e.g., '/blog/[slug]')
+ * @param urlPath - Matched path (e.g., '/Blog/My-Post')
+ * @returns Path with the declared casing (e.g., '/blog/My-Post')
+ */
+export function applyRouteCasing(pattern: string, urlPath: string): string {
+  const patternSegments = pattern.split("/").filter(Boolean);
+  const pathSegments = urlPath.split("/").filter(Boolean);
+
+  for (let i = 0; i < patternSegments.length && i < pathSegments.length; i++) {
+    const seg = patternSegments[i];
+    // The catch-all takes the rest of the path as is
+    if (seg.startsWith("[...")) break;
+    if (!seg.startsWith("[")) {
+      pathSegments[i] = seg;
+    }
+  }
+
+  const trailingSlash = urlPath.length > 1 && urlPath.endsWith("/") ? "/" : "";
+  return "/" + pathSegments.join("/") + (pathSegments.length > 0 ? trailingSlash : "");
+}
+
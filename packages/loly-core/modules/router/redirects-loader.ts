@@ -0,0 +1,208 @@
+import fs from "fs";
+import path from "path";
+import type { RedirectRule, CompiledRedirectRule } from "./redirects";
+import { compileRedirectRules } from "./redirects";
+import { BUILD_FOLDER_NAME } from "@constants/globals";
+
+/**
+ * Unified interface for loading redirects from different sources.
+ * Abstracts the difference between filesystem (dev) and manifest (prod) loading.
+ */
+export interface RedirectLoader {
+  loadRedirects(): Promise<CompiledRedirectRule[]>;
+}
+
+/**
+ * Redirects manifest structure.
+ */
+export interface RedirectsManifest {
+  version: 1;
+  redirects: RedirectRule[];
+}
+
+/**
+ * Loads redirects directly from the filesystem.
+ * Used in development mode.
+ *
+ * Caches redirects and only reloads when redirects.config.ts changes.
+ */
+export class FilesystemRedirectLoader implements RedirectLoader {
+  private cache: {
+    redirects: CompiledRedirectRule[];
+    configPath: string | null;
+    mtime: number;
+    size: number;
+  } | null = null;
+
+  constructor(private projectRoot: string) {}
+
+  /**
+   * Invalidates the cache, forcing a reload on next access.
+   */
+  invalidateCache(): void {
+    this.cache = null;
+  }
+
+  /**
+   * Finds the redirects config file.
+   * Looks for redirects.config.ts, redirects.config.js, or redirects.config.json
+   */
+  private findRedirectsConfig(): string | null {
+    const candidates = [
+      path.join(this.projectRoot, "redirects.config.ts"),
+      path.join(this.projectRoot, "redirects.config.js"),
+      path.join(this.projectRoot, "redirects.config.json"),
+    ];
+
+    for (const candidate of candidates) {
+      if (fs.existsSync(candidate)) {
+        return candidate;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Loads redirect rules from a config file.
+   */
+  private async loadRedirectsFromFile(configPath: string): Promise<RedirectRule[]> {
+    if (path.extname(configPath) === ".json") {
+      const config = JSON.parse(fs.readFileSync(configPath, "utf-8"));
+      return Array.isArray(config) ? config : [];
+    }
+
+    const { loadModule } = await import("./utils/module-loader");
+    const mod = await loadModule(configPath, { projectRoot: this.projectRoot });
+    const config = (mod as any)?.default || mod;
+
+    if (typeof config === "function") {
+      // Async function - execute it (e.g. rules read from a CMS export)
+      return await config();
+    }
+
+    if (Array.isArray(config)) {
+      return config;
+    }
+
+    throw new Error(
+      `Invalid redirects config in ${configPath}. Expected array or function returning array.`
+    );
+  }
+
+  async loadRedirects(): Promise<CompiledRedirectRule[]> {
+    const configPath = this.findRedirectsConfig();
+
+    if (!configPath) {
+      if (!this.cache || this.cache.configPath !== null) {
+        this.cache = { redirects: [], configPath: null, mtime: 0, size: 0 };
+      }
+      return this.cache.redirects;
+    }
+
+    const stats = fs.statSync(configPath);
+    if (
+      !this.cache ||
+      this.cache.configPath !== configPath ||
+      this.cache.mtime !== stats.mtimeMs ||
+      this.cache.size !== stats.size
+    ) {
+      const rules = await this.loadRedirectsFromFile(configPath);
+      this.cache = {
+        redirects: compileRedirectRules(rules),
+        configPath,
+        mtime: stats.mtimeMs,
+        size: stats.size,
+      };
+    }
+
+    return this.cache.redirects;
+  }
+}
+
+/**
+ * Loads redirects from the compiled manifest file.
+ * Used in production mode, where redirects are static.
+ */
+export class ManifestRedirectLoader implements RedirectLoader {
+  private cache: CompiledRedirectRule[] | null = null;
+  private manifestPath: string;
+
+  constructor(projectRoot: string) {
+    this.manifestPath = path.join(projectRoot, BUILD_FOLDER_NAME, "redirects-manifest.json");
+  }
+
+  async loadRedirects(): Promise<CompiledRedirectRule[]> {
+    if (this.cache) {
+      return this.cache;
+    }
+
+    if (!fs.existsSync(this.manifestPath)) {
+      this.cache = [];
+      return [];
+    }
+
+    try {
+      const manifest = JSON.parse(fs.readFileSync(this.manifestPath, "utf-8")) as RedirectsManifest;
+      this.cache = compileRedirectRules(manifest.redirects ?? []);
+    } catch (error) {
+      console.warn(
+        `Failed to read redirects manifest from ${this.manifestPath}:`,
+        error
+      );
+      this.cache = [];
+    }
+    return this.cache;
+  }
+}
+
+/**
+ * Creates a RedirectLoader instance based on the environment.
+ *
+ * @param projectRoot - Project root directory
+ * @param isDev - Whether running in development mode
+ * @returns RedirectLoader instance
+ */
+export function createRedirectLoader(
+  projectRoot: string,
+  isDev: boolean
+): RedirectLoader {
+  if (isDev) {
+    return new FilesystemRedirectLoader(projectRoot);
+  } else {
+    return new ManifestRedirectLoader(projectRoot);
+  }
+}
+
+/**
+ * Writes the redirects manifest JSON file read by the production server.
+ *
+ * @param projectRoot - Root directory of the project
+ */
+export async function writeRedirectsManifest(projectRoot: string): Promise<void> {
+  const buildDir = path.join(projectRoot, BUILD_FOLDER_NAME);
+  if (!fs.existsSync(buildDir)) {
+    fs.mkdirSync(buildDir, { recursive: true });
+  }
+
+  // Load (and validate) redirects using the filesystem loader
+  const compiledRedirects = await new FilesystemRedirectLoader(projectRoot).loadRedirects();
+
+  const manifest: RedirectsManifest = {
+    version: 1,
+    redirects: compiledRedirects.map((redirect) => ({
+      source: redirect.source,
+      destination: redirect.destination,
+      permanent: redirect.permanent,
+      statusCode: redirect.statusCode,
+      ...(redirect.has && { has: redirect.has }),
+      ...(redirect.missing && { missing: redirect.missing }),
+    })),
+  };
+
+  fs.writeFileSync(
+    path.join(buildDir, "redirects-manifest.json"),
+    JSON.stringify(manifest, null, 2),
+    "utf-8"
+  );
+}
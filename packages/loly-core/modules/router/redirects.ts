@@ -0,0 +1,168 @@
+import type { Request } from "express";
+import {
+  evaluateRewriteConditions,
+  isSystemPath,
+  parseRewritePattern,
+  replaceDestinationParams,
+  validateRuleConditions,
+  type RewriteCondition,
+} from "./rewrites";
+
+/**
+ * HTTP status codes accepted for redirects.
+ */
+export type RedirectStatusCode = 301 | 302 | 303 | 307 | 308;
+
+/**
+ * Redirect rule configuration.
+ * Uses the same `source` patterns and `has`/`missing` conditions as rewrites.
+ */
+export interface RedirectRule {
+  source: string; // Pattern to match (e.g., "/blog/:slug", "/old/:path*")
+  destination: string; // Path or absolute URL, with :param placeholders
+  permanent: boolean; // true → 301, false → 302
+  statusCode?: RedirectStatusCode; // Overrides the status derived from `permanent`
+  has?: RewriteCondition[]; // Optional conditions (all must match)
+  missing?: RewriteCondition[]; // Optional conditions (none may match)
+}
+
+/**
+ * Redirect configuration.
+ * Array of redirect rules, the first match wins.
+ */
+export type RedirectConfig = RedirectRule[];
+
+/**
+ * Compiled redirect rule with pre-compiled regex for performance.
+ */
+export interface CompiledRedirectRule {
+  source: string;
+  sourceRegex: RegExp;
+  sourceParamNames: string[];
+  destination: string;
+  permanent: boolean;
+  statusCode: RedirectStatusCode;
+  has?: RewriteCondition[];
+  missing?: RewriteCondition[];
+}
+
+/**
+ * Result of matching a redirect.
+ */
+export interface RedirectResult {
+  destination: string;
+  permanent: boolean;
+  statusCode: RedirectStatusCode;
+}
+
+/**
+ * Validates redirect rules.
+ *
+ * @param rules - Array of redirect rules to validate
+ * @throws Error if a rule is missing required fields
+ */
+export function validateRedirects(rules: RedirectRule[]): void {
+  const sources = new Set<string>();
+
+  for (const rule of rules) {
+    if (!rule.source || typeof rule.destination !== "string" || typeof rule.permanent !== "boolean") {
+      throw new Error(
+        `Invalid redirect rule ${JSON.stringify(rule)}. Expected { source, destination, permanent }.`
+      );
+    }
+
+    if (rule.source === rule.destination) {
+      console.warn(
+        `[framework][redirects] Redirect rule has identical source and destination: "${rule.source}". This causes a redirect loop.`
+      );
+    }
+
+    if (sources.has(rule.source)) {
+      console.warn(
+        `[framework][redirects] Duplicate redirect source pattern: "${rule.source}". Only the first match will be used.`
+      );
+    }
+    sources.add(rule.source);
+
+    validateRuleConditions(rule.source, [...(rule.has ?? []), ...(rule.missing ?? [])]);
+  }
+}
+
+/**
+ * Compiles redirect rules for performance.
+ * Pre-compiles source patterns to avoid re-compiling on each request.
+ *
+ * @param rules - Array of redirect rules to compile
+ * @returns Array of compiled redirect rules
+ */
+export function compileRedirectRules(rules: RedirectRule[]): CompiledRedirectRule[] {
+  validateRedirects(rules);
+
+  return rules.map((rule) => {
+    const { regex, paramNames } = parseRewritePattern(rule.source);
+    return {
+      source: rule.source,
+      sourceRegex: regex,
+      sourceParamNames: paramNames,
+      destination: rule.destination,
+      permanent: rule.permanent,
+      statusCode: rule.statusCode ?? (rule.permanent ? 301 : 302),
+      has: rule.has,
+      missing: rule.missing,
+    };
+  });
+}
+
+/**
+ * Finds the first redirect matching a URL path.
+ * Params from the source pattern and from `has` conditions (including named regex captures)
+ * are substituted in the destination.
+ *
+ * @param urlPath - URL path to process (e.g., "/blog/hello")
+ * @param compiledRedirects - Array of compiled redirect rules
+ * @param req - Express request object
+ * @returns Redirect result or null if no rule matches
+ *
+ * @example
+ * // { source: "/blog/:slug", destination: "/news/:slug", permanent: true }
+ * processRedirects("/blog/hello", compiled, req);
+ * // { destination: "/news/hello", permanent: true, statusCode: 301 }
+ */
+export function processRedirects(
+  urlPath: string,
+  compiledRedirects: CompiledRedirectRule[],
+  req: Request
+): RedirectResult | null {
+  const normalizedPath = urlPath.replace(/\/$/, "") || "/";
+  if (isSystemPath(normalizedPath)) {
+    return null;
+  }
+
+  for (const redirect of compiledRedirects) {
+    const sourceMatch = redirect.sourceRegex.exec(normalizedPath);
+    if (!sourceMatch) continue;
+
+    let conditionParams: Record<string, string> = {};
+    if (redirect.has?.length || redirect.missing?.length) {
+      const conditionResult = evaluateRewriteConditions(redirect.has ?? [], req, redirect.missing);
+      if (!conditionResult.matches) continue;
+      conditionParams = conditionResult.params;
+    }
+
+    const sourceParams: Record<string, string> = {};
+    redirect.sourceParamNames.forEach((name, idx) => {
+      sourceParams[name] = decodeURIComponent(sourceMatch[idx + 1] || "");
+    });
+
+    return {
+      destination: replaceDestinationParams(redirect.destination, {
+        ...sourceParams,
+        ...conditionParams,
+      }),
+      permanent: redirect.permanent,
+      statusCode: redirect.statusCode,
+    };
+  }
+
+  return null;
+}
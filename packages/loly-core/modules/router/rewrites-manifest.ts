@@ -42,6 +42,8 @@ export async function writeRewritesManifest(
         source: compiled.source,
         destination: compiled.destination,
         has: compiled.has,
+        ...(compiled.missing && { missing: compiled.missing }),
+        ...(compiled.proxy && { proxy: compiled.proxy }),
       });
     } else {
       // Warn about functions that cannot be serialized
@@ -9,22 +9,39 @@ export type RewriteConditionType = "host" | "header" | "cookie" | "query";
 /**
  * Rewrite condition.
  * Defines when a rewrite should be applied.
+ *
+ * `value` is matched literally (host values use the `:param.example.com` pattern).
+ * A value written as `/regex/` (optionally with flags, `/regex/i`) is a regular
+ * expression matched against the whole value; named captures (`/(?<bucket>a|b)/`)
+ * become params usable in the destination (`:bucket`).
+ * Without `value`, the condition only checks presence and captures the value as `:key`.
  */
 export interface RewriteCondition {
   type: RewriteConditionType;
   key?: string; // For header, cookie, query
-  value: string; // Pattern to match (can include :param for dynamic values)
+  value?: string; // Literal value, host pattern or "/regex/" (omit to only check presence)
 }
 
 /**
  * Rewrite destination can be:
  * - A string (static or with :param placeholders)
  * - An async function that returns a string (for dynamic rewrites)
+ *
+ * Absolute http(s) URLs are proxied to the external server instead of
+ * being matched against the app routes.
  */
 export type RewriteDestination =
   | string
   | ((params: Record<string, string>, req: Request) => Promise<string> | string);
 
+/**
+ * Proxy options of a rewrite whose destination is an absolute URL.
+ */
+export interface RewriteProxyOptions {
+  headers?: string[]; // Request headers forwarded upstream (replaces the default allow-list)
+  timeout?: number; // Upstream timeout in milliseconds (default: 30000)
+}
+
 /**
  * Rewrite rule configuration.
  * Defines how to rewrite a URL pattern.
@@ -33,6 +50,8 @@ export interface RewriteRule {
   source: string; // Pattern to match (e.g., "/:path*", "/tenant/:tenant*")
   destination: RewriteDestination; // Where to rewrite to
   has?: RewriteCondition[]; // Optional conditions (all must match)
+  missing?: RewriteCondition[]; // Optional conditions (none may match)
+  proxy?: RewriteProxyOptions; // Options for absolute URL destinations
 }
 
 /**
@@ -45,6 +64,8 @@ export interface CompiledRewriteRule {
   sourceParamNames: string[];
   destination: RewriteDestination;
   has?: RewriteCondition[];
+  missing?: RewriteCondition[];
+  proxy?: RewriteProxyOptions;
   // Pre-compiled regex for host patterns (if has conditions include host)
   hostRegex?: RegExp;
   hostParamNames?: string[];
@@ -60,8 +81,24 @@ export type RewriteConfig = RewriteRule[];
  * Result of processing a rewrite.
  */
 export interface RewriteResult {
-  rewrittenPath: string;
+  rewrittenPath: string; // Internal path, or the absolute URL of a proxied rewrite
   extractedParams: Record<string, string>;
+  external?: boolean; // True when rewrittenPath is an absolute URL to proxy to
+  proxy?: RewriteProxyOptions;
+}
+
+/**
+ * Checks whether a rewrite destination is an absolute http(s) URL (proxied rewrite).
+ *
+ * @param destination - Resolved rewrite destination
+ * @returns True for external destinations
+ *
+ * @example
+ * isExternalDestination("https://legacy.example.com/:path*"); // true
+ * isExternalDestination("/app/:path*"); // false
+ */
+export function isExternalDestination(destination: string): boolean {
+  return /^https?:\/\//i.test(destination);
 }
 
 /**
@@ -187,95 +224,189 @@ export function extractHostParams(
   return params;
 }
 
+/**
+ * Condition values written as regular expressions: `/source/` or `/source/flags`.
+ */
+const REGEX_VALUE_REGEX = /^\/(.+)\/([a-z]*)$/s;
+
+/**
+ * Checks whether a condition value is a regular expression (`/source/`)
+ * rather than a literal value or host pattern.
+ */
+export function isRegexConditionValue(value: string): boolean {
+  return REGEX_VALUE_REGEX.test(value);
+}
+
+// Compiled regex of each condition value, reused across requests
+const conditionRegexCache = new Map<string, RegExp>();
+
+/**
+ * Compiles a `/source/flags` condition value into a regex anchored to the whole value.
+ *
+ * @param value - Regular expression value (e.g., "/(?<bucket>a|b)/")
+ * @returns Compiled regex
+ * @throws Error if the value is not a valid regular expression
+ */
+export function compileConditionRegex(value: string): RegExp {
+  let regex = conditionRegexCache.get(value);
+  if (!regex) {
+    try {
+      const [, source, flags] = REGEX_VALUE_REGEX.exec(value) ?? [];
+      if (source === undefined) {
+        throw new Error("expected /regex/");
+      }
+      regex = new RegExp(`^(?:${source})$`, flags);
+    } catch (error) {
+      throw new Error(
+        `Invalid condition value "${value}": ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    conditionRegexCache.set(value, regex);
+  }
+  return regex;
+}
+
+/**
+ * Reads the request value a condition is matched against.
+ */
+function getConditionValue(condition: RewriteCondition, req: Request): string | undefined {
+  switch (condition.type) {
+    case "host": {
+      // Get host without port (req.get("host") includes port, req.hostname doesn't)
+      // Try multiple sources to get the host
+      const hostWithPort = req.get("host") || req.hostname || req.get("x-forwarded-host")?.split(",")[0] || "";
+      // Remove port if present (e.g., "tenant1.localhost:3000" -> "tenant1.localhost")
+      return hostWithPort.split(":")[0] || undefined;
+    }
+
+    case "header":
+      return condition.key ? req.get(condition.key.toLowerCase()) : undefined;
+
+    case "cookie": {
+      if (!condition.key) return undefined;
+      const cookieValue = req.cookies?.[condition.key];
+      return cookieValue === undefined || cookieValue === null ? undefined : String(cookieValue);
+    }
+
+    case "query": {
+      if (!condition.key) return undefined;
+      const queryValue = req.query[condition.key];
+      const first = Array.isArray(queryValue) ? queryValue[0] : queryValue;
+      return first === undefined ? undefined : String(first);
+    }
+
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Matches a single condition against a request.
+ *
+ * @param condition - Condition to match
+ * @param req - Express request object
+ * @returns Params captured by the condition, or null if it doesn't match
+ */
+export function matchRewriteCondition(
+  condition: RewriteCondition,
+  req: Request
+): Record<string, string> | null {
+  const actual = getConditionValue(condition, req);
+  if (!actual) {
+    return null;
+  }
+
+  // Presence only: the value is available as :key
+  if (condition.value === undefined) {
+    return condition.key ? { [condition.key]: actual } : {};
+  }
+
+  if (!isRegexConditionValue(condition.value)) {
+    if (condition.type !== "host") {
+      return actual === condition.value ? {} : null;
+    }
+
+    const hostParams = extractHostParams(condition.value, actual);
+    if (!hostParams && process.env.NODE_ENV === "development") {
+      console.log("[rewrites] Host params extraction failed:", {
+        pattern: condition.value,
+        actualHost: actual,
+      });
+    }
+    return hostParams;
+  }
+
+  const match = compileConditionRegex(condition.value).exec(actual);
+  if (!match) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  for (const [name, captured] of Object.entries(match.groups ?? {})) {
+    if (captured !== undefined) {
+      params[name] = captured;
+    }
+  }
+  return params;
+}
+
 /**
  * Evaluates rewrite conditions against a request.
- * All conditions must match for the rewrite to apply.
+ * All `has` conditions must match and no `missing` condition may match.
  * 
  * @param conditions - Array of conditions to evaluate
  * @param req - Express request object
+ * @param missing - Conditions that must not match
  * @returns Object with match result and extracted parameters
+ *
+ * @example
+ * // Apply only to visitors without an A/B cookie
+ * evaluateRewriteConditions([], req, [{ type: "cookie", key: "ab-bucket" }]);
  */
 export function evaluateRewriteConditions(
   conditions: RewriteCondition[],
-  req: Request
+  req: Request,
+  missing: RewriteCondition[] = []
 ): { matches: boolean; params: Record<string, string> } {
   const extractedParams: Record<string, string> = {};
 
   for (const condition of conditions) {
-    switch (condition.type) {
-      case "host": {
-        // Get host without port (req.get("host") includes port, req.hostname doesn't)
-        // Try multiple sources to get the host
-        const hostWithPort = req.get("host") || req.hostname || req.get("x-forwarded-host")?.split(",")[0] || "";
-        // Remove port if present (e.g., "tenant1.localhost:3000" -> "tenant1.localhost")
-        const host = hostWithPort.split(":")[0];
-        
-        // Debug logging for host matching
-        if (process.env.NODE_ENV === "development") {
-          console.log("[rewrites] Host matching:", {
-            pattern: condition.value,
-            actualHost: host,
-            hostWithPort,
-            reqHost: req.get("host"),
-            reqHostname: req.hostname,
-          });
-        }
-        
-        const hostParams = extractHostParams(condition.value, host);
-        if (!hostParams) {
-          if (process.env.NODE_ENV === "development") {
-            console.log("[rewrites] Host params extraction failed:", {
-              pattern: condition.value,
-              actualHost: host,
-            });
-          }
-          return { matches: false, params: {} };
-        }
-        Object.assign(extractedParams, hostParams);
-        break;
-      }
-
-      case "header": {
-        if (!condition.key) {
-          return { matches: false, params: {} };
-        }
-        const headerValue = req.get(condition.key.toLowerCase());
-        if (!headerValue || headerValue !== condition.value) {
-          return { matches: false, params: {} };
-        }
-        break;
-      }
-
-      case "cookie": {
-        if (!condition.key) {
-          return { matches: false, params: {} };
-        }
-        const cookieValue = req.cookies?.[condition.key];
-        if (!cookieValue || cookieValue !== condition.value) {
-          return { matches: false, params: {} };
-        }
-        break;
-      }
-
-      case "query": {
-        if (!condition.key) {
-          return { matches: false, params: {} };
-        }
-        const queryValue = req.query[condition.key];
-        if (!queryValue || String(queryValue) !== condition.value) {
-          return { matches: false, params: {} };
-        }
-        break;
-      }
+    const params = matchRewriteCondition(condition, req);
+    if (!params) {
+      return { matches: false, params: {} };
+    }
+    Object.assign(extractedParams, params);
+  }
 
-      default:
-        return { matches: false, params: {} };
+  for (const condition of missing) {
+    if (matchRewriteCondition(condition, req)) {
+      return { matches: false, params: {} };
     }
   }
 
   return { matches: true, params: extractedParams };
 }
 
+/**
+ * Validates the values of rule conditions, so invalid regexes fail when rules are loaded.
+ *
+ * @param source - Source pattern of the rule (for error messages)
+ * @param conditions - `has` and `missing` conditions of the rule
+ * @throws Error if a condition value is not a valid regular expression
+ */
+export function validateRuleConditions(source: string, conditions: RewriteCondition[]): void {
+  for (const condition of conditions) {
+    if (condition.value === undefined || !isRegexConditionValue(condition.value)) continue;
+    try {
+      compileConditionRegex(condition.value);
+    } catch (error) {
+      throw new Error(
+        `Rule with source "${source}": ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+}
+
 /**
  * Replaces parameters in a destination pattern.
  * 
@@ -303,6 +434,22 @@ export function replaceDestinationParams(
   return result;
 }
 
+/**
+ * Checks whether a path belongs to the framework and must never be rewritten or redirected.
+ *
+ * @param normalizedPath - URL path without trailing slash
+ * @returns True for static assets, framework internals, favicon and WebSocket routes
+ */
+export function isSystemPath(normalizedPath: string): boolean {
+  return (
+    normalizedPath.startsWith("/static/") || // Static assets (client.js, client.css, etc.)
+    normalizedPath.startsWith("/__fw/") || // Framework internal routes (hot reload, etc.)
+    normalizedPath.startsWith("/_loly/") || // Framework internal routes (image optimization, etc.)
+    normalizedPath === "/favicon.ico" || // Favicon
+    normalizedPath.startsWith("/wss/") // WebSocket routes - handled separately by Socket.IO
+  );
+}
+
 /**
  * Processes rewrites for a given URL path.
  * Applies rewrites in order and returns the first match.
@@ -322,14 +469,7 @@ export async function processRewrites(
 
   // Skip rewrites for system routes that should never be rewritten
   // Note: API routes (/api/*) CAN be rewritten (like Next.js)
-  // WSS routes (/wss/*) should NOT be rewritten (WebSocket handled separately)
-  if (
-    normalizedPath.startsWith("/static/") || // Static assets (client.js, client.css, etc.)
-    normalizedPath.startsWith("/__fw/") || // Framework internal routes (hot reload, etc.)
-    normalizedPath.startsWith("/_loly/") || // Framework internal routes (image optimization, etc.)
-    normalizedPath === "/favicon.ico" || // Favicon
-    normalizedPath.startsWith("/wss/") // WebSocket routes - handled separately by Socket.IO
-  ) {
+  if (isSystemPath(normalizedPath)) {
     if (process.env.NODE_ENV === "development") {
       console.log("[rewrites] Skipping rewrite for system route:", normalizedPath);
     }
@@ -350,13 +490,14 @@ export async function processRewrites(
   for (const rewrite of compiledRewrites) {
     // Check conditions first (early exit for performance)
     let conditionParams: Record<string, string> = {};
-    if (rewrite.has && rewrite.has.length > 0) {
-      const conditionResult = evaluateRewriteConditions(rewrite.has, req);
+    if (rewrite.has?.length || rewrite.missing?.length) {
+      const conditionResult = evaluateRewriteConditions(rewrite.has ?? [], req, rewrite.missing);
       if (!conditionResult.matches) {
         if (process.env.NODE_ENV === "development") {
           console.log("[rewrites] Condition not matched:", {
             source: rewrite.source,
             conditions: rewrite.has,
+            missing: rewrite.missing,
           });
         }
         continue; // Skip this rewrite if conditions don't match
@@ -410,6 +551,24 @@ export async function processRewrites(
       destination = replaceDestinationParams(rewrite.destination, allParams);
     }
 
+    // Absolute URLs are proxied as-is
+    if (isExternalDestination(destination)) {
+      if (process.env.NODE_ENV === "development") {
+        console.log("[rewrites] Proxy rewrite:", {
+          originalPath: urlPath,
+          destination,
+          allParams,
+        });
+      }
+
+      return {
+        rewrittenPath: destination,
+        extractedParams: allParams,
+        external: true,
+        proxy: rewrite.proxy,
+      };
+    }
+
     // Normalize the destination path (ensure it starts with / and doesn't have double slashes)
     const normalizedDestination = destination
       .replace(/\/+/g, "/") // Replace multiple slashes with single slash
@@ -464,6 +623,10 @@ export function validateRewrites(rules: RewriteRule[]): void {
     }
     sources.add(rule.source);
   }
+
+  for (const rule of rules) {
+    validateRuleConditions(rule.source, [...(rule.has ?? []), ...(rule.missing ?? [])]);
+  }
 }
 
 /**
@@ -486,7 +649,8 @@ export function compileRewriteRules(rules: RewriteRule[]): CompiledRewriteRule[]
 
     if (rule.has) {
       const hostCondition = rule.has.find((c) => c.type === "host");
-      if (hostCondition) {
+      // Regex host values are compiled on first match instead
+      if (hostCondition?.value && !isRegexConditionValue(hostCondition.value)) {
         const hostPattern = hostCondition.value;
         // Convert host pattern to regex for matching
         const hostRegexPattern = hostPattern
@@ -511,6 +675,8 @@ export function compileRewriteRules(rules: RewriteRule[]): CompiledRewriteRule[]
       sourceParamNames: paramNames,
       destination: rule.destination,
       has: rule.has,
+      missing: rule.missing,
+      proxy: rule.proxy,
       hostRegex,
       hostParamNames,
     };
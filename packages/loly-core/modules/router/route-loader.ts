@@ -575,14 +575,17 @@ export async function loadNotFoundRouteFromFilesystem(
   // For a layout at app/layout.tsx, we look for app/layout.server.hook.ts (same directory)
   const layoutServerHooks: (typeof serverHook)[] = [];
   const layoutMiddlewares: RouteMiddleware[][] = [];
+  const layoutParallel: boolean[] = [];
   for (const layoutFile of layoutFiles) {
     const layoutHookData = await loadLayoutServerHook(layoutFile, projectRoot);
     if (layoutHookData) {
       layoutServerHooks.push(layoutHookData.serverHook);
       layoutMiddlewares.push(layoutHookData.middlewares);
+      layoutParallel.push(layoutHookData.parallel);
     } else {
       layoutServerHooks.push(null);
       layoutMiddlewares.push([]);
+      layoutParallel.push(false);
     }
   }
 
@@ -601,6 +604,7 @@ export async function loadNotFoundRouteFromFilesystem(
     loader: serverHook, // Keep 'loader' field name for backward compatibility
     layoutServerHooks, // Server hooks for each layout (same order as layouts)
     layoutMiddlewares, // Middlewares for each layout (same order as layouts)
+    layoutParallel, // Parallel flag for each layout hook (same order as layouts)
     dynamic,
     generateStaticParams,
   };
@@ -655,14 +659,17 @@ export async function loadErrorRouteFromFilesystem(
   // For a layout at app/layout.tsx, we look for app/layout.server.hook.ts (same directory)
   const layoutServerHooks: (typeof serverHook)[] = [];
   const layoutMiddlewares: RouteMiddleware[][] = [];
+  const layoutParallel: boolean[] = [];
   for (const layoutFile of layoutFiles) {
     const layoutHookData = await loadLayoutServerHook(layoutFile, projectRoot);
     if (layoutHookData) {
       layoutServerHooks.push(layoutHookData.serverHook);
       layoutMiddlewares.push(layoutHookData.middlewares);
+      layoutParallel.push(layoutHookData.parallel);
     } else {
       layoutServerHooks.push(null);
       layoutMiddlewares.push([]);
+      layoutParallel.push(false);
     }
   }
 
@@ -681,6 +688,7 @@ export async function loadErrorRouteFromFilesystem(
     loader: serverHook, // Keep 'loader' field name for backward compatibility
     layoutServerHooks, // Server hooks for each layout (same order as layouts)
     layoutMiddlewares, // Middlewares for each layout (same order as layouts)
+    layoutParallel, // Parallel flag for each layout hook (same order as layouts)
     dynamic,
     generateStaticParams,
   };
@@ -0,0 +1,121 @@
+/**
+ * Type-level route registry.
+ *
+ * The build and the dev server generate `.loly/types/routes.d.ts`, which fills the
+ * global `LolyRoutes` interface with every page pattern (and `LolyRealtimeRoutes`
+ * with every WSS namespace). While it is empty (file not
+ * generated or not included in tsconfig), every type here falls back to `string`.
+ */
+
+declare global {
+  /**
+   * Page routes of the app, keyed by pattern (e.g. "/blog/[slug]").
+   * Augmented by the generated `.loly/types/routes.d.ts`.
+   */
+  interface LolyRoutes {}
+
+  /**
+   * WSS routes of the app, keyed by namespace pattern (e.g. "/rooms/[roomId]").
+   * Augmented by the generated `.loly/types/routes.d.ts`.
+   */
+  interface LolyRealtimeRoutes {}
+}
+
+type HasRouteTypes = keyof LolyRoutes extends never ? false : true;
+
+/**
+ * Union of page route patterns (e.g. "/" | "/blog/[slug]"), or `string` without generated types.
+ */
+export type RoutePattern = HasRouteTypes extends true ? Extract<keyof LolyRoutes, string> : string;
+
+/**
+ * Params of a route pattern (the output of its `params` schema, if any).
+ * `never` (no pattern) gives untyped params.
+ *
+ * @example
+ * type BlogParams = RouteParams<"/blog/[slug]">; // { slug: string }
+ */
+export type RouteParams<P extends string = never> = [P] extends [never]
+  ? Record<string, string>
+  : P extends keyof LolyRoutes
+    ? LolyRoutes[P] extends { params: infer T extends Record<string, any> }
+      ? T
+      : Record<string, string>
+    : Record<string, string>;
+
+/**
+ * Query parameters of a route pattern: the output of its `searchParams` schema,
+ * or an untyped record when the route has no schema (or no pattern is given).
+ *
+ * @example
+ * // app/search/page.server.hook.ts: export const searchParams = z.object({ page: z.coerce.number() });
+ * type SearchQuery = RouteSearchParams<"/search">; // { page: number }
+ */
+export type RouteSearchParams<P extends string = never> = [P] extends [never]
+  ? Record<string, any>
+  : P extends keyof LolyRoutes
+    ? LolyRoutes[P] extends { searchParams: infer T extends Record<string, any> }
+      ? T
+      : Record<string, any>
+    : Record<string, any>;
+
+/**
+ * Union of paths that match a page route (dynamic segments as `${string}`).
+ */
+export type RoutePath = HasRouteTypes extends true
+  ? {
+      [P in keyof LolyRoutes]: LolyRoutes[P] extends { href: infer H extends string } ? H : never;
+    }[keyof LolyRoutes]
+  : string;
+
+type ExternalHref =
+  | `http://${string}`
+  | `https://${string}`
+  | `//${string}`
+  | `mailto:${string}`
+  | `tel:${string}`;
+
+/**
+ * Destination accepted by `Link`, `router.push`/`replace` and `ctx.Redirect`:
+ * a path of a known route (optionally with trailing slash, query or hash) or an external URL.
+ * Plain `string` without generated types.
+ *
+ * @example
+ * const href: Href = "/blog/hello?ref=home"; // OK
+ * const bad: Href = "/blgo/hello";           // Type error
+ */
+export type Href = HasRouteTypes extends true
+  ? `${RoutePath}${"" | "/"}${"" | `?${string}` | `#${string}`}` | `?${string}` | `#${string}` | ExternalHref
+  : string;
+
+type RealtimePathOf<K extends keyof LolyRealtimeRoutes> = LolyRealtimeRoutes[K] extends {
+  path: infer P extends string;
+}
+  ? P
+  : never;
+
+/**
+ * Union of WSS namespace paths (dynamic segments as `${string}`), or `string` without generated types.
+ */
+export type RealtimeNamespace = keyof LolyRealtimeRoutes extends never
+  ? string
+  : { [K in keyof LolyRealtimeRoutes]: RealtimePathOf<K> }[keyof LolyRealtimeRoutes];
+
+/**
+ * Route definition (`defineWssRoute`) serving a namespace path. Static namespaces win over
+ * dynamic ones; `never` if no route matches or types are not generated.
+ *
+ * @example
+ * type RoomRoute = RealtimeRouteOf<"/rooms/42">; // typeof import("app/wss/rooms/[roomId]/events").default
+ */
+export type RealtimeRouteOf<N extends string> = N extends keyof LolyRealtimeRoutes
+  ? LolyRealtimeRoutes[N] extends { route: infer R }
+    ? R
+    : never
+  : {
+      [K in keyof LolyRealtimeRoutes]: N extends RealtimePathOf<K>
+        ? LolyRealtimeRoutes[K] extends { route: infer R }
+          ? R
+          : never
+        : never;
+    }[keyof LolyRealtimeRoutes];
@@ -1,11 +1,26 @@
 import fs from "fs";
 import path from "path";
 import {
+  CachePolicy,
   DynamicMode,
   GenerateStaticParams,
+  RouteHeaders,
   RouteMiddleware,
+  ServerAction,
+  ServerContext,
   ServerLoader,
 } from "./index.types";
+import type { ZodSchema } from "zod";
+import { extractRouteCacheConfig, extractRouteSchemas } from "./helpers/routes";
+import { setCacheScope } from "@cache/index";
+
+/**
+ * Gets the identity of a hook file used by `withCache` default keys:
+ * its path relative to the project root.
+ */
+function getHookScope(file: string, projectRoot: string): string {
+  return path.relative(projectRoot, file).split(path.sep).join("/");
+}
 
 const NAMING = {
   // Constants & Fns
@@ -13,6 +28,11 @@ const NAMING = {
   GET_SERVER_DATA_FN: "getServerSideProps",
   GENERATE_SSG_PARAMS: "generateStaticParams",
   RENDER_TYPE_CONST: "dynamic",
+  REVALIDATE_CONST: "revalidate",
+  DYNAMIC_PARAMS_CONST: "dynamicParams",
+  ACTION_FN: "action",
+  ACTIONS_CONST: "actions",
+  PARALLEL_CONST: "parallel",
 
   // Files
   SERVER_HOOK: 'server.hook',
@@ -27,7 +47,7 @@ const NAMING = {
  * 2. `server.hook.ts` (legacy, for backward compatibility)
  *
  * @param currentDir - Directory to search for server hook file
- * @returns Object containing middlewares, serverHook, dynamic mode, and generateStaticParams
+ * @returns Object containing middlewares, serverHook, dynamic mode, generateStaticParams, ISR settings, actions, cache config and schemas
  *
  * @example
  * // app/blog/[slug]/page.server.hook.ts (preferred)
@@ -36,6 +56,13 @@ const NAMING = {
  * export const getServerSideProps = async (ctx) => ({ props: {} });
  * export const dynamic = "force-static";
  * export const generateStaticParams = async () => [{ slug: "post-1" }];
+ * export const revalidate = 60; // Regenerate SSG output at most every 60s
+ * export const dynamicParams = true; // Render and persist unknown slugs on first request
+ * export const action = async (ctx) => ctx.Redirect("/blog"); // Runs on POST to the page
+ * export const headers = { "X-Frame-Options": "DENY" }; // Or (ctx) => ({ ... })
+ * export const cache = { sMaxAge: 60, staleWhileRevalidate: 300 }; // Cache-Control + ETag/304
+ * export const searchParams = z.object({ page: z.coerce.number().default(1) }); // Typed ctx.query
+ * export const params = z.object({ slug: z.string().min(3) }); // Validated ctx.params
  */
 export async function loadServerHookForDir(
   currentDir: string,
@@ -45,6 +72,13 @@ export async function loadServerHookForDir(
   serverHook: ServerLoader | null;
   dynamic: DynamicMode;
   generateStaticParams: GenerateStaticParams | null;
+  revalidate: number | false;
+  dynamicParams: boolean;
+  actions: Record<string, ServerAction>;
+  headers: RouteHeaders | null;
+  cache: CachePolicy | null;
+  paramsSchema: ZodSchema | null;
+  searchParamsSchema: ZodSchema | null;
 }> {
   // Determine if we're in production (compiled) or dev (source)
   const isDev = process.env.NODE_ENV === "development";
@@ -100,6 +134,13 @@ export async function loadServerHookForDir(
       serverHook: null,
       dynamic: "auto",
       generateStaticParams: null,
+      revalidate: false,
+      dynamicParams: false,
+      actions: {},
+      headers: null,
+      cache: null,
+      paramsSchema: null,
+      searchParamsSchema: null,
     };
   }
 
@@ -134,6 +175,13 @@ export async function loadServerHookForDir(
       serverHook: null,
       dynamic: "auto",
       generateStaticParams: null,
+      revalidate: false,
+      dynamicParams: false,
+      actions: {},
+      headers: null,
+      cache: null,
+      paramsSchema: null,
+      searchParamsSchema: null,
     };
   }
 
@@ -165,6 +213,7 @@ export async function loadServerHookForDir(
     typeof mod?.[NAMING.GET_SERVER_DATA_FN] === "function"
       ? mod[NAMING.GET_SERVER_DATA_FN]
       : null;
+  setCacheScope(serverHook, getHookScope(file, resolvedProjectRoot));
 
   const dynamic: DynamicMode =
     mod?.[NAMING.RENDER_TYPE_CONST] === "force-static" ||
@@ -177,11 +226,67 @@ export async function loadServerHookForDir(
       ? mod[NAMING.GENERATE_SSG_PARAMS]
       : null;
 
+  let revalidate: number | false = false;
+  const rawRevalidate = mod?.[NAMING.REVALIDATE_CONST];
+  if (rawRevalidate !== undefined && rawRevalidate !== false) {
+    if (typeof rawRevalidate === "number" && rawRevalidate > 0) {
+      revalidate = rawRevalidate;
+    } else {
+      console.warn(
+        `[framework][server-hook] ${NAMING.REVALIDATE_CONST} must be a positive number of seconds or false in ${file}, ignoring invalid value`
+      );
+    }
+  }
+
+  const dynamicParams = mod?.[NAMING.DYNAMIC_PARAMS_CONST] === true;
+
+  // Load server actions: `action` is registered as "default", `actions` by name
+  const actions: Record<string, ServerAction> = {};
+  const rawAction = mod?.[NAMING.ACTION_FN];
+  if (rawAction !== undefined) {
+    if (typeof rawAction === "function") {
+      actions.default = rawAction;
+    } else {
+      console.warn(
+        `[framework][server-hook] ${NAMING.ACTION_FN} must be a function in ${file}, ignoring invalid value`
+      );
+    }
+  }
+
+  const rawActions = mod?.[NAMING.ACTIONS_CONST];
+  if (rawActions !== undefined) {
+    if (!rawActions || typeof rawActions !== "object" || Array.isArray(rawActions)) {
+      console.warn(
+        `[framework][server-hook] ${NAMING.ACTIONS_CONST} must be an object of functions in ${file}, ignoring invalid value`
+      );
+    } else {
+      for (const [name, fn] of Object.entries(rawActions)) {
+        if (typeof fn !== "function") {
+          console.warn(
+            `[framework][server-hook] Action "${name}" in ${NAMING.ACTIONS_CONST} is not a function in ${file}, skipping`
+          );
+          continue;
+        }
+        actions[name] = fn as ServerAction;
+      }
+    }
+  }
+
+  const { headers, cache } = extractRouteCacheConfig<ServerContext>(mod, file);
+  const { paramsSchema, searchParamsSchema } = extractRouteSchemas(mod, file);
+
   return {
     middlewares,
     serverHook,
     dynamic,
     generateStaticParams,
+    revalidate,
+    dynamicParams,
+    actions,
+    headers,
+    cache,
+    paramsSchema,
+    searchParamsSchema,
   };
 }
 
@@ -213,6 +318,7 @@ export async function loadLayoutServerHook(
 ): Promise<{
   serverHook: ServerLoader | null;
   middlewares: RouteMiddleware[];
+  parallel: boolean;
 } | null> {
   const layoutDir = path.dirname(layoutFile);
   const layoutExt = path.extname(layoutFile); // .tsx, .ts, .jsx, .js, .mjs, .cjs
@@ -274,6 +380,7 @@ export async function loadLayoutServerHook(
       typeof mod?.getServerSideProps === "function"
         ? mod.getServerSideProps
         : null;
+    setCacheScope(serverHook, getHookScope(file, projectRoot));
     
     // Load middlewares from layout.server.hook.ts (same name as page middlewares: beforeServerData)
     let middlewares: RouteMiddleware[] = [];
@@ -299,9 +406,23 @@ export async function loadLayoutServerHook(
       }
     }
     
+    // Opt-in: the layout hook does not depend on outer hooks and runs concurrently
+    let parallel = false;
+    const rawParallel = mod?.[NAMING.PARALLEL_CONST];
+    if (rawParallel !== undefined) {
+      if (typeof rawParallel !== "boolean") {
+        console.warn(
+          `[framework][server-hook] ${NAMING.PARALLEL_CONST} must be a boolean in ${file}, ignoring invalid value`
+        );
+      } else {
+        parallel = rawParallel;
+      }
+    }
+    
     return {
       serverHook,
       middlewares,
+      parallel,
     };
   } catch (error) {
     console.error(
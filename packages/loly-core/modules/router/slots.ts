@@ -0,0 +1,169 @@
+import fs from "fs";
+import path from "path";
+import { PageComponent, RouteIntercept, RouteSlot } from "./index.types";
+import { PAGE_FILE_REGEX, SLOT_DEFAULT_FILE_REGEX } from "./constants";
+import {
+  buildRegexFromRoutePath,
+  buildRoutePathFromDir,
+  getSlotName,
+  isSlotDir,
+  parseInterceptMarker,
+} from "./path";
+
+/**
+ * Page file found inside a slot directory.
+ */
+interface SlotPageFile {
+  file: string;
+  /** Route pattern the slot page matches */
+  pattern: string;
+  /** True for intercepting pages (`(.)`, `(..)`, `(...)`) */
+  intercept: boolean;
+}
+
+/**
+ * Slot directory (`@name`) next to a layout.
+ */
+interface SlotDir {
+  name: string;
+  pages: SlotPageFile[];
+  defaultFile: string | null;
+}
+
+/**
+ * Builds the route pattern of a page inside a slot.
+ *
+ * @param ownerRoutePath - Route path of the directory that contains the slot
+ * @param relDir - Directory of the page relative to the slot directory
+ * @returns Pattern and whether the page intercepts another route
+ */
+function buildSlotPagePattern(
+  ownerRoutePath: string,
+  relDir: string
+): { pattern: string; intercept: boolean } {
+  const segments = relDir ? relDir.split(/[\\/]/).filter(Boolean) : [];
+  const marker = segments.length > 0 ? parseInterceptMarker(segments[0]) : null;
+
+  let base = ownerRoutePath.split("/").filter(Boolean);
+  if (marker) {
+    base = marker.up === "root" ? [] : base.slice(0, Math.max(0, base.length - marker.up));
+    segments[0] = marker.segment;
+  }
+
+  const rest = buildRoutePathFromDir(segments.filter(Boolean).join("/"))
+    .split("/")
+    .filter(Boolean);
+  return {
+    pattern: "/" + [...base, ...rest].join("/"),
+    intercept: !!marker,
+  };
+}
+
+/**
+ * Finds the slot directories (`@name`) of a layout directory and their pages.
+ *
+ * @param layoutDir - Directory containing the layout
+ * @param appDir - Root app directory
+ * @returns Slots with their pages and default file
+ */
+function findSlotsForLayoutDir(layoutDir: string, appDir: string): SlotDir[] {
+  if (!fs.existsSync(layoutDir)) {
+    return [];
+  }
+
+  const ownerRoutePath = buildRoutePathFromDir(path.relative(appDir, layoutDir));
+  const slots: SlotDir[] = [];
+
+  for (const entry of fs.readdirSync(layoutDir, { withFileTypes: true })) {
+    if (!entry.isDirectory() || !isSlotDir(entry.name)) continue;
+
+    const slotDir = path.join(layoutDir, entry.name);
+    const slot: SlotDir = { name: getSlotName(entry.name)!, pages: [], defaultFile: null };
+
+    const walk = (currentDir: string) => {
+      for (const child of fs.readdirSync(currentDir, { withFileTypes: true })) {
+        const fullPath = path.join(currentDir, child.name);
+
+        if (child.isDirectory()) {
+          // Slots are not nested inside other slots
+          if (!isSlotDir(child.name)) walk(fullPath);
+          continue;
+        }
+
+        if (currentDir === slotDir && SLOT_DEFAULT_FILE_REGEX.test(child.name)) {
+          slot.defaultFile = fullPath;
+          continue;
+        }
+
+        if (!PAGE_FILE_REGEX.test(child.name)) continue;
+
+        const { pattern, intercept } = buildSlotPagePattern(
+          ownerRoutePath,
+          path.relative(slotDir, currentDir)
+        );
+        slot.pages.push({ file: fullPath, pattern, intercept });
+      }
+    };
+
+    walk(slotDir);
+    slots.push(slot);
+  }
+
+  return slots;
+}
+
+/**
+ * Resolves the parallel route slots and intercepting routes of a page route.
+ *
+ * For each layout of the route, every `@name` directory next to it becomes a slot:
+ * the slot page with the same pattern as the route (or the slot's `default.tsx`)
+ * is passed to that layout as the `name` prop. Intercepting pages of those slots
+ * are returned separately; they are only rendered on client-side navigation.
+ *
+ * @param pattern - Route pattern of the page
+ * @param layoutFiles - Layout files of the route (root → specific)
+ * @param appDir - Root app directory
+ * @param projectRoot - Project root (for module loading)
+ * @returns Slots and intercepting routes of the page route
+ *
+ * @example
+ * // app/layout.tsx + app/@modal/(.)photo/[id]/page.tsx + app/photo/[id]/page.tsx
+ * // Route "/" gets intercepts: [{ slot: "modal", pattern: "/photo/[id]", ... }]
+ */
+export async function loadRouteSlots(
+  pattern: string,
+  layoutFiles: string[],
+  appDir: string,
+  projectRoot: string
+): Promise<{ slots: RouteSlot[]; intercepts: RouteIntercept[] }> {
+  const slots: RouteSlot[] = [];
+  const intercepts: RouteIntercept[] = [];
+  const { loadDefaultExport } = await import("./utils/module-loader");
+
+  for (let i = 0; i < layoutFiles.length; i++) {
+    const layoutDir = path.dirname(layoutFiles[i]);
+
+    for (const slot of findSlotsForLayoutDir(layoutDir, appDir)) {
+      const match = slot.pages.find((p) => !p.intercept && p.pattern === pattern);
+      const file = match?.file ?? slot.defaultFile;
+      const component = file
+        ? await loadDefaultExport<PageComponent>(file, { projectRoot })
+        : null;
+
+      slots.push({ name: slot.name, layoutIndex: i, component: component ?? null, file });
+
+      for (const page of slot.pages) {
+        if (!page.intercept) continue;
+        intercepts.push({
+          slot: slot.name,
+          layoutIndex: i,
+          pattern: page.pattern,
+          paramNames: buildRegexFromRoutePath(page.pattern).paramNames,
+          file: page.file,
+        });
+      }
+    }
+  }
+
+  return { slots, intercepts };
+}
@@ -10,6 +10,7 @@ import {
 import { RouterContext } from "./RouterContext";
 import { ROUTER_NAVIGATE_KEY, WINDOW_DATA_KEY } from "./constants";
 import { applyMetadata } from "./metadata";
+import { toAppPath } from "./i18n";
 import type {
   RouteViewState,
   ClientRouteLoaded,
@@ -29,11 +30,17 @@ export function AppShell({
   errorRoute,
 }: AppShellProps) {
   const [state, setState] = useState<RouteViewState>(initialState);
+  // Latest state for navigation (intercepting routes render over the current page)
+  const stateRef = useRef<RouteViewState>(state);
+  stateRef.current = state;
+  const getState = useCallback(() => stateRef.current, []);
+
   const handlersRef = useRef<NavigationHandlers>({
     setState,
     routes,
     notFoundRoute,
     errorRoute,
+    getState,
   });
 
   useEffect(() => {
@@ -42,8 +49,9 @@ export function AppShell({
       routes,
       notFoundRoute,
       errorRoute,
+      getState,
     };
-  }, [routes, notFoundRoute, errorRoute]);
+  }, [routes, notFoundRoute, errorRoute, getState]);
 
   // Create navigate function for router context
   const handleNavigate = useCallback(
@@ -111,7 +119,7 @@ export function AppShell({
       
       if (!freshData) return;
       
-      const currentPathname = window.location.pathname;
+      const currentPathname = toAppPath(window.location.pathname);
       const freshPathname = freshData.pathname;
       
       if (freshPathname === currentPathname) {
@@ -0,0 +1,8 @@
+import { createContext } from "react";
+import type { LocaleInfo } from "./i18n";
+
+/**
+ * Locale of the page being rendered on the server (SSR/SSG), where there is no `window`.
+ * In the browser the locale is read from the URL instead.
+ */
+export const LocaleContext = createContext<LocaleInfo | null>(null);
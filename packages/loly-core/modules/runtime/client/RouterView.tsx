@@ -1,3 +1,4 @@
+import { buildRouteTree } from "./route-tree";
 import type { RouteViewState } from "./types";
 
 export function RouterView({ state }: { state: RouteViewState }) {
@@ -13,20 +14,13 @@ export function RouterView({ state }: { state: RouteViewState }) {
     return null;
   }
 
-  const { Page, layouts } = state.components;
-  const { params, props } = state;
-
-  let element = <Page params={params} {...props} />;
-
-  const layoutChain = layouts.slice().reverse();
-  for (const Layout of layoutChain) {
-    element = (
-      <Layout params={params} {...props}>
-        {element}
-      </Layout>
-    );
-  }
-
-  return element;
+  // Same tree as buildAppTree on the server (layouts, slots and segment boundaries)
+  return buildRouteTree({
+    components: state.components,
+    params: state.params,
+    props: state.props,
+    pending: state.pending,
+    error: state.error,
+    intercepted: state.intercepted,
+  });
 }
-
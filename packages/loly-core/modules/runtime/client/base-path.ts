@@ -0,0 +1,67 @@
+/**
+ * Base path helpers shared by the server and the client bundle.
+ *
+ * `process.env.LOLY_BASE_PATH` is set from `config.routing.basePath` when the
+ * server starts (and during build), and replaced by DefinePlugin with a string
+ * literal in the client bundle, so both sides read the same value.
+ */
+
+/**
+ * Normalizes a base path: leading slash, no trailing slash, "" for root.
+ *
+ * @param basePath - Raw base path (e.g. "shop/", "/shop")
+ * @returns Normalized base path (e.g. "/shop")
+ */
+export function normalizeBasePath(basePath: string | undefined | null): string {
+  if (!basePath || basePath === "/") return "";
+  const withLeading = basePath.startsWith("/") ? basePath : `/${basePath}`;
+  return withLeading.replace(/\/+$/, "");
+}
+
+/**
+ * Gets the configured base path (e.g. "/shop"), or "" when the app is served at the root.
+ */
+export function getBasePath(): string {
+  try {
+    // Must be referenced literally so DefinePlugin can replace it
+    return normalizeBasePath(process.env.LOLY_BASE_PATH);
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * Prefixes an absolute app path with the base path.
+ * External URLs, protocol-relative URLs and paths already prefixed are returned unchanged.
+ *
+ * @param path - App path (e.g. "/about?tab=team")
+ * @returns Path including the base path (e.g. "/shop/about?tab=team")
+ */
+export function withBasePath(path: string): string {
+  const basePath = getBasePath();
+  if (!basePath || !path.startsWith("/") || path.startsWith("//")) return path;
+  if (hasBasePath(path, basePath)) return path;
+  return path === "/" ? basePath : `${basePath}${path}`;
+}
+
+/**
+ * Removes the base path from a path, if present.
+ *
+ * @param path - Path as seen by the browser (e.g. "/shop/about")
+ * @returns App path (e.g. "/about")
+ */
+export function stripBasePath(path: string): string {
+  const basePath = getBasePath();
+  if (!basePath || !hasBasePath(path, basePath)) return path;
+  const rest = path.slice(basePath.length);
+  return rest.startsWith("/") ? rest : `/${rest}`;
+}
+
+function hasBasePath(path: string, basePath: string): boolean {
+  return (
+    path === basePath ||
+    path.startsWith(`${basePath}/`) ||
+    path.startsWith(`${basePath}?`) ||
+    path.startsWith(`${basePath}#`)
+  );
+}
@@ -2,6 +2,8 @@ import { hydrateRoot } from "react-dom/client";
 import { APP_CONTAINER_ID } from "./constants";
 import { getWindowData, getRouterData, setRouterData, setPreservedLayoutProps } from "./window-data";
 import { matchRouteClient } from "./route-matcher";
+import { toAppPath } from "./i18n";
+import { reviveDeferredProps } from "./deferred";
 import { applyMetadata } from "./metadata";
 import { AppShell } from "./AppShell";
 import { setupHotReload } from "./hot-reload";
@@ -20,6 +22,10 @@ export async function loadInitialRoute(
 ): Promise<RouteViewState> {
   const isInitialNotFound = initialData?.notFound === true;
   const isInitialError = initialData?.error === true;
+  // Same not-found page as the server: the route's nearest _not-found.tsx, or the app-level one
+  const initialNotFoundRoute = isInitialNotFound
+    ? matchRouteClient(initialUrl, routes)?.route.notFound ?? notFoundRoute
+    : null;
 
   let initialRoute: ClientRouteLoaded | null = null;
   let initialParams: Record<string, string> = {};
@@ -29,10 +35,10 @@ export async function loadInitialRoute(
     initialRoute = errorRoute;
     initialParams = initialData?.params ?? {};
     initialComponents = await errorRoute.load();
-  } else if (isInitialNotFound && notFoundRoute) {
-    initialRoute = notFoundRoute;
+  } else if (initialNotFoundRoute) {
+    initialRoute = initialNotFoundRoute;
     initialParams = {};
-    initialComponents = await notFoundRoute.load();
+    initialComponents = await initialNotFoundRoute.load();
   } else {
     const match = matchRouteClient(initialUrl, routes);
     if (match) {
@@ -56,7 +62,14 @@ export async function loadInitialRoute(
     route: initialRoute,
     params: initialParams,
     components: initialComponents,
-    props: initialData?.props ?? {},
+    // Deferred props still streaming become promises (read with <Await>)
+    props: reviveDeferredProps(initialData?.props ?? {}),
+    // Page server hook error rendered by the nearest error.tsx on the server
+    error: initialData?.segmentError
+      ? Object.assign(new Error(initialData.segmentError.message), {
+          digest: initialData.segmentError.digest,
+        })
+      : null,
   };
 }
 
@@ -72,7 +85,7 @@ function initializeRouterData(
     const url = new URL(initialUrl, window.location.origin);
     // Use initialData.pathname if available (rewritten path from server)
     // This ensures rewrites work correctly on the client
-    const pathname = initialData?.pathname || url.pathname;
+    const pathname = initialData?.pathname || toAppPath(url.pathname);
     routerData = {
       pathname,
       params: initialData?.params || {},
@@ -1,6 +1,8 @@
 // Client-side constants (hardcoded to avoid alias resolution issues in Rspack)
 export const WINDOW_DATA_KEY = "__FW_DATA__";
 export const ROUTER_DATA_KEY = "__LOLY_ROUTER_DATA__";
+// Registry of deferred (streamed) loader values, filled by inline scripts as they resolve
+export const DEFERRED_DATA_KEY = "__FW_DEFER__";
 export const APP_CONTAINER_ID = "__app";
 // Global key for navigate function fallback (exposed by AppShell for hydration timing issues)
 export const ROUTER_NAVIGATE_KEY = "__LOLY_ROUTER_NAVIGATE__";
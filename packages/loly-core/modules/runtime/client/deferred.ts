@@ -0,0 +1,68 @@
+import { DEFERRED_DATA_KEY } from "./constants";
+
+// Same key as DEFERRED_PLACEHOLDER_KEY in @rendering/deferred (hardcoded to avoid server imports)
+const DEFERRED_PLACEHOLDER_KEY = "__fw_deferred";
+
+type DeferredRegistry = {
+  v: Record<string, unknown>;
+  e: Record<string, string>;
+  l: Record<string, { res: (value: unknown) => void; rej: (error: Error) => void }>;
+};
+
+function getRegistry(): DeferredRegistry | null {
+  if (typeof window === "undefined") {
+    return null;
+  }
+  return ((window as any)[DEFERRED_DATA_KEY] as DeferredRegistry | undefined) ?? null;
+}
+
+/**
+ * Creates an already settled promise that React can read without suspending.
+ */
+function settledPromise(ok: boolean, result: unknown): Promise<unknown> {
+  const promise: any = ok ? Promise.resolve(result) : Promise.reject(result);
+  if (ok) {
+    promise.status = "fulfilled";
+    promise.value = result;
+  } else {
+    promise.catch(() => {});
+    promise.status = "rejected";
+    promise.reason = result;
+  }
+  return promise;
+}
+
+/**
+ * Replaces deferred placeholders in the initial props with promises that resolve
+ * when the server streams the value (or immediately, if it already arrived).
+ *
+ * @param props - Props from `window.__FW_DATA__`
+ * @returns Props with deferred placeholders revived as promises
+ */
+export function reviveDeferredProps(props: Record<string, any>): Record<string, any> {
+  const registry = getRegistry();
+  if (!registry) {
+    return props;
+  }
+
+  const revived: Record<string, any> = {};
+  for (const [key, value] of Object.entries(props)) {
+    const id =
+      value && typeof value === "object" ? (value as any)[DEFERRED_PLACEHOLDER_KEY] : undefined;
+
+    if (typeof id !== "string") {
+      revived[key] = value;
+    } else if (id in registry.v) {
+      revived[key] = settledPromise(true, registry.v[id]);
+    } else if (id in registry.e) {
+      revived[key] = settledPromise(false, new Error(registry.e[id]));
+    } else {
+      const promise = new Promise((res, rej) => {
+        registry.l[id] = { res, rej };
+      });
+      promise.catch(() => {});
+      revived[key] = promise;
+    }
+  }
+  return revived;
+}
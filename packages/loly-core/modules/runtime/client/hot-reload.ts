@@ -1,3 +1,5 @@
+import { withBasePath } from "./base-path";
+
 /**
  * Sets up hot reload via Server-Sent Events (SSE) in development mode.
  * Listens for file changes and reloads the page when needed.
@@ -34,7 +36,7 @@ export function setupHotReload(): void {
         eventSource.close();
       }
 
-      const endpoint = "/__fw/hot";
+      const endpoint = withBasePath("/__fw/hot");
       eventSource = new EventSource(endpoint);
       
       // Register ping listener FIRST (before message) to catch initial ping
@@ -0,0 +1,237 @@
+/**
+ * `i18n` routing helpers shared by the server and the client bundle.
+ *
+ * Like the routing options, the i18n config is exposed as `process.env.LOLY_I18N`
+ * (JSON) by the server (and build), and replaced by DefinePlugin in the client bundle.
+ *
+ * Every locale except the default one is served under a `/:locale` prefix
+ * (e.g. "/es/about"); the default locale has no prefix.
+ */
+
+import { stripBasePath } from "./base-path";
+
+/**
+ * Default locale of a domain (e.g. `{ domain: "example.es", defaultLocale: "es" }`).
+ */
+export interface DomainLocale {
+  domain: string;
+  defaultLocale: string;
+}
+
+/**
+ * Internationalised routing configuration (`config.i18n`).
+ */
+export interface I18nConfig {
+  locales: string[];
+  defaultLocale: string;
+  /** Redirect "/" to the locale from the cookie or Accept-Language (default: true) */
+  localeDetection?: boolean;
+  domains?: DomainLocale[];
+}
+
+/**
+ * Locale of the current request or page.
+ */
+export interface LocaleInfo {
+  locale: string;
+  /** Default locale of the current domain (the one without prefix) */
+  defaultLocale: string;
+}
+
+/**
+ * Cookie that stores the preferred locale, read by locale detection.
+ */
+export const LOCALE_COOKIE_NAME = "LOLY_LOCALE";
+
+let cachedConfig: { raw: string | undefined; config: I18nConfig | null } | null = null;
+
+/**
+ * Gets the configured i18n routing, or null when the app is not internationalised.
+ */
+export function getI18nConfig(): I18nConfig | null {
+  let raw: string | undefined;
+  try {
+    // Must be referenced literally so DefinePlugin can replace it
+    raw = process.env.LOLY_I18N;
+  } catch {
+    return null;
+  }
+
+  if (cachedConfig && cachedConfig.raw === raw) {
+    return cachedConfig.config;
+  }
+
+  let config: I18nConfig | null = null;
+  try {
+    const parsed = raw ? JSON.parse(raw) : null;
+    if (parsed && Array.isArray(parsed.locales) && parsed.locales.length > 0) {
+      config = parsed;
+    }
+  } catch {
+    config = null;
+  }
+
+  cachedConfig = { raw, config };
+  return config;
+}
+
+/**
+ * Gets the default locale for a hostname: the domain's default locale, or `i18n.defaultLocale`.
+ *
+ * @param hostname - Request hostname, without port (e.g. "example.es")
+ * @returns Default locale, or undefined without i18n
+ */
+export function getDefaultLocale(hostname?: string): string | undefined {
+  const i18n = getI18nConfig();
+  if (!i18n) return undefined;
+
+  if (hostname) {
+    const host = hostname.toLowerCase();
+    const domain = i18n.domains?.find((d) => d.domain.toLowerCase() === host);
+    if (domain) return domain.defaultLocale;
+  }
+
+  return i18n.defaultLocale;
+}
+
+/**
+ * Lists the locale variants of a page: every locale under every default locale in use
+ * (`i18n.defaultLocale` and the domains' default locales). Which locale has no prefix
+ * depends on the default locale, so each one renders different links.
+ *
+ * @returns Locale variants, or an empty list without i18n
+ */
+export function getLocaleVariants(): LocaleInfo[] {
+  const i18n = getI18nConfig();
+  if (!i18n) return [];
+
+  const defaultLocales = new Set([
+    i18n.defaultLocale,
+    ...(i18n.domains ?? []).map((d) => d.defaultLocale),
+  ]);
+  return [...defaultLocales].flatMap((defaultLocale) =>
+    i18n.locales.map((locale) => ({ locale, defaultLocale }))
+  );
+}
+
+/**
+ * Stores the locale picked by the visitor in the `LOLY_LOCALE` cookie, so locale
+ * detection does not redirect "/" away from it on later visits.
+ *
+ * @param locale - Locale picked by the visitor
+ */
+export function rememberLocale(locale: string): void {
+  if (typeof document === "undefined" || !findLocale(locale)) return;
+  document.cookie = `${LOCALE_COOKIE_NAME}=${encodeURIComponent(locale)}; path=/; max-age=31536000; samesite=lax`;
+}
+
+/**
+ * Finds a configured locale (case-insensitive), returning it with its configured casing.
+ *
+ * @param value - Candidate locale (e.g. "es", "pt-br")
+ * @returns Configured locale, or undefined if not configured
+ */
+export function findLocale(value: string | undefined | null): string | undefined {
+  const i18n = getI18nConfig();
+  if (!i18n || !value) return undefined;
+  const lower = value.toLowerCase();
+  return i18n.locales.find((locale) => locale.toLowerCase() === lower);
+}
+
+/**
+ * Splits the locale prefix from an app path.
+ *
+ * @param path - App path (e.g. "/es/about?tab=team")
+ * @returns Locale of the prefix (undefined if none) and the path without it
+ *
+ * @example
+ * splitLocale("/es/about"); // { locale: "es", path: "/about" }
+ * splitLocale("/about");    // { locale: undefined, path: "/about" }
+ */
+export function splitLocale(path: string): { locale: string | undefined; path: string } {
+  if (!getI18nConfig() || !path.startsWith("/")) return { locale: undefined, path };
+
+  const end = path.slice(1).search(/[/?#]/);
+  const segment = end === -1 ? path.slice(1) : path.slice(1, end + 1);
+  const locale = findLocale(segment);
+  if (!locale) return { locale: undefined, path };
+
+  const rest = path.slice(segment.length + 1);
+  return { locale, path: rest.startsWith("/") ? rest : `/${rest}` };
+}
+
+/**
+ * Converts a browser path to the app path used for route matching:
+ * removes the base path and the locale prefix.
+ *
+ * @param path - Path as seen by the browser (e.g. "/shop/es/about")
+ * @returns App path (e.g. "/about")
+ */
+export function toAppPath(path: string): string {
+  return splitLocale(stripBasePath(path)).path;
+}
+
+/**
+ * Gets the locale of the current page in the browser (undefined on the server or without i18n).
+ */
+export function getCurrentLocale(): LocaleInfo | undefined {
+  if (typeof window === "undefined" || !getI18nConfig()) return undefined;
+  const defaultLocale = getDefaultLocale(window.location.hostname)!;
+  const { locale } = splitLocale(stripBasePath(window.location.pathname));
+  return { locale: locale ?? defaultLocale, defaultLocale };
+}
+
+/**
+ * Prefixes an app path with a locale. The default locale of the domain has no prefix.
+ * External URLs and paths that already have a locale prefix are returned unchanged.
+ *
+ * @param path - App path (e.g. "/about?tab=team")
+ * @param localeInfo - Target locale; defaults to the locale of the current page in the browser
+ * @returns Localized path (e.g. "/es/about?tab=team")
+ */
+export function withLocale(path: string, localeInfo?: Partial<LocaleInfo>): string {
+  if (!getI18nConfig() || !path.startsWith("/") || path.startsWith("//")) return path;
+  if (splitLocale(path).locale) return path;
+
+  const current = getCurrentLocale();
+  const locale = localeInfo?.locale ?? current?.locale;
+  const defaultLocale = localeInfo?.defaultLocale ?? current?.defaultLocale ?? getDefaultLocale();
+  if (!locale || locale === defaultLocale) return path;
+
+  return path === "/" || path.startsWith("/?") || path.startsWith("/#")
+    ? `/${locale}${path.slice(1)}`
+    : `/${locale}${path}`;
+}
+
+/**
+ * Picks the configured locale that best matches an Accept-Language header.
+ * Exact tags win over the language prefix ("es-AR" matches "es").
+ *
+ * @param header - Accept-Language header (e.g. "es-AR,es;q=0.9,en;q=0.8")
+ * @returns Matching locale, or undefined if none
+ */
+export function matchAcceptLanguage(header: string | undefined): string | undefined {
+  const i18n = getI18nConfig();
+  if (!i18n || !header) return undefined;
+
+  const languages = header
+    .split(",")
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(";");
+      const q = params.find((p) => p.trim().startsWith("q="));
+      return { tag: tag.trim(), q: q ? parseFloat(q.trim().slice(2)) : 1, index };
+    })
+    .filter((lang) => lang.tag && lang.tag !== "*" && lang.q > 0)
+    .sort((a, b) => b.q - a.q || a.index - b.index);
+
+  for (const { tag } of languages) {
+    const exact = findLocale(tag);
+    if (exact) return exact;
+
+    const language = tag.split("-")[0].toLowerCase();
+    const partial = i18n.locales.find((locale) => locale.split("-")[0].toLowerCase() === language);
+    if (partial) return partial;
+  }
+
+  return undefined;
+}
@@ -53,6 +53,11 @@ export function applyMetadata(md?: PageMetadata | null): void {
       document.title = md.title;
     }
 
+    // Language (<html lang>)
+    if (md.lang) {
+      document.documentElement.lang = md.lang;
+    }
+
     // Description
     if (md.description) {
       const meta = getOrCreateMeta('meta[name="description"]', { name: "description" });
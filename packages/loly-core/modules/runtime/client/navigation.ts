@@ -1,7 +1,10 @@
 import { getRouteData } from "../../react/cache/index";
 import type { RouteDataResponse } from "../../react/cache/client-data-cache";
-import { matchRouteClient } from "./route-matcher";
+import { matchRouteClient, matchInterceptClient } from "./route-matcher";
+import { toAppPath } from "./i18n";
+import { applyTrailingSlash, resolveHref } from "./routing-options";
 import { applyMetadata } from "./metadata";
+import { hasSegmentBoundary } from "./route-tree";
 import { setWindowData, getCurrentTheme, setRouterData, getPreservedLayoutProps, setPreservedLayoutProps } from "./window-data";
 import type {
   ClientRouteLoaded,
@@ -16,6 +19,8 @@ export type NavigationHandlers = {
   routes: ClientRouteLoaded[];
   notFoundRoute: ClientRouteLoaded | null;
   errorRoute: ClientRouteLoaded | null;
+  /** Current view state (needed to intercept navigations into a slot of the current page) */
+  getState?: () => RouteViewState;
 };
 
 async function handleErrorRoute(
@@ -66,7 +71,7 @@ async function handleErrorRoute(
     };
 
     const windowData: InitialData = {
-      pathname: nextUrl,
+      pathname: toAppPath(nextUrl),
       params: json.params || {},
       props: errorProps,
       metadata: json.metadata ?? null,
@@ -80,7 +85,7 @@ async function handleErrorRoute(
     // Update routerData
     const url = new URL(nextUrl, typeof window !== "undefined" ? window.location.origin : "http://localhost");
     const routerData: RouterData = {
-      pathname: url.pathname,
+      pathname: toAppPath(url.pathname),
       params: json.params || {},
       searchParams: Object.fromEntries(url.searchParams.entries()),
     };
@@ -152,7 +157,7 @@ async function handleNotFoundRoute(
   };
 
   const windowData: InitialData = {
-    pathname: nextUrl,
+    pathname: toAppPath(nextUrl),
     params: {},
     props: notFoundProps,
     metadata: json.metadata ?? null,
@@ -166,7 +171,7 @@ async function handleNotFoundRoute(
   // Update routerData
   const url = new URL(nextUrl, typeof window !== "undefined" ? window.location.origin : "http://localhost");
   const routerData: RouterData = {
-    pathname: url.pathname,
+    pathname: toAppPath(url.pathname),
     params: {},
     searchParams: Object.fromEntries(url.searchParams.entries()),
   };
@@ -270,7 +275,7 @@ async function handleNormalRoute(
   }
 
   // Use pathname from server if available (rewritten), otherwise use nextUrl
-  const finalPathname = json.pathname || nextUrl;
+  const finalPathname = json.pathname || toAppPath(nextUrl);
   const windowData: InitialData = {
     pathname: finalPathname,
     params: matched.params,
@@ -286,20 +291,14 @@ async function handleNormalRoute(
   // Update routerData
   const url = new URL(nextUrl, typeof window !== "undefined" ? window.location.origin : "http://localhost");
   const routerData: RouterData = {
-    pathname: url.pathname,
+    pathname: toAppPath(url.pathname),
     params: matched.params,
-    searchParams: Object.fromEntries(url.searchParams.entries()),
+    // Parsed by the page's `searchParams` schema on the server, if it has one
+    searchParams: json.searchParams ?? Object.fromEntries(url.searchParams.entries()),
   };
   setRouterData(routerData);
 
-  // Use prefetched route if available, otherwise load it
-  const prefetched = prefetchedRoutes.get(matched.route);
-  const components = prefetched ? await prefetched : await matched.route.load();
-  
-  // Cache the loaded route for future use
-  if (!prefetched) {
-    prefetchedRoutes.set(matched.route, Promise.resolve(components));
-  }
+  const components = await loadRouteComponents(matched.route);
 
   window.scrollTo({
     top: 0,
@@ -317,6 +316,153 @@ async function handleNormalRoute(
   return true;
 }
 
+/**
+ * Renders the nearest `error.tsx` of the target route when its page server hook failed.
+ * The layouts of the route stay rendered (with the current layout props).
+ *
+ * @returns true if the route has an error boundary and it was rendered
+ */
+async function handleSegmentErrorRoute(
+  nextUrl: string,
+  json: RouteDataResponse,
+  routes: ClientRouteLoaded[],
+  setState: (state: RouteViewState) => void
+): Promise<boolean> {
+  const matched = matchRouteClient(nextUrl, routes);
+  if (!matched) {
+    return false;
+  }
+
+  const components = await loadRouteComponents(matched.route);
+  if (!hasSegmentBoundary(components, "Error")) {
+    return false;
+  }
+
+  const theme = getCurrentTheme() ?? json.theme ?? "light";
+  const props = { ...(getPreservedLayoutProps() ?? {}), theme };
+  const message = json.message || "An error occurred";
+
+  const url = new URL(nextUrl, window.location.origin);
+  setWindowData({
+    pathname: toAppPath(url.pathname),
+    params: matched.params,
+    props,
+    metadata: null,
+    theme,
+    notFound: false,
+    error: false,
+    segmentError: { message, digest: json.digest },
+  });
+  setRouterData({
+    pathname: toAppPath(url.pathname),
+    params: matched.params,
+    searchParams: Object.fromEntries(url.searchParams.entries()),
+  });
+
+  setState({
+    url: nextUrl,
+    route: matched.route,
+    params: matched.params,
+    components,
+    props,
+    error: Object.assign(new Error(message), { digest: json.digest }),
+  });
+  return true;
+}
+
+/**
+ * Renders the nearest `loading.tsx` of the target route while its data is fetched.
+ * Layouts keep the current layout props until the data arrives.
+ * Best effort: skipped if the route has no loading boundary, the URL does not match
+ * a route on the client (e.g. rewrites) or the data arrived first.
+ *
+ * @param isSettled - Returns true once the route data request finished
+ */
+async function handlePendingRoute(
+  nextUrl: string,
+  routes: ClientRouteLoaded[],
+  setState: (state: RouteViewState) => void,
+  isSettled: () => boolean
+): Promise<void> {
+  try {
+    const matched = matchRouteClient(nextUrl, routes);
+    if (!matched) return;
+
+    const components = await loadRouteComponents(matched.route);
+    if (isSettled() || !hasSegmentBoundary(components, "Loading")) return;
+
+    setState({
+      url: nextUrl,
+      route: matched.route,
+      params: matched.params,
+      components,
+      props: { ...(getPreservedLayoutProps() ?? {}), theme: getCurrentTheme() ?? "light" },
+      pending: true,
+    });
+  } catch {
+    // The navigation itself loads the route again and handles the error
+  }
+}
+
+/**
+ * Renders an intercepting route in a slot of the current page, if the current
+ * route declares one matching the URL (e.g. `@modal/(.)photo/[id]`).
+ * The current page stays mounted; only the slot and router data change.
+ *
+ * @returns true if the navigation was intercepted
+ */
+async function handleInterceptedRoute(
+  nextUrl: string,
+  json: RouteDataResponse,
+  current: RouteViewState,
+  setState: (state: RouteViewState) => void
+): Promise<boolean> {
+  const intercepts = current.route?.intercepts;
+  if (!intercepts || intercepts.length === 0 || !current.components) {
+    return false;
+  }
+
+  const matched = matchInterceptClient(json.pathname || nextUrl, intercepts);
+  if (!matched) {
+    return false;
+  }
+
+  const Page = await matched.intercept.load();
+
+  // Same props as the full page: layout props (preserved or new) + page props
+  let layoutProps: Record<string, any> = getPreservedLayoutProps() ?? {};
+  if (json.layoutProps !== undefined && json.layoutProps !== null) {
+    layoutProps = json.layoutProps;
+    setPreservedLayoutProps(layoutProps);
+  }
+  const props = {
+    ...layoutProps,
+    ...(json.pageProps ?? json.props ?? {}),
+    theme: getCurrentTheme() ?? json.theme ?? "light",
+  };
+
+  const url = new URL(nextUrl, window.location.origin);
+  setRouterData({
+    pathname: toAppPath(url.pathname),
+    params: matched.params,
+    searchParams: Object.fromEntries(url.searchParams.entries()),
+  });
+
+  setState({
+    ...current,
+    intercepted: {
+      url: nextUrl,
+      slot: matched.intercept.slot,
+      layoutIndex: matched.intercept.layoutIndex,
+      Page,
+      params: matched.params,
+      props,
+    },
+  });
+
+  return true;
+}
+
 export type NavigateOptions = {
   /**
    * If true, forces revalidation of route data,
@@ -324,6 +470,11 @@ export type NavigateOptions = {
    * Similar to Next.js's `router.refresh()` behavior.
    */
   revalidate?: boolean;
+  /**
+   * If false, intercepting routes are ignored and the full page is rendered
+   * (used for history navigation). Defaults to true.
+   */
+  intercept?: boolean;
 };
 
 export async function navigate(
@@ -334,11 +485,33 @@ export async function navigate(
   const { setState, routes, notFoundRoute, errorRoute } = handlers;
 
   try {
-    const { ok, json } = await getRouteData(nextUrl, {
+    let settled = false;
+    const dataRequest = getRouteData(nextUrl, {
       revalidate: options?.revalidate,
+    }).finally(() => {
+      settled = true;
     });
+    // Handled when awaited below
+    dataRequest.catch(() => {});
+
+    // Show the loading.tsx of the target route, unless the navigation keeps the current
+    // page (refresh of the same URL or an intercepting route)
+    const current = handlers.getState?.();
+    const intercepts = options?.intercept !== false ? current?.route?.intercepts : undefined;
+    if (
+      current?.url !== nextUrl &&
+      !(intercepts && matchInterceptClient(nextUrl, intercepts))
+    ) {
+      await handlePendingRoute(nextUrl, routes, setState, () => settled);
+    }
+
+    const { ok, json } = await dataRequest;
 
     if (json && json.error) {
+      // Nearest error.tsx of the route, inside its layouts
+      const handledInSegment = await handleSegmentErrorRoute(nextUrl, json, routes, setState);
+      if (handledInSegment) return;
+
       if (errorRoute) {
         const handled = await handleErrorRoute(
           nextUrl,
@@ -357,10 +530,22 @@ export async function navigate(
       }
     }
 
+    // Handle notFound (404): nearest _not-found.tsx of the route, or the app-level one
+    if (json?.notFound) {
+      const matched = matchRouteClient(json.pathname || nextUrl, routes);
+      await handleNotFoundRoute(
+        nextUrl,
+        json,
+        matched?.route.notFound ?? notFoundRoute,
+        setState
+      );
+      return;
+    }
+
     // 🔴 HTTP error (404/500/etc)
     if (!ok) {
       if (json?.redirect) {
-        window.location.href = json.redirect.destination;
+        window.location.href = resolveHref(json.redirect.destination);
         return;
       }
       window.location.href = nextUrl;
@@ -369,14 +554,14 @@ export async function navigate(
 
     // Redirect via JSON
     if (json.redirect) {
-      window.location.href = json.redirect.destination;
+      window.location.href = resolveHref(json.redirect.destination);
       return;
     }
 
-    // Handle notFound
-    if (json.notFound) {
-      await handleNotFoundRoute(nextUrl, json, notFoundRoute, setState);
-      return;
+    // Intercepting route: render it in a slot of the current page
+    if (options?.intercept !== false && current) {
+      const intercepted = await handleInterceptedRoute(nextUrl, json, current, setState);
+      if (intercepted) return;
     }
 
     // Normal route
@@ -390,6 +575,20 @@ export async function navigate(
 // Cache for prefetched routes to avoid loading twice
 const prefetchedRoutes = new WeakMap<ClientRouteLoaded, Promise<ClientLoadedComponents>>();
 
+/**
+ * Loads the components of a route, reusing a prefetched load if available.
+ */
+async function loadRouteComponents(route: ClientRouteLoaded): Promise<ClientLoadedComponents> {
+  const prefetched = prefetchedRoutes.get(route);
+  const components = prefetched ? await prefetched : await route.load();
+
+  // Cache the loaded route for future use
+  if (!prefetched) {
+    prefetchedRoutes.set(route, Promise.resolve(components));
+  }
+  return components;
+}
+
 /**
  * Prefetches a route's components when user hovers over a link.
  * This improves perceived performance by loading the route before the user clicks.
@@ -445,7 +644,7 @@ export function createHoverHandler(
       if (url.origin !== window.location.origin) return;
       if (anchor.target && anchor.target !== "_self") return;
 
-      const nextUrl = url.pathname + url.search;
+      const nextUrl = applyTrailingSlash(url.pathname + url.search);
       const currentUrl = window.location.pathname + window.location.search;
       if (nextUrl === currentUrl) return;
 
@@ -525,7 +724,8 @@ export function createClickHandler(
 
     ev.preventDefault();
 
-    const nextUrl = url.pathname + url.search;
+    // Plain anchors may point to a non-canonical URL (routing.trailingSlash)
+    const nextUrl = applyTrailingSlash(url.pathname + url.search);
     const currentUrl = window.location.pathname + window.location.search;
     if (nextUrl === currentUrl) return;
 
@@ -548,7 +748,8 @@ export function createPopStateHandler(
 ): () => void {
   return function handlePopState() {
     const nextUrl = window.location.pathname + window.location.search;
-    navigate(nextUrl);
+    // History navigation renders full pages (closes intercepted slots)
+    navigate(nextUrl, { intercept: false });
   };
 }
 
@@ -1,4 +1,6 @@
-import type { ClientRouteLoaded, ClientRouteMatch } from "./types";
+import type { ClientInterceptRoute, ClientRouteLoaded, ClientRouteMatch } from "./types";
+import { toAppPath } from "./i18n";
+import { isCaseSensitive } from "./routing-options";
 
 export function buildClientRegexFromPattern(pattern: string): RegExp {
   const segments = pattern.split("/").filter(Boolean);
@@ -30,14 +32,16 @@ export function buildClientRegexFromPattern(pattern: string): RegExp {
   }
 
   const regexSource = "^/" + regexParts.join("/") + "/?$";
-  return new RegExp(regexSource);
+  // Same flags as the server (buildRegexFromRoutePath)
+  return new RegExp(regexSource, isCaseSensitive() ? "" : "i");
 }
 
 export function matchRouteClient(
   pathWithSearch: string,
   routes: ClientRouteLoaded[]
 ): ClientRouteMatch | null {
-  const [pathname] = pathWithSearch.split("?");
+  // Client routes are app paths: drop routing.basePath and the locale prefix from browser URLs
+  const pathname = toAppPath(pathWithSearch.split("?")[0]);
   for (const r of routes) {
     const regex = buildClientRegexFromPattern(r.pattern);
     const match = regex.exec(pathname);
@@ -53,3 +57,24 @@ export function matchRouteClient(
   return null;
 }
 
+/**
+ * Finds the intercepting route (of the current route) that matches a URL.
+ */
+export function matchInterceptClient(
+  pathWithSearch: string,
+  intercepts: ClientInterceptRoute[]
+): { intercept: ClientInterceptRoute; params: Record<string, string> } | null {
+  const pathname = toAppPath(pathWithSearch.split("?")[0]);
+  for (const intercept of intercepts) {
+    const match = buildClientRegexFromPattern(intercept.pattern).exec(pathname);
+    if (!match) continue;
+
+    const params: Record<string, string> = {};
+    intercept.paramNames.forEach((name, idx) => {
+      params[name] = decodeURIComponent(match[idx + 1] || "");
+    });
+
+    return { intercept, params };
+  }
+  return null;
+}
@@ -0,0 +1,170 @@
+import { Component, Suspense, type ReactElement, type ReactNode } from "react";
+import { ROUTER_NAVIGATE_KEY } from "./constants";
+import type { ClientLoadedComponents, InterceptedSlotState } from "./types";
+
+type SegmentErrorBoundaryProps = {
+  fallback: React.ComponentType<{ error: Error; reset: () => void }>;
+  /** Page server hook error: the fallback is shown without rendering children */
+  error?: Error | null;
+  children?: ReactNode;
+};
+
+type SegmentErrorBoundaryState = {
+  error: Error | null;
+};
+
+/**
+ * Error boundary of a segment (`error.tsx`).
+ * Catches render errors of its subtree and shows page server hook errors,
+ * keeping the layouts above it mounted.
+ */
+export class SegmentErrorBoundary extends Component<
+  SegmentErrorBoundaryProps,
+  SegmentErrorBoundaryState
+> {
+  constructor(props: SegmentErrorBoundaryProps) {
+    super(props);
+    this.state = { error: props.error ?? null };
+  }
+
+  static getDerivedStateFromError(error: unknown): SegmentErrorBoundaryState {
+    return { error: error instanceof Error ? error : new Error(String(error)) };
+  }
+
+  componentDidUpdate(prevProps: SegmentErrorBoundaryProps) {
+    // New route data (after reset or navigation) replaces the server hook error
+    if (prevProps.error !== this.props.error) {
+      this.setState({ error: this.props.error ?? null });
+    }
+  }
+
+  /**
+   * Re-fetches the current route data and renders the subtree again.
+   */
+  reset = () => {
+    const navigate = typeof window !== "undefined" ? window[ROUTER_NAVIGATE_KEY] : undefined;
+    const refetch = navigate
+      ? navigate(window.location.pathname + window.location.search, { revalidate: true })
+      : Promise.resolve();
+
+    refetch.finally(() => {
+      // A server hook error that persists comes back through props
+      if (!this.props.error) {
+        this.setState({ error: null });
+      }
+    });
+  };
+
+  render() {
+    const { error } = this.state;
+    if (error) {
+      const Fallback = this.props.fallback;
+      return <Fallback error={error} reset={this.reset} />;
+    }
+    return this.props.children ?? null;
+  }
+}
+
+/**
+ * Checks whether the route has a segment boundary of the given kind.
+ *
+ * @param components - Loaded route components
+ * @param kind - "Loading" (loading.tsx) or "Error" (error.tsx)
+ * @returns True if at least one segment of the route defines it
+ */
+export function hasSegmentBoundary(
+  components: ClientLoadedComponents,
+  kind: "Loading" | "Error"
+): boolean {
+  return !!components.boundaries?.some((boundary) => !!boundary[kind]);
+}
+
+/**
+ * Builds the element tree of a route: page, segment boundaries and layouts (with slots).
+ * Shared by SSR/SSG (buildAppTree) and the client (RouterView) so hydration matches.
+ *
+ * Each segment boundary renders inside the layout of its directory:
+ * `Layout > SegmentErrorBoundary (error.tsx) > Suspense (loading.tsx) > nested content`.
+ *
+ * @param options - Route components, params and props
+ * @param options.pending - Render the nearest `loading.tsx` instead of the page
+ * @param options.error - Render the nearest `error.tsx` with this error instead of the page
+ * @param options.intercepted - Intercepting route rendered in a slot
+ * @returns React element tree
+ */
+export function buildRouteTree(options: {
+  components: ClientLoadedComponents;
+  params: Record<string, string>;
+  props: Record<string, any>;
+  pending?: boolean;
+  error?: Error | null;
+  intercepted?: InterceptedSlotState | null;
+}): ReactElement {
+  const { components, params, props, pending, error, intercepted } = options;
+  const { Page, layouts, slots, boundaries = [] } = components;
+
+  // Innermost boundaries that replace the page while loading or after a server hook error
+  const findInnermost = (kind: "Loading" | "Error") => {
+    for (let b = boundaries.length - 1; b >= 0; b--) {
+      if (boundaries[b][kind]) return b;
+    }
+    return -1;
+  };
+  const errorAt = error ? findInnermost("Error") : -1;
+  const pendingAt = pending && errorAt === -1 ? findInnermost("Loading") : -1;
+
+  let element: ReactNode = <Page params={params} {...props} />;
+  let b = boundaries.length - 1;
+
+  for (let depth = layouts.length; depth >= 0; depth--) {
+    // Boundaries are ordered root → specific, so deeper ones wrap first
+    for (; b >= 0 && boundaries[b].layoutDepth >= depth; b--) {
+      const { Loading, Error: ErrorFallback } = boundaries[b];
+      if (!Loading && !ErrorFallback) continue;
+
+      if (b === errorAt) {
+        element = null;
+      } else if (b === pendingAt && Loading) {
+        element = <Loading />;
+      }
+
+      // Suspense also lets render errors during SSR fall back to the client, where the boundary catches them
+      element = <Suspense fallback={Loading ? <Loading /> : null}>{element}</Suspense>;
+      if (ErrorFallback) {
+        element = (
+          <SegmentErrorBoundary fallback={ErrorFallback} error={b === errorAt ? error : null}>
+            {element}
+          </SegmentErrorBoundary>
+        );
+      }
+    }
+
+    if (depth === 0) break;
+
+    const i = depth - 1;
+    const Layout = layouts[i];
+
+    // Parallel route slots (@name) of this layout are passed as props
+    const slotProps: Record<string, ReactNode> = {};
+    for (const slot of slots ?? []) {
+      if (slot.layoutIndex !== i) continue;
+      const SlotPage = slot.Page;
+      slotProps[slot.name] = SlotPage ? <SlotPage params={params} {...props} /> : null;
+    }
+    if (intercepted && intercepted.layoutIndex === i) {
+      const InterceptedPage = intercepted.Page;
+      slotProps[intercepted.slot] = (
+        <InterceptedPage params={intercepted.params} {...intercepted.props} />
+      );
+    }
+
+    element = (
+      <Layout params={params} {...props} {...slotProps}>
+        {element}
+      </Layout>
+    );
+  }
+
+  // Always an element: the page, a boundary or the outermost layout
+  return element as ReactElement;
+}
@@ -0,0 +1,81 @@
+/**
+ * `routing.trailingSlash` and `routing.caseSensitive` helpers shared by the
+ * server and the client bundle.
+ *
+ * Like the base path, both values are exposed as `process.env.LOLY_*` by the
+ * server (and build), and replaced by DefinePlugin in the client bundle.
+ */
+
+import { withBasePath } from "./base-path";
+import { withLocale, type LocaleInfo } from "./i18n";
+
+export type TrailingSlashMode = "always" | "never" | "ignore";
+
+/**
+ * Gets the configured trailing slash mode.
+ */
+export function getTrailingSlash(): TrailingSlashMode {
+  try {
+    // Must be referenced literally so DefinePlugin can replace it
+    const mode = process.env.LOLY_TRAILING_SLASH;
+    return mode === "always" || mode === "never" ? mode : "ignore";
+  } catch {
+    return "ignore";
+  }
+}
+
+/**
+ * Whether route patterns are matched case-sensitively.
+ */
+export function isCaseSensitive(): boolean {
+  try {
+    // Must be referenced literally so DefinePlugin can replace it
+    return process.env.LOLY_CASE_SENSITIVE === "true";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Formats the pathname of a URL according to `routing.trailingSlash`.
+ *
+ * - `"always"`: adds a trailing slash (except to the root and to file-like paths such as `/sitemap.xml`)
+ * - `"never"`: removes the trailing slash (except from the root)
+ * - `"ignore"`: returns the URL unchanged
+ *
+ * Query string and hash are preserved. External URLs are returned unchanged.
+ *
+ * @param url - Absolute path, optionally with query and hash (e.g. "/about?tab=team")
+ * @returns Canonical URL (e.g. "/about/?tab=team" with `"always"`)
+ */
+export function applyTrailingSlash(url: string): string {
+  const mode = getTrailingSlash();
+  if (mode === "ignore" || !url.startsWith("/") || url.startsWith("//")) return url;
+
+  const suffixIndex = url.search(/[?#]/);
+  const pathname = suffixIndex === -1 ? url : url.slice(0, suffixIndex);
+  const suffix = suffixIndex === -1 ? "" : url.slice(suffixIndex);
+
+  if (pathname === "/") return url;
+
+  if (mode === "never") {
+    return (pathname.replace(/\/+$/, "") || "/") + suffix;
+  }
+
+  const lastSegment = pathname.split("/").filter(Boolean).pop() ?? "";
+  if (pathname.endsWith("/") || lastSegment.includes(".")) return url;
+  return `${pathname}/${suffix}`;
+}
+
+/**
+ * Resolves an app path to the URL used in the browser: trailing slash
+ * applied, locale and base path prefixed. Used by Link, router.push and redirects
+ * so every page is reachable under a single canonical URL.
+ *
+ * @param url - App path (e.g. "/about?tab=team")
+ * @param localeInfo - Locale to keep; defaults to the locale of the current page in the browser
+ * @returns Browser URL (e.g. "/shop/es/about/?tab=team")
+ */
+export function resolveHref(url: string, localeInfo?: Partial<LocaleInfo> | null): string {
+  return withBasePath(applyTrailingSlash(withLocale(url, localeInfo ?? undefined)));
+}
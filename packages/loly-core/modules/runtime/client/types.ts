@@ -1,4 +1,5 @@
 import { WINDOW_DATA_KEY, ROUTER_DATA_KEY, ROUTER_NAVIGATE_KEY } from "./constants";
+import type { LocaleInfo } from "./i18n";
 
 export type InitialData = {
   pathname: string;
@@ -8,6 +9,8 @@ export type InitialData = {
   className?: string;
   notFound?: boolean;
   error?: boolean;
+  /** Page server hook error caught by a segment `error.tsx` (rendered inside the route) */
+  segmentError?: { message: string; digest?: string } | null;
   theme?: string;
 };
 
@@ -15,6 +18,8 @@ export type RouterData = {
   pathname: string;
   params: Record<string, string>;
   searchParams: Record<string, unknown>;
+  /** Locale of the page (config.i18n) */
+  locale?: LocaleInfo;
 };
 
 declare global {
@@ -28,12 +33,32 @@ declare global {
 export type ClientLoadedComponents = {
   Page: React.ComponentType<any>;
   layouts: React.ComponentType<any>[];
+  /** Parallel route slots: each is passed to layouts[layoutIndex] as the `name` prop */
+  slots?: { name: string; layoutIndex: number; Page: React.ComponentType<any> | null }[];
+  /** Segment boundaries (`loading.tsx` / `error.tsx`), rendered inside layouts[layoutDepth - 1] */
+  boundaries?: {
+    layoutDepth: number;
+    Loading: React.ComponentType<any> | null;
+    Error: React.ComponentType<any> | null;
+  }[];
+};
+
+export type ClientInterceptRoute = {
+  slot: string;
+  layoutIndex: number;
+  pattern: string;
+  paramNames: string[];
+  load: () => Promise<React.ComponentType<any>>;
 };
 
 export type ClientRouteLoaded = {
   pattern: string;
   paramNames: string[];
   load: () => Promise<ClientLoadedComponents>;
+  /** Intercepting routes reachable from this route with client-side navigation */
+  intercepts?: ClientInterceptRoute[];
+  /** Nearest segment `_not-found.tsx` (used instead of the app-level not-found route) */
+  notFound?: ClientRouteLoaded;
 };
 
 export type ClientRouteMatch = {
@@ -41,11 +66,29 @@ export type ClientRouteMatch = {
   params: Record<string, string>;
 };
 
+/**
+ * Intercepted route rendered in a slot over the current page.
+ */
+export type InterceptedSlotState = {
+  url: string;
+  slot: string;
+  layoutIndex: number;
+  Page: React.ComponentType<any>;
+  params: Record<string, string>;
+  props: Record<string, any>;
+};
+
 export type RouteViewState = {
   url: string;
   route: ClientRouteLoaded | null;
   params: Record<string, string>;
   components: ClientLoadedComponents | null;
   props: Record<string, any>;
+  /** Set when a client-side navigation was intercepted into a slot of the current page */
+  intercepted?: InterceptedSlotState | null;
+  /** True while the route data is loading: the nearest `loading.tsx` replaces the page */
+  pending?: boolean;
+  /** Page server hook error: the nearest `error.tsx` replaces the page */
+  error?: Error | null;
 };
 
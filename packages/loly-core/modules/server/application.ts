@@ -26,7 +26,7 @@ export const setupApplication = async ({
 
   const serverConfig = await getServerConfig(projectRoot);
 
-  const { bodyLimit, corsOrigin, rateLimit, security } = serverConfig;
+  const { corsOrigin, rateLimit, security } = serverConfig;
 
   // Security: Helmet with configurable CSP
   const helmetConfig: any = {};
@@ -253,8 +253,8 @@ export const setupApplication = async ({
 
   app.use(cookieParser());
 
-  app.use(express.json({ limit: bodyLimit }));
-  app.use(express.urlencoded({ extended: true, limit: bodyLimit }));
+  // JSON and urlencoded bodies are parsed by setupRoutes, after proxied rewrites
+  // (which stream the request body upstream unchanged)
 
   app.use(compression());
 
@@ -15,6 +15,8 @@ export interface RealtimeConfig {
   pingIntervalMs?: number;
   pingTimeoutMs?: number;
   maxPayloadBytes?: number;
+  /** Time an event handler has to resolve a client acknowledgement, in ms */
+  eventTimeoutMs?: number;
 
   /** Security */
   allowedOrigins?: string | string[];
@@ -23,6 +25,13 @@ export interface RealtimeConfig {
     allowedHeaders?: string[];
   };
 
+  /**
+   * Reverse proxies in front of the app, used to resolve the client IP (`ctx.req.ip`,
+   * `limits.connectionsPerIp`) from `X-Forwarded-For`: `true` trusts the whole header,
+   * a number trusts that many proxy hops. Without it the socket address is used.
+   */
+  trustProxy?: boolean | number;
+
   /** Scaling configuration */
   scale?: {
     mode?: "single" | "cluster";
@@ -41,11 +50,24 @@ export interface RealtimeConfig {
 
   /** Rate limiting */
   limits?: {
+    /** Maximum open connections in the app (across instances in cluster mode) */
+    maxConnections?: number;
+    /** Maximum open connections per client IP (set `trustProxy` behind a proxy) */
     connectionsPerIp?: number;
+    /** Maximum open connections per authenticated user (`user.id` returned by `auth`) */
+    connectionsPerUser?: number;
     eventsPerSecond?: number;
     burst?: number;
   };
 
+  /** Room presence */
+  presence?: {
+    /** Interval to refresh socket liveness and remove expired members, in ms */
+    heartbeatMs?: number;
+    /** Time without heartbeat after which a member is removed (e.g. crashed instance), in ms */
+    ttlMs?: number;
+  };
+
   /** Logging */
   logging?: {
     level?: "debug" | "info" | "warn" | "error";
@@ -79,6 +101,7 @@ const DEFAULT_REALTIME_CONFIG: RealtimeConfig = {
     pingIntervalMs: 25000,
     pingTimeoutMs: 20000,
     maxPayloadBytes: 64 * 1024,
+    eventTimeoutMs: 10000,
     allowedOrigins: process.env.NODE_ENV === "production" ? [] : "*",
     cors: {
         credentials: true,
@@ -88,10 +111,13 @@ const DEFAULT_REALTIME_CONFIG: RealtimeConfig = {
         mode: "single",
     },
     limits: {
-        connectionsPerIp: 20,
         eventsPerSecond: 30,
         burst: 60,
     },
+    presence: {
+        heartbeatMs: 15000,
+        ttlMs: 45000,
+    },
     logging: {
         level: process.env.NODE_ENV === "production" ? "warn" : "info",
         pretty: process.env.NODE_ENV !== "production",
@@ -190,6 +216,10 @@ export async function getServerConfig(
           ...DEFAULT_REALTIME_CONFIG.limits,
           ...options.realtime?.limits,
         },
+        presence: {
+          ...DEFAULT_REALTIME_CONFIG.presence,
+          ...options.realtime?.presence,
+        },
         logging: {
           ...DEFAULT_REALTIME_CONFIG.logging,
           ...options.realtime?.logging,
@@ -0,0 +1,93 @@
+import { Request } from "express";
+import {
+  ActionContext,
+  ActionResult,
+  InvalidResponse,
+  LoadedRoute,
+  RedirectResponse,
+  ServerContext,
+} from "@router/index";
+
+/** Form field / query parameter used to select a named action */
+export const ACTION_FIELD = "__action";
+
+/**
+ * Gets the name of the action requested by a POST: the `__action` body field,
+ * then the `__action` query parameter, then "default".
+ *
+ * @param req - Express request object
+ * @returns Action name
+ */
+export function getActionName(req: Request): string {
+  const fromBody = req.body && typeof req.body === "object" ? req.body[ACTION_FIELD] : undefined;
+  const fromQuery = (req.query as Record<string, unknown>)?.[ACTION_FIELD];
+  const name = fromBody ?? fromQuery;
+  return typeof name === "string" && name ? name : "default";
+}
+
+/**
+ * Checks that a POST comes from a page of this site (CSRF protection for server actions).
+ *
+ * Compares the `Origin` header (or `Referer` when there is none) with the request host.
+ * Requests without either header (non-browser clients) are accepted unless
+ * `Sec-Fetch-Site` marks them as cross-site.
+ *
+ * @param req - Express request object
+ * @returns True if the request is same-origin
+ */
+export function isSameOriginRequest(req: Request): boolean {
+  const source = req.get("origin") ?? req.get("referer");
+  if (!source) {
+    return req.get("sec-fetch-site") !== "cross-site";
+  }
+  // Sent by sandboxed frames and privacy-sensitive redirects
+  if (source === "null") {
+    return false;
+  }
+
+  try {
+    return new URL(source).hostname.toLowerCase() === req.hostname.toLowerCase();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Runs the server action of a page for a POST request.
+ *
+ * @param route - Matched page route
+ * @param ctx - Server context of the request
+ * @returns RedirectResponse, the action result, or null if the route has no such action
+ */
+export async function runRouteAction(
+  route: LoadedRoute,
+  ctx: ServerContext
+): Promise<ActionResult | RedirectResponse | null> {
+  const name = getActionName(ctx.req);
+  const action = route.actions?.[name];
+  if (!action) {
+    return null;
+  }
+
+  const { [ACTION_FIELD]: _ignored, ...body } =
+    ctx.req.body && typeof ctx.req.body === "object" ? ctx.req.body : {};
+
+  const actionCtx: ActionContext = {
+    ...ctx,
+    body,
+    actionName: name,
+    Invalid: (errors, values = {}) => new InvalidResponse(errors, values),
+  };
+
+  const result = await action(actionCtx);
+
+  if (result instanceof RedirectResponse) {
+    return result;
+  }
+
+  if (result instanceof InvalidResponse) {
+    return { ok: false, name, errors: result.errors, values: result.values };
+  }
+
+  return { ok: true, name, data: result ?? null };
+}
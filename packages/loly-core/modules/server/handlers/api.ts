@@ -1,8 +1,13 @@
 import { Request, Response } from "express";
-import { ApiContext, ApiRoute, matchApiRoute, RewriteLoader, processRewrites } from "@router/index";
+import { ApiContext, ApiRoute, matchApiRoute, RewriteLoader } from "@router/index";
 import { sanitizeParams, sanitizeQuery } from "@security/sanitize";
 import { getAutoRateLimiter } from "@server/middleware/auto-rate-limit";
 import { getRequestLogger, createModuleLogger } from "@logger/index";
+import { applyRouteHeaders } from "./route-headers";
+import { validateRouteInput } from "./route-schemas";
+import { isWebResponse, sendWebResponse, toWebRequest } from "./web";
+import { createSSEStream } from "./sse";
+import { resolveRequestRewrite } from "./rewrites";
 
 export interface HandleApiRequestOptions {
   apiRoutes: ApiRoute[];
@@ -32,10 +37,10 @@ export async function handleApiRequest(
   
   if (rewriteLoader) {
     try {
-      const compiledRewrites = await rewriteLoader.loadRewrites();
-      const rewriteResult = await processRewrites(urlPath, compiledRewrites, req);
+      const rewriteResult = await resolveRequestRewrite(req, urlPath, rewriteLoader);
       
-      if (rewriteResult) {
+      // Proxied rewrites (absolute URLs) are handled before API routing
+      if (rewriteResult && !rewriteResult.external) {
         finalUrlPath = rewriteResult.rewrittenPath;
         extractedParams = rewriteResult.extractedParams;
         Object.assign(req.query, extractedParams);
@@ -64,10 +69,16 @@ export async function handleApiRequest(
 
   const { route, params } = matched;
   const method = req.method.toUpperCase();
-  const handler = route.handlers[method];
+  // HEAD runs the GET handler (and its middlewares) unless the route exports its own
+  const handlerMethod = method === "HEAD" && !route.handlers.HEAD ? "GET" : method;
+  const handler = route.handlers[handlerMethod];
 
   if (!handler) {
-    res.setHeader("Allow", Object.keys(route.handlers).join(", "));
+    const allowed = Object.keys(route.handlers);
+    if (route.handlers.GET && !route.handlers.HEAD) {
+      allowed.push("HEAD");
+    }
+    res.setHeader("Allow", allowed.join(", "));
     res.status(405).json({ error: "Method Not Allowed" });
     return;
   }
@@ -113,12 +124,19 @@ export async function handleApiRequest(
     req.params[key] = value;
   }
 
+  let webRequest: globalThis.Request | undefined;
   const ctx: ApiContext = {
     req,
     res,
     Response: (body: any = {}, status = 200) => res.status(status).json(body),
     NotFound: (body: any = {}) => res.status(404).json(body),
+    // Created on first access: most handlers never read it
+    get request() {
+      return (webRequest ??= toWebRequest(req));
+    },
+    sse: (sseOptions) => createSSEStream(req, res, sseOptions),
     params: sanitizedParams,
+    query: sanitizedQuery,
     pathname: finalUrlPath,
     locals: {},
   };
@@ -130,6 +148,19 @@ export async function handleApiRequest(
   req.query = sanitizedQuery as any;
 
   try {
+    // `params` / `searchParams` schemas are validated before the middlewares (beforeApi)
+    const input = validateRouteInput(route, { params: ctx.params, query: ctx.query });
+    if (!input.success) {
+      res.status(400).json({
+        error: "Bad Request",
+        message: input.error.message,
+        details: input.error.format(),
+      });
+      return;
+    }
+    ctx.params = input.data.params;
+    ctx.query = input.data.query;
+
     const autoRateLimiter = getAutoRateLimiter(
       route,
       options.strictRateLimitPatterns,
@@ -146,7 +177,7 @@ export async function handleApiRequest(
     }
 
     const globalMws = route.middlewares ?? [];
-    const perMethodMws = route.methodMiddlewares?.[method] ?? [];
+    const perMethodMws = route.methodMiddlewares?.[handlerMethod] ?? [];
     const chain = autoRateLimiter 
       ? [autoRateLimiter, ...globalMws, ...perMethodMws]
       : [...globalMws, ...perMethodMws];
@@ -202,7 +233,20 @@ export async function handleApiRequest(
       }
     }
 
-    await handler(ctx);
+    // Route `headers` / `cache`; res.json() adds the ETag and answers 304 to fresh requests
+    await applyRouteHeaders(res, route, ctx);
+
+    const result = await handler(ctx);
+    if (isWebResponse(result)) {
+      if (res.headersSent) {
+        reqLogger.warn("API handler returned a Response after sending one", {
+          route: route.pattern,
+          method,
+        });
+      } else {
+        await sendWebResponse(req, res, result);
+      }
+    }
   } catch (err) {
     const reqLogger = getRequestLogger(req);
     reqLogger.error("API handler error", err, {
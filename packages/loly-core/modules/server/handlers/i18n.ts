@@ -0,0 +1,95 @@
+import { Request, Response } from "express";
+import { withBasePath } from "@runtime/client/base-path";
+import { resolveHref } from "@runtime/client/routing-options";
+import {
+  findLocale,
+  getDefaultLocale,
+  getI18nConfig,
+  matchAcceptLanguage,
+  splitLocale,
+  LOCALE_COOKIE_NAME,
+  type LocaleInfo,
+} from "@runtime/client/i18n";
+import { isDataRequest } from "./pages";
+
+/**
+ * Gets the locale of a request, set by `handleLocaleRouting`.
+ *
+ * @param req - Express request object
+ * @returns Locale and default locale of the request's domain, or undefined without i18n
+ */
+export function getRequestLocale(req: Request): LocaleInfo | undefined {
+  return (req as any).localeInfo;
+}
+
+function setRequestLocale(req: Request, localeInfo: LocaleInfo): void {
+  (req as any).localeInfo = localeInfo;
+}
+
+/**
+ * Detects the preferred locale of a visitor: `LOLY_LOCALE` cookie first, then Accept-Language.
+ */
+function detectLocale(req: Request): string | undefined {
+  return findLocale(req.cookies?.[LOCALE_COOKIE_NAME]) ?? matchAcceptLanguage(req.get("accept-language"));
+}
+
+/**
+ * Applies `config.i18n` to a request, before redirects, rewrites and route matching:
+ *
+ * - `/:locale/...` paths: the prefix is removed from `req.url` so routes match the app path
+ * - Paths without prefix use the default locale of the domain
+ * - Requests to "/" are redirected to the detected locale (`localeDetection`); the
+ *   `LOLY_LOCALE` cookie set when the visitor picks a locale (`Link` with `locale`) wins
+ *
+ * `/api/*` routes are not localized.
+ *
+ * @param req - Express request object
+ * @param res - Express response object
+ * @returns True if the request was redirected
+ */
+export function handleLocaleRouting(req: Request, res: Response): boolean {
+  const i18n = getI18nConfig();
+  if (!i18n || req.path.startsWith("/api/")) {
+    return false;
+  }
+
+  const defaultLocale = getDefaultLocale(req.hostname)!;
+  const { locale, path: appPath } = splitLocale(req.path);
+
+  if (locale) {
+    const queryIndex = req.url.indexOf("?");
+    const search = queryIndex === -1 ? "" : req.url.slice(queryIndex);
+    req.url = appPath + search;
+    setRequestLocale(req, { locale, defaultLocale });
+    return false;
+  }
+
+  if (
+    i18n.localeDetection !== false &&
+    req.path === "/" &&
+    (req.method === "GET" || req.method === "HEAD") &&
+    !isDataRequest(req)
+  ) {
+    // "/" depends on the cookie and Accept-Language, whether it redirects or not
+    res.vary("Accept-Language");
+    res.vary("Cookie");
+
+    const detected = detectLocale(req);
+    if (detected && detected !== defaultLocale) {
+      const queryIndex = req.originalUrl.indexOf("?");
+      const search = queryIndex === -1 ? "" : req.originalUrl.slice(queryIndex);
+
+      // A locale that is the default of another domain is served from that domain
+      const domain = i18n.domains?.find((d) => d.defaultLocale === detected);
+      const destination = domain
+        ? `${req.protocol}://${domain.domain}${withBasePath("/")}${search}`
+        : resolveHref("/", { locale: detected, defaultLocale }) + search;
+
+      res.redirect(307, destination);
+      return true;
+    }
+  }
+
+  setRequestLocale(req, { locale: defaultLocale, defaultLocale });
+  return false;
+}
@@ -5,3 +5,13 @@ export * from "./server-hook";
 export * from "./response";
 export * from "./ssg";
 
+export * from "./isr";
+export * from "./action";
+export * from "./redirects";
+export * from "./proxy";
+export * from "./rewrites";
+export * from "./i18n";
+export * from "./route-headers";
+export * from "./route-schemas";
+export * from "./web";
+export * from "./sse";
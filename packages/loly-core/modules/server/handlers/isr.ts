@@ -0,0 +1,418 @@
+import fs from "fs";
+import path from "path";
+import { matchRoute, type LoadedRoute } from "@router/index";
+import { renderStaticRoute } from "@build/ssg/renderer";
+import { buildPathFromPattern, getAppPathFromOutputPath, getLocaleOutputPath } from "@build/ssg/path";
+import { getLocaleVariants, splitLocale, type LocaleInfo } from "@runtime/client/i18n";
+import type { FrameworkConfig } from "@src/config";
+import { createModuleLogger } from "@logger/index";
+import { getSsgDirForPath, getSsgHtmlPath, getSsgDataPath } from "./ssg";
+
+const logger = createModuleLogger("isr");
+
+export interface StaticRevalidationOptions {
+  projectRoot: string;
+  ssgOutDir: string;
+  isDev: boolean;
+  getRoutes: () => Promise<LoadedRoute[]>;
+  config?: FrameworkConfig;
+}
+
+interface IsrGlobalState {
+  /** Registered by setupRoutes, used by revalidatePath/revalidateRoute */
+  revalidation: StaticRevalidationOptions | null;
+  /** Regenerations in progress, keyed by output directory (one render per path at a time) */
+  inFlight: Map<string, Promise<boolean>>;
+  /** Output paths persisted by dynamicParams, oldest first (loaded from DYNAMIC_PAGES_FILE) */
+  dynamicPages: string[] | null;
+}
+
+/**
+ * Default maximum number of pages persisted by `dynamicParams` (`rendering.maxDynamicPages`).
+ */
+export const DEFAULT_MAX_DYNAMIC_PAGES = 1000;
+
+// Index of the pages persisted by dynamicParams, kept in the SSG directory across restarts
+const DYNAMIC_PAGES_FILE = "dynamic-pages.json";
+
+// Kept on globalThis, not in module scope: the server runs from the CLI bundle while
+// revalidatePath/revalidateRoute are imported from the package entry, a separate bundle
+const ISR_STATE_KEY = Symbol.for("loly.isr");
+
+function getIsrState(): IsrGlobalState {
+  const globalState = globalThis as typeof globalThis & { [ISR_STATE_KEY]?: IsrGlobalState };
+  globalState[ISR_STATE_KEY] ??= { revalidation: null, inFlight: new Map(), dynamicPages: null };
+  return globalState[ISR_STATE_KEY];
+}
+
+export interface RegenerateStaticPageOptions {
+  projectRoot: string;
+  ssgOutDir: string;
+  route: LoadedRoute;
+  urlPath: string;
+  params: Record<string, string>;
+  config?: FrameworkConfig;
+  /** Locale variant of the page (config.i18n) */
+  localeInfo?: LocaleInfo;
+}
+
+/**
+ * Checks that the output directory of a URL stays inside the SSG directory
+ * (e.g. rejects paths with ".." segments).
+ */
+function isInsideSsgDir(ssgOutDir: string, urlPath: string): boolean {
+  const root = path.resolve(ssgOutDir);
+  const outDir = path.resolve(getSsgDirForPath(ssgOutDir, urlPath));
+  return outDir === root || outDir.startsWith(root + path.sep);
+}
+
+/**
+ * Checks whether SSG output exists for a URL.
+ *
+ * @param ssgOutDir - SSG output directory
+ * @param urlPath - URL path
+ * @returns True if index.html exists for the path
+ */
+export function hasSsgOutput(ssgOutDir: string, urlPath: string): boolean {
+  return fs.existsSync(getSsgHtmlPath(ssgOutDir, urlPath));
+}
+
+/**
+ * Checks whether SSG output for a URL is older than `revalidate` seconds.
+ *
+ * @param ssgOutDir - SSG output directory
+ * @param urlPath - URL path
+ * @param revalidate - Revalidation interval in seconds
+ * @returns True if the output exists and is stale
+ */
+export function isSsgStale(
+  ssgOutDir: string,
+  urlPath: string,
+  revalidate: number
+): boolean {
+  try {
+    const { mtimeMs } = fs.statSync(getSsgHtmlPath(ssgOutDir, urlPath));
+    return Date.now() - mtimeMs > revalidate * 1000;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Re-renders a static page with `renderStaticRoute` and swaps its files in place.
+ * Concurrent calls for the same path share a single render.
+ *
+ * @param options - Route, URL and output directory to regenerate
+ * @returns True if the page was written, false if it was skipped or failed
+ *
+ * @example
+ * await regenerateStaticPage({
+ *   projectRoot,
+ *   ssgOutDir,
+ *   route,
+ *   urlPath: '/blog/my-post',
+ *   params: { slug: 'my-post' },
+ * });
+ */
+export function regenerateStaticPage(
+  options: RegenerateStaticPageOptions
+): Promise<boolean> {
+  const { projectRoot, ssgOutDir, route, urlPath, params, config, localeInfo } = options;
+  const outputPath = getLocaleOutputPath(urlPath, localeInfo);
+  const outDir = path.resolve(getSsgDirForPath(ssgOutDir, outputPath));
+
+  if (!isInsideSsgDir(ssgOutDir, outputPath)) {
+    logger.warn("Refusing to regenerate path outside SSG directory", { urlPath });
+    return Promise.resolve(false);
+  }
+
+  const { inFlight } = getIsrState();
+  const pending = inFlight.get(outDir);
+  if (pending) {
+    return pending;
+  }
+
+  const promise = (async () => {
+    try {
+      const written = await renderStaticRoute(
+        projectRoot,
+        ssgOutDir,
+        route,
+        urlPath,
+        params,
+        config,
+        localeInfo
+      );
+      if (written) {
+        logger.info("Regenerated static page", {
+          urlPath,
+          locale: localeInfo?.locale,
+          pattern: route.pattern,
+        });
+      }
+      return written;
+    } catch (error) {
+      logger.error("Error regenerating static page", error, {
+        urlPath,
+        pattern: route.pattern,
+      });
+      return false;
+    } finally {
+      inFlight.delete(outDir);
+    }
+  })();
+
+  inFlight.set(outDir, promise);
+  return promise;
+}
+
+/**
+ * Reads the index of the pages persisted by dynamicParams.
+ */
+function loadDynamicPages(ssgOutDir: string): string[] {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(path.join(ssgOutDir, DYNAMIC_PAGES_FILE), "utf-8"));
+    return Array.isArray(parsed) ? parsed.filter((p): p is string => typeof p === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Renders and persists a path not generated at build time (`dynamicParams`).
+ *
+ * Only pages that render (not redirects, notFound or errors) are written. At most
+ * `rendering.maxDynamicPages` pages are kept: when a new one goes over the limit,
+ * the oldest persisted one is removed and is rendered again on its next request.
+ *
+ * @param options - Route, URL and output directory of the new page
+ * @returns True if the page was written
+ */
+export async function generateDynamicPage(
+  options: RegenerateStaticPageOptions
+): Promise<boolean> {
+  const written = await regenerateStaticPage(options);
+  if (!written) return false;
+
+  const { ssgOutDir, urlPath, localeInfo, config } = options;
+  const outputPath = getLocaleOutputPath(urlPath, localeInfo);
+  const maxPages = config?.rendering.maxDynamicPages ?? DEFAULT_MAX_DYNAMIC_PAGES;
+
+  const state = getIsrState();
+  const pages = (state.dynamicPages ??= loadDynamicPages(ssgOutDir)).filter((p) => p !== outputPath);
+  pages.push(outputPath);
+
+  const evicted = pages.splice(0, Math.max(0, pages.length - maxPages));
+  for (const evictedPath of evicted) {
+    removeSsgOutput(ssgOutDir, evictedPath);
+  }
+  state.dynamicPages = pages;
+
+  try {
+    fs.writeFileSync(path.join(ssgOutDir, DYNAMIC_PAGES_FILE), JSON.stringify(pages), "utf-8");
+  } catch (error) {
+    logger.warn("Could not write the dynamic pages index", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  if (evicted.length > 0) {
+    logger.debug("Removed dynamic pages over the limit", { evicted, maxPages });
+  }
+  return true;
+}
+
+/**
+ * Regenerates a static page in the background if its output is older than
+ * the route's `revalidate` interval. The stale files keep being served until
+ * the new ones are swapped in.
+ *
+ * @param options - Route, URL and output directory to check
+ */
+export function revalidateStaticPageIfStale(
+  options: RegenerateStaticPageOptions
+): void {
+  const { route, ssgOutDir, urlPath, localeInfo } = options;
+  if (!route.revalidate) return;
+  if (!isSsgStale(ssgOutDir, getLocaleOutputPath(urlPath, localeInfo), route.revalidate)) return;
+
+  void regenerateStaticPage(options);
+}
+
+/**
+ * Registers the runtime state needed by `revalidatePath` and `revalidateRoute`.
+ * Called once by `setupRoutes` when the server starts.
+ *
+ * @param options - Project root, SSG directory and route source
+ */
+export function setupStaticRevalidation(options: StaticRevalidationOptions): void {
+  getIsrState().revalidation = options;
+}
+
+/**
+ * Removes the SSG files of a URL so the next request falls back to SSR.
+ */
+function removeSsgOutput(ssgOutDir: string, urlPath: string): void {
+  if (!isInsideSsgDir(ssgOutDir, urlPath)) return;
+
+  for (const file of [getSsgHtmlPath(ssgOutDir, urlPath), getSsgDataPath(ssgOutDir, urlPath)]) {
+    try {
+      fs.rmSync(file, { force: true });
+    } catch (error) {
+      logger.warn("Could not remove SSG file", {
+        file,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+/**
+ * Lists URL paths that currently have SSG output (index.html) on disk.
+ */
+function listSsgPaths(ssgOutDir: string): string[] {
+  const paths: string[] = [];
+
+  function walk(dir: string) {
+    if (!fs.existsSync(dir)) return;
+    for (const item of fs.readdirSync(dir, { withFileTypes: true })) {
+      const full = path.join(dir, item.name);
+      if (item.isDirectory()) {
+        walk(full);
+      } else if (item.isFile() && item.name === "index.html") {
+        const rel = path.relative(ssgOutDir, path.dirname(full)).split(path.sep).join("/");
+        paths.push(rel ? `/${rel}` : "/");
+      }
+    }
+  }
+
+  walk(ssgOutDir);
+  return paths;
+}
+
+/**
+ * Re-renders the SSG output of a URL now (on-demand revalidation).
+ *
+ * Matches the path against the page routes; for `force-static` routes it
+ * re-runs `renderStaticRoute` and swaps `index.html` and `data.json`. If the
+ * page now redirects or is not found, or the route is no longer static, the
+ * stale files are removed so the next request is rendered on the server.
+ *
+ * With config.i18n, a path with a locale prefix (e.g. '/es/blog/my-post') revalidates
+ * that locale only (for every domain); a path without prefix revalidates every locale.
+ *
+ * Only has effect in production, where SSG output is served.
+ *
+ * @param urlPath - URL path to revalidate (e.g. '/blog/my-post')
+ * @returns True if the page was regenerated
+ *
+ * @example
+ * // app/api/cms-webhook/route.ts
+ * import { revalidatePath } from "@lolyjs/core";
+ *
+ * export async function POST(ctx: ApiContext) {
+ *   await revalidatePath(`/blog/${ctx.req.body.slug}`);
+ *   return ctx.Response({ revalidated: true });
+ * }
+ */
+export async function revalidatePath(urlPath: string): Promise<boolean> {
+  const revalidationState = getIsrState().revalidation;
+  if (!revalidationState) {
+    logger.warn("revalidatePath called before the server was started", { urlPath });
+    return false;
+  }
+
+  const { projectRoot, ssgOutDir, isDev, getRoutes, config } = revalidationState;
+  if (isDev) {
+    logger.debug("Skipping revalidatePath in development", { urlPath });
+    return false;
+  }
+
+  const { locale, path: appPath } = splitLocale(urlPath.split("?")[0]);
+  const normalizedPath = appPath.replace(/\/$/, "") || "/";
+  const localeVariants = getLocaleVariants().filter((variant) => !locale || variant.locale === locale);
+  const variants: Array<LocaleInfo | undefined> = localeVariants.length > 0 ? localeVariants : [undefined];
+  const matched = matchRoute(await getRoutes(), normalizedPath);
+
+  if (!matched || matched.route.dynamic !== "force-static") {
+    for (const localeInfo of variants) {
+      removeSsgOutput(ssgOutDir, getLocaleOutputPath(normalizedPath, localeInfo));
+    }
+    return false;
+  }
+
+  let revalidated = false;
+  for (const localeInfo of variants) {
+    const written = await regenerateStaticPage({
+      projectRoot,
+      ssgOutDir,
+      route: matched.route,
+      urlPath: normalizedPath,
+      params: matched.params,
+      config,
+      localeInfo,
+    });
+
+    if (written) {
+      revalidated = true;
+    } else {
+      removeSsgOutput(ssgOutDir, getLocaleOutputPath(normalizedPath, localeInfo));
+    }
+  }
+
+  return revalidated;
+}
+
+/**
+ * Re-renders the SSG output of a route pattern now (on-demand revalidation).
+ *
+ * With `params`, only the URL built from the pattern is revalidated.
+ * Without `params`, every URL of that route currently generated on disk is revalidated.
+ *
+ * @param pattern - Route pattern (e.g. '/blog/[slug]')
+ * @param params - Optional route parameters
+ * @returns URL paths that were regenerated
+ *
+ * @example
+ * await revalidateRoute("/blog/[slug]", { slug: "my-post" });
+ * await revalidateRoute("/blog/[slug]"); // All generated posts
+ */
+export async function revalidateRoute(
+  pattern: string,
+  params?: Record<string, string>
+): Promise<string[]> {
+  const revalidationState = getIsrState().revalidation;
+  if (!revalidationState) {
+    logger.warn("revalidateRoute called before the server was started", { pattern });
+    return [];
+  }
+
+  const { ssgOutDir, isDev, getRoutes } = revalidationState;
+  if (isDev) {
+    logger.debug("Skipping revalidateRoute in development", { pattern });
+    return [];
+  }
+
+  const route = (await getRoutes()).find((r) => r.pattern === pattern);
+  if (!route) {
+    logger.warn("revalidateRoute: no route found for pattern", { pattern });
+    return [];
+  }
+
+  // Generated paths are listed as app paths: revalidatePath covers every locale variant
+  const urlPaths =
+    params || route.paramNames.length === 0
+      ? [buildPathFromPattern(route.pattern, params ?? {})]
+      : [...new Set(listSsgPaths(ssgOutDir).map(getAppPathFromOutputPath))].filter((p) =>
+          route.regex.test(p)
+        );
+
+  const revalidated: string[] = [];
+  for (const urlPath of urlPaths) {
+    if (await revalidatePath(urlPath)) {
+      revalidated.push(urlPath);
+    }
+  }
+
+  return revalidated;
+}
@@ -1,3 +1,4 @@
+import crypto from "crypto";
 import { Request, Response } from "express";
 import { renderToPipeableStream } from "react-dom/server";
 import {
@@ -6,26 +7,41 @@ import {
   LoaderResult,
   matchRoute,
   RewriteLoader,
-  processRewrites,
   RedirectResponse,
   NotFoundResponse,
+  applyRouteCasing,
+  type ActionResult,
 } from "@router/index";
 import {
   buildAppTree,
   buildInitialData,
   createDocumentTree,
   buildRouterData,
+  collectDeferredProps,
+  resolveDeferredProps,
 } from "@rendering/index";
 import { runRouteMiddlewares } from "./middleware";
 import { runRouteServerHook } from "./server-hook";
+import { hasParallelLayoutHooks, scheduleServerHooks, type ScheduledServerHooks } from "./parallel-hooks";
 import { handleDataResponse, handleRedirect, handleNotFound } from "./response";
 import { loadGlobalMiddlewares, runGlobalMiddlewares } from "../global-middleware";
 import { tryServeSsgHtml, tryServeSsgData } from "./ssg";
+import { generateDynamicPage, hasSsgOutput, revalidateStaticPageIfStale } from "./isr";
+import { runRouteAction, getActionName, isSameOriginRequest } from "./action";
+import { getRequestLocale } from "./i18n";
+import { applyRouteHeaders, sendRenderValidators } from "./route-headers";
+import { setValidatedSearchParams, validateRouteInput } from "./route-schemas";
+import { resolveRequestRewrite } from "./rewrites";
 import { ERROR_CHUNK_KEY, STATIC_PATH } from "@constants/globals";
+import { withBasePath } from "@runtime/client/base-path";
+import { isCaseSensitive, resolveHref } from "@runtime/client/routing-options";
 import { getClientJsPath, getClientCssPath, loadAssetManifest, getFaviconInfo } from "@build/utils";
+import { getLocaleOutputPath } from "@build/ssg/path";
 import { getStaticDir, type FrameworkConfig } from "@src/config";
 import { sanitizeParams } from "@security/sanitize";
 import { getRequestLogger } from "@logger/index";
+import { ValidationError } from "@validation/index";
+import { isBotRequest } from "../utils/bot";
 import path from "path";
 import type { PageMetadata } from "@router/index";
 
@@ -136,7 +152,9 @@ async function renderNotFoundPage(
     req,
     res,
     params: {},
+    query: req.query as Record<string, any>,
     pathname: urlPath,
+    locale: getRequestLocale(req)?.locale,
     locals: {},
     Redirect: (destination: string, permanent = false) => new RedirectResponse(destination, permanent),
     NotFound: () => new NotFoundResponse(),
@@ -260,7 +278,7 @@ async function renderNotFoundPage(
   // Get entrypoint files in order for preload
   const entrypointFiles: string[] = [];
   if (assetManifest?.entrypoints?.client) {
-    entrypointFiles.push(...assetManifest.entrypoints.client.map((file: string) => `${STATIC_PATH}/${file}`));
+    entrypointFiles.push(...assetManifest.entrypoints.client.map((file: string) => `${withBasePath(STATIC_PATH)}/${file}`));
   }
 
   const documentTree = createDocumentTree({
@@ -313,6 +331,33 @@ async function renderNotFoundPage(
   req.on("close", () => abort());
 }
 
+/**
+ * Default time (ms) before a streamed page aborts its pending Suspense boundaries
+ * (`rendering.streamTimeout`).
+ */
+const DEFAULT_STREAM_TIMEOUT = 10000;
+
+/**
+ * Gets a short hash identifying an error, sent to the client and logged with the error
+ * so a generic production message can be traced back to the server logs.
+ */
+function getErrorDigest(error: unknown): string {
+  const detail = error instanceof Error ? `${error.message}\n${error.stack ?? ""}` : String(error);
+  return crypto.createHash("sha1").update(detail).digest("hex").substring(0, 10);
+}
+
+/**
+ * Converts a page server hook error into the one shown by error.tsx and sent to the client.
+ * Outside development the message is generic: server messages can contain internal details.
+ */
+function toPublicError(error: unknown, digest: string, env: "dev" | "prod"): Error & { digest: string } {
+  const message =
+    env === "dev"
+      ? error instanceof Error ? error.message : String(error)
+      : "An error occurred while loading this page";
+  return Object.assign(new Error(message), { digest });
+}
+
 /**
  * Handles a page route request.
  * Unifies logic between dev and prod (with SSG support in prod).
@@ -369,10 +414,10 @@ async function handlePageRequestInternal(
   
   if (rewriteLoader) {
     try {
-      const compiledRewrites = await rewriteLoader.loadRewrites();
-      const rewriteResult = await processRewrites(urlPath, compiledRewrites, req);
+      const rewriteResult = await resolveRequestRewrite(req, urlPath, rewriteLoader);
       
-      if (rewriteResult) {
+      // Proxied rewrites (absolute URLs) are handled before page routing
+      if (rewriteResult && !rewriteResult.external) {
         finalUrlPath = rewriteResult.rewrittenPath;
         extractedParams = rewriteResult.extractedParams;
         
@@ -419,11 +464,11 @@ async function handlePageRequestInternal(
 
   // Get asset paths - in dev, always use non-hashed names; in prod, use manifest if available
   const clientJsPath = env === "dev" 
-    ? "/static/client.js" 
-    : (projectRoot ? getClientJsPath(projectRoot) : "/static/client.js");
+    ? withBasePath("/static/client.js") 
+    : (projectRoot ? getClientJsPath(projectRoot) : withBasePath("/static/client.js"));
   const clientCssPath = env === "dev"
-    ? "/static/client.css"
-    : (projectRoot ? getClientCssPath(projectRoot) : "/static/client.css");
+    ? withBasePath("/static/client.css")
+    : (projectRoot ? getClientCssPath(projectRoot) : withBasePath("/static/client.css"));
   const assetManifest = env === "prod" && projectRoot ? loadAssetManifest(projectRoot) : null;
 
   // Detect favicon
@@ -437,13 +482,82 @@ async function handlePageRequestInternal(
   // Only skip for data requests, never for HTML requests (initial load)
   const skipLayoutHooks = isDataReq && req.headers["x-skip-layout-hooks"] === "true";
 
-  if (env === "prod" && ssgOutDir) {
+  // routing.caseSensitive: false matches any casing; redirect to the declared one (308)
+  // so each page has a single URL. Rewritten paths are internal and keep their casing.
+  const normalizedUrlPath = urlPath.replace(/\/$/, "") || "/";
+  if (
+    !isCaseSensitive() &&
+    (req.method === "GET" || req.method === "HEAD") &&
+    !isDataReq &&
+    finalUrlPath === normalizedUrlPath
+  ) {
+    const casingMatch = matchRoute(routes, finalUrlPath);
+    const canonicalPath = casingMatch && applyRouteCasing(casingMatch.route.pattern, urlPath);
+    if (canonicalPath && canonicalPath !== urlPath) {
+      const queryIndex = req.originalUrl.indexOf("?");
+      const search = queryIndex === -1 ? "" : req.originalUrl.slice(queryIndex);
+      res.redirect(308, resolveHref(canonicalPath, getRequestLocale(req)) + search);
+      return;
+    }
+  }
+
+  // POST requests (server actions) are always rendered on the server
+  if (env === "prod" && ssgOutDir && req.method !== "POST") {
+    // config.i18n: each locale (and domain default locale) has its own static output
+    const localeInfo = getRequestLocale(req);
+    const ssgMatch = matchRoute(routes, finalUrlPath);
+    // Data requests and rewrites aren't redirected to the declared casing: read and
+    // persist the static output under it so each casing doesn't write its own copy
+    const ssgUrlPath =
+      ssgMatch && !isCaseSensitive() ? applyRouteCasing(ssgMatch.route.pattern, finalUrlPath) : finalUrlPath;
+    const ssgPath = getLocaleOutputPath(ssgUrlPath, localeInfo);
+
+    // Incremental Static Regeneration for force-static routes
+    if (projectRoot && ssgMatch && ssgMatch.route.dynamic === "force-static") {
+      const isrOptions = {
+        projectRoot,
+        ssgOutDir,
+        route: ssgMatch.route,
+        urlPath: ssgUrlPath,
+        params: sanitizeParams(ssgMatch.params),
+        config,
+        localeInfo,
+      };
+
+      if (!hasSsgOutput(ssgOutDir, ssgPath)) {
+        // dynamicParams: render paths not generated at build time once and persist them
+        // (up to rendering.maxDynamicPages)
+        if (ssgMatch.route.dynamicParams) {
+          await generateDynamicPage(isrOptions);
+        }
+      } else {
+        // Serve the current files, regenerate in the background if stale
+        revalidateStaticPageIfStale(isrOptions);
+      }
+    }
+
+    // Route `headers` / `cache` apply to the static files too
+    if (ssgMatch && (ssgMatch.route.headers || ssgMatch.route.cache != null) && hasSsgOutput(ssgOutDir, ssgPath)) {
+      const ssgCtx: ServerContext = {
+        req,
+        res,
+        params: sanitizeParams(ssgMatch.params),
+        query: req.query as Record<string, any>,
+        pathname: urlPath,
+        locale: localeInfo?.locale,
+        locals: {},
+        Redirect: (destination: string, permanent = false) => new RedirectResponse(destination, permanent),
+        NotFound: () => new NotFoundResponse(),
+      };
+      await applyRouteHeaders(res, ssgMatch.route, ssgCtx);
+    }
+
     if (isDataReq) {
-      if (tryServeSsgData(res, ssgOutDir, finalUrlPath)) {
+      if (tryServeSsgData(res, ssgOutDir, ssgPath)) {
         return;
       }
     } else {
-      if (tryServeSsgHtml(res, ssgOutDir, finalUrlPath)) {
+      if (tryServeSsgHtml(res, ssgOutDir, ssgPath)) {
         return;
       }
     }
@@ -511,6 +625,8 @@ async function handlePageRequestInternal(
   }
 
   const { route, params } = matched;
+  // ctx.NotFound() renders the nearest _not-found.tsx of the route (or the app-level one)
+  const segmentNotFoundPage = route.notFound ?? notFoundPage;
 
   // Security: Sanitize route parameters
   const sanitizedParams = sanitizeParams(params);
@@ -519,7 +635,9 @@ async function handlePageRequestInternal(
     req,
     res,
     params: sanitizedParams,
+    query: req.query as Record<string, any>,
     pathname: urlPath,
+    locale: getRequestLocale(req)?.locale,
     locals: {},
     Redirect: (destination: string, permanent = false) => new RedirectResponse(destination, permanent),
     NotFound: () => new NotFoundResponse(),
@@ -531,57 +649,198 @@ async function handlePageRequestInternal(
     return;
   }
 
+  // `params` / `searchParams` schemas are validated before the route middlewares (beforeServerData)
+  const input = validateRouteInput(route, { params: ctx.params, query: ctx.query });
+  if (!input.success) {
+    getRequestLogger(req).warn("Invalid route input", {
+      route: route.pattern,
+      message: input.error.message,
+      errors: input.error.format(),
+    });
+
+    if (isDataReq) {
+      res.statusCode = 400;
+      res.setHeader("Content-Type", "application/json; charset=utf-8");
+      res.end(JSON.stringify({
+        error: true,
+        message: input.error.message,
+        errors: input.error.format(),
+        route: route.pattern,
+      }));
+    } else if (errorPage) {
+      await renderErrorPageWithStream(errorPage, req, res, input.error, routeChunks, theme, projectRoot, env, config, notFoundPage);
+    } else {
+      res.statusCode = 400;
+      res.setHeader("Content-Type", "text/html; charset=utf-8");
+      res.end("<!doctype html><h1>400 - Bad Request</h1>");
+    }
+    return;
+  }
+
+  ctx.params = input.data.params;
+  ctx.query = input.data.query;
+  if (route.searchParamsSchema) {
+    // The client gets the parsed values as useRouter().searchParams
+    setValidatedSearchParams(req, ctx.query);
+    routerData.searchParams = ctx.query;
+  }
+
   await runRouteMiddlewares(route, ctx);
   if (res.headersSent) {
     return;
   }
 
+  // 0. Server actions: a POST runs the page's action, then the page is re-rendered with its result
+  let actionResult: ActionResult | null = null;
+  if (req.method === "POST") {
+    // Actions from other sites are refused (CSRF)
+    if (!isSameOriginRequest(req)) {
+      getRequestLogger(req).warn("Cross-origin server action refused", {
+        route: route.pattern,
+        origin: req.get("origin") ?? req.get("referer"),
+      });
+      res.statusCode = 403;
+      if (isDataReq) {
+        res.setHeader("Content-Type", "application/json; charset=utf-8");
+        res.end(JSON.stringify({ error: true, message: "Cross-origin request refused" }));
+      } else {
+        res.setHeader("Content-Type", "text/html; charset=utf-8");
+        res.end("<!doctype html><h1>403 - Forbidden</h1>");
+      }
+      return;
+    }
+
+    let actionOutcome: ActionResult | RedirectResponse | null;
+    try {
+      actionOutcome = await runRouteAction(route, ctx);
+    } catch (error) {
+      getRequestLogger(req).error("Server action failed", error, {
+        route: route.pattern,
+        action: getActionName(req),
+      });
+      if (isDataReq) {
+        res.statusCode = 500;
+        res.setHeader("Content-Type", "application/json; charset=utf-8");
+        res.end(JSON.stringify({
+          error: true,
+          // Error details stay in the server logs outside development
+          message: env === "dev"
+            ? error instanceof Error ? error.message : String(error)
+            : "Server action failed",
+          route: route.pattern,
+        }));
+        return;
+      }
+      throw error;
+    }
+
+    if (!actionOutcome) {
+      res.statusCode = 405;
+      res.setHeader("Allow", "GET, HEAD");
+      if (isDataReq) {
+        res.setHeader("Content-Type", "application/json; charset=utf-8");
+        res.end(JSON.stringify({ error: true, message: `No action "${getActionName(req)}" for ${route.pattern}` }));
+      } else {
+        res.setHeader("Content-Type", "text/html; charset=utf-8");
+        res.end("<!doctype html><h1>405 - Method Not Allowed</h1>");
+      }
+      return;
+    }
+
+    if (actionOutcome instanceof RedirectResponse) {
+      if (isDataReq) {
+        res.statusCode = 200;
+        res.setHeader("Content-Type", "application/json; charset=utf-8");
+        res.end(JSON.stringify({ redirect: { destination: actionOutcome.destination, permanent: actionOutcome.permanent } }));
+      } else {
+        // 303 See Other: the browser follows with a GET (Post/Redirect/Get)
+        res.redirect(303, resolveHref(actionOutcome.destination, getRequestLocale(req)));
+      }
+      return;
+    }
+
+    actionResult = actionOutcome;
+
+    // JSON calls from the client only need the result; the client revalidates the route data itself
+    if (isDataReq) {
+      res.statusCode = actionResult.ok ? 200 : 400;
+      res.setHeader("Content-Type", "application/json; charset=utf-8");
+      res.end(JSON.stringify({ action: actionResult }));
+      return;
+    }
+  }
+
   // 1. Execute layout server hooks (root → specific) and collect props + metadata
   // Skip layout hooks if client requested it (SPA navigation optimization)
   const layoutProps: Record<string, any> = {};
   const layoutMetadata: Array<LoaderResult["metadata"]> = [];
   const reqLogger = getRequestLogger(req);
 
+  // Executes the middlewares of a layout (beforeServerData).
+  // Returns false if a middleware already sent the response (e.g., redirect)
+  const runLayoutMiddlewares = async (i: number): Promise<boolean> => {
+    const layoutMiddlewares = route.layoutMiddlewares?.[i] || [];
+    for (const mw of layoutMiddlewares) {
+      try {
+        await Promise.resolve(
+          mw(ctx, async () => {
+            /* no-op */
+          })
+        );
+      } catch (error) {
+        const layoutFile = route.layoutFiles[i];
+        const relativeLayoutPath = layoutFile
+          ? path.relative(projectRoot || process.cwd(), layoutFile)
+          : "unknown";
+        
+        reqLogger.error("Layout middleware failed", error instanceof Error ? error : new Error(String(error)), {
+          route: route.pattern,
+          layoutIndex: i,
+          layoutFile: relativeLayoutPath,
+        });
+        
+        // Re-throw to be handled by the route handler
+        throw error;
+      }
+      
+      // Stop executing if response was sent (e.g., redirect)
+      if (ctx.res.headersSent) {
+        return false;
+      }
+    }
+    return true;
+  };
+
+  // Layouts with `export const parallel = true` run their hooks concurrently with the page hook.
+  // Middlewares still run in order first; results are consumed root → specific below,
+  // so prop merging and redirect/not-found precedence stay the same
+  let scheduledHooks: ScheduledServerHooks | null = null;
+  if (!skipLayoutHooks && hasParallelLayoutHooks(route)) {
+    for (let i = 0; i < route.layoutServerHooks!.length; i++) {
+      if (!(await runLayoutMiddlewares(i))) {
+        return;
+      }
+    }
+    scheduledHooks = scheduleServerHooks(route, ctx, true);
+  }
+
   if (!skipLayoutHooks && route.layoutServerHooks && route.layoutServerHooks.length > 0) {
     for (let i = 0; i < route.layoutServerHooks.length; i++) {
       const layoutServerHook = route.layoutServerHooks[i];
-      const layoutMiddlewares = route.layoutMiddlewares?.[i] || [];
       
       // Execute layout middlewares before layout hook
-      if (layoutMiddlewares.length > 0) {
-        for (const mw of layoutMiddlewares) {
-          try {
-            await Promise.resolve(
-              mw(ctx, async () => {
-                /* no-op */
-              })
-            );
-          } catch (error) {
-            const layoutFile = route.layoutFiles[i];
-            const relativeLayoutPath = layoutFile
-              ? path.relative(projectRoot || process.cwd(), layoutFile)
-              : "unknown";
-            
-            reqLogger.error("Layout middleware failed", error instanceof Error ? error : new Error(String(error)), {
-              route: route.pattern,
-              layoutIndex: i,
-              layoutFile: relativeLayoutPath,
-            });
-            
-            // Re-throw to be handled by the route handler
-            throw error;
-          }
-          
-          // Stop executing if response was sent (e.g., redirect)
-          if (ctx.res.headersSent) {
-            return;
-          }
-        }
+      if (!scheduledHooks && !(await runLayoutMiddlewares(i))) {
+        return;
       }
       
       if (layoutServerHook) {
         try {
-          const layoutResult = await layoutServerHook(ctx);
+          const layoutResult: LoaderResult | RedirectResponse | NotFoundResponse | null = scheduledHooks
+            ? await scheduledHooks.layouts[i]
+            : await layoutServerHook(ctx);
+          if (!layoutResult) {
+            continue;
+          }
           
           // Check for RedirectResponse or NotFoundResponse in layout hooks
           if (layoutResult instanceof RedirectResponse) {
@@ -597,14 +856,14 @@ async function handlePageRequestInternal(
           
           if (layoutResult instanceof NotFoundResponse) {
             if (isDataReq) {
-              res.statusCode = 200;
+              res.statusCode = 404;
               res.setHeader("Content-Type", "application/json; charset=utf-8");
               res.end(JSON.stringify({ notFound: true }));
             } else {
-              // Render the not-found page instead of simple HTML
-              if (notFoundPage) {
+              // Render the nearest not-found page instead of simple HTML
+              if (segmentNotFoundPage) {
                 await renderNotFoundPage(
-                  notFoundPage,
+                  segmentNotFoundPage,
                   req,
                   res,
                   urlPath,
@@ -659,8 +918,12 @@ async function handlePageRequestInternal(
 
   // 2. Execute page server hook (getServerSideProps)
   let loaderResult: LoaderResult | RedirectResponse | NotFoundResponse;
+  // Page server hook error shown by the nearest error.tsx of the route (HTML requests)
+  let segmentError: (Error & { digest: string }) | null = null;
   try {
-    loaderResult = await runRouteServerHook(route, ctx);
+    loaderResult = scheduledHooks
+      ? (await scheduledHooks.page) ?? { props: {} }
+      : await runRouteServerHook(route, ctx);
     
     // Check for RedirectResponse or NotFoundResponse BEFORE combining props/metadata
     if (loaderResult instanceof RedirectResponse) {
@@ -676,14 +939,14 @@ async function handlePageRequestInternal(
     
     if (loaderResult instanceof NotFoundResponse) {
       if (isDataReq) {
-        res.statusCode = 200;
+        res.statusCode = 404;
         res.setHeader("Content-Type", "application/json; charset=utf-8");
         res.end(JSON.stringify({ notFound: true }));
       } else {
-        // Render the not-found page instead of simple HTML
-        if (notFoundPage) {
+        // Render the nearest not-found page instead of simple HTML
+        if (segmentNotFoundPage) {
           await renderNotFoundPage(
-            notFoundPage,
+            segmentNotFoundPage,
             req,
             res,
             urlPath,
@@ -721,9 +984,11 @@ async function handlePageRequestInternal(
       ? path.relative(projectRoot || process.cwd(), route.pageFile)
       : "unknown";
     
+    const digest = getErrorDigest(error);
     reqLogger.error("Page server hook failed", {
       error: error instanceof Error ? error.message : String(error),
       stack: error instanceof Error ? error.stack : undefined,
+      digest,
       pageFile: relativePagePath,
       route: route.pattern,
       pathname: urlPath,
@@ -737,12 +1002,17 @@ async function handlePageRequestInternal(
       res.setHeader("Content-Type", "application/json; charset=utf-8");
       const errorResponse = {
         error: true,
-        message: error instanceof Error ? error.message : String(error),
+        message: toPublicError(error, digest, env).message,
+        digest,
         route: route.pattern,
         pageFile: relativePagePath,
       };
       res.end(JSON.stringify(errorResponse, null, 2));
       return;
+    } else if (route.boundaries?.some((boundary) => boundary.error)) {
+      // The route has an error.tsx: render it inside the layouts instead of the error page
+      segmentError = toPublicError(error, digest, env);
+      loaderResult = { props: {}, theme };
     } else {
       // For HTML requests, render error page
       if (errorPage) {
@@ -759,6 +1029,7 @@ async function handlePageRequestInternal(
   const combinedProps = {
     ...layoutProps, // Props from layouts (stable)
     ...(pageLoaderResult.props || {}), // Props from page (overrides layout)
+    ...(actionResult && { actionData: actionResult }), // Result of the server action (POST)
   };
 
   // 4. Combine metadata: layout metadata (base) + page metadata (page overrides layout)
@@ -779,6 +1050,12 @@ async function handlePageRequestInternal(
     combinedMetadata = mergeMetadata(combinedMetadata, pageLoaderResult.metadata);
   }
 
+  // config.i18n: <html lang> defaults to the locale of the request
+  const requestLocale = getRequestLocale(req);
+  if (requestLocale && !combinedMetadata?.lang) {
+    combinedMetadata = { ...combinedMetadata, lang: requestLocale.locale };
+  }
+
   // Use combined props and metadata in loaderResult
   // Include rewritten pathname so client can match correctly
   const combinedLoaderResult: LoaderResult = {
@@ -788,16 +1065,21 @@ async function handlePageRequestInternal(
     pathname: finalUrlPath, // Include rewritten pathname for client-side matching
   };
 
+  // Route `headers` / `cache` (the cache policy is not applied to a failed render)
+  await applyRouteHeaders(res, segmentError ? { headers: route.headers } : route, ctx);
+
   if (isDataReq) {
     // For data requests, pass separated props:
     // - layoutProps: only if layout hooks were executed (not skipped)
     // - pageProps: always (from page.server.hook)
-    const pagePropsOnly = pageLoaderResult.props || {};
+    // Deferred props have no stream to fill later: wait for them and send resolved values
+    const pagePropsOnly = await resolveDeferredProps(pageLoaderResult.props || {});
+    const resolvedLayoutProps = await resolveDeferredProps(layoutProps);
     handleDataResponse(
       res,
-      combinedLoaderResult,
+      { ...combinedLoaderResult, props: await resolveDeferredProps(combinedProps) },
       theme,
-      skipLayoutHooks ? null : (Object.keys(layoutProps).length > 0 ? layoutProps : null),
+      skipLayoutHooks ? null : (Object.keys(resolvedLayoutProps).length > 0 ? resolvedLayoutProps : null),
       pagePropsOnly
     );
     return;
@@ -806,7 +1088,26 @@ async function handlePageRequestInternal(
   // Use finalUrlPath (rewritten) for initialData so client can match correctly
   // The original urlPath is preserved in the browser, but the client needs the rewritten path to match routes
   const initialData = buildInitialData(finalUrlPath, params, combinedLoaderResult);
-  const appTree = buildAppTree(route, params, initialData.props);
+  if (segmentError) {
+    initialData.segmentError = { message: segmentError.message, digest: segmentError.digest };
+  }
+  // The app renders with the deferred promises; initial data carries placeholders instead
+  const appTree = buildAppTree(route, params, initialData.props, { error: segmentError });
+  const { serializableProps, entries: deferredEntries } = collectDeferredProps(initialData.props);
+
+  // Cacheable HTML is validated by the data it renders (only in prod, where the asset
+  // manifest identifies the build; deferred values are not known yet)
+  if (
+    assetManifest &&
+    deferredEntries.length === 0 &&
+    sendRenderValidators(
+      res,
+      { initialData: { ...initialData, props: serializableProps }, theme },
+      JSON.stringify(assetManifest)
+    )
+  ) {
+    return;
+  }
 
   // Get chunk href with hash if available
   const chunkName = routeChunks[route.pattern];
@@ -814,10 +1115,10 @@ async function handlePageRequestInternal(
   if (chunkName != null) {
     if (assetManifest && assetManifest.chunks[chunkName]) {
       // Use hashed filename from manifest
-      chunkHref = `${STATIC_PATH}/${assetManifest.chunks[chunkName]}`;
+      chunkHref = `${withBasePath(STATIC_PATH)}/${assetManifest.chunks[chunkName]}`;
     } else {
       // Fallback to non-hashed filename
-      chunkHref = `${STATIC_PATH}/${chunkName}.js`;
+      chunkHref = `${withBasePath(STATIC_PATH)}/${chunkName}.js`;
     }
   }
 
@@ -827,13 +1128,14 @@ async function handlePageRequestInternal(
   // Get entrypoint files in order (runtime, vendor, commons, entry) for preload
   const entrypointFiles: string[] = [];
   if (assetManifest?.entrypoints?.client) {
-    entrypointFiles.push(...assetManifest.entrypoints.client.map(file => `${STATIC_PATH}/${file}`));
+    entrypointFiles.push(...assetManifest.entrypoints.client.map(file => `${withBasePath(STATIC_PATH)}/${file}`));
   }
 
   const documentTree = createDocumentTree({
     appTree,
-    initialData,
+    initialData: { ...initialData, props: serializableProps },
     routerData,
+    deferred: deferredEntries,
     meta: combinedLoaderResult.metadata,
     titleFallback: "Loly framework",
     descriptionFallback: "Loly demo",
@@ -849,15 +1151,32 @@ async function handlePageRequestInternal(
 
   let didError = false;
 
+  // Crawlers (and apps with streaming disabled) get the complete HTML,
+  // with every Suspense boundary and deferred value already resolved
+  const waitForAllReady = isBotRequest(req) || config?.rendering?.streaming === false;
+
+  const sendDocument = () => {
+    if (didError || res.headersSent) {
+      return;
+    }
+
+    // Failed validation in a server action re-renders the page with a 400
+    res.statusCode = segmentError ? 500 : actionResult && !actionResult.ok ? 400 : 200;
+    res.setHeader("Content-Type", "text/html; charset=utf-8");
+    pipe(res);
+  };
+
   const { pipe, abort } = renderToPipeableStream(documentTree, {
     onShellReady() {
-      if (didError || res.headersSent) {
-        return;
+      if (!waitForAllReady) {
+        sendDocument();
       }
+    },
 
-      res.statusCode = 200;
-      res.setHeader("Content-Type", "text/html; charset=utf-8");
-      pipe(res);
+    onAllReady() {
+      if (waitForAllReady) {
+        sendDocument();
+      }
     },
 
     onShellError(err) {
@@ -886,7 +1205,8 @@ async function handlePageRequestInternal(
     },
 
     onError(err) {
-      didError = true;
+      // Shell errors are handled in onShellError; errors inside a Suspense boundary
+      // (loading.tsx / error.tsx segments) are rendered on the client, so the document is still sent
       const reqLogger = getRequestLogger(req);
       const routePattern = matched?.route?.pattern || "unknown";
       reqLogger.error("SSR error", err, { route: routePattern });
@@ -897,7 +1217,20 @@ async function handlePageRequestInternal(
     },
   });
 
+  // Deferred values that never settle must not keep the response open: after
+  // rendering.streamTimeout, pending boundaries are aborted and rendered on the client
+  const streamTimeout = config?.rendering?.streamTimeout ?? DEFAULT_STREAM_TIMEOUT;
+  const abortTimer = setTimeout(() => {
+    if (waitForAllReady) {
+      // onAllReady won't fire for the pending boundaries: send what is ready
+      sendDocument();
+    }
+    abort(new Error(`SSR stream timed out after ${streamTimeout}ms`));
+  }, streamTimeout);
+
+  res.on("close", () => clearTimeout(abortTimer));
   req.on("close", () => {
+    clearTimeout(abortTimer);
     abort();
   });
 }
@@ -932,7 +1265,9 @@ async function renderErrorPageWithStream(
       req,
       res,
       params: { error: String(error) },
+      query: req.query as Record<string, any>,
       pathname: req.path,
+      locale: getRequestLocale(req)?.locale,
       locals: { error },
       Redirect: (destination: string, permanent = false) => new RedirectResponse(destination, permanent),
       NotFound: () => new NotFoundResponse(),
@@ -1056,11 +1391,11 @@ async function renderErrorPageWithStream(
         if (notFoundPage) {
           const notFoundAssetManifest = env === "prod" && projectRoot ? loadAssetManifest(projectRoot) : null;
           const notFoundClientJsPath = env === "dev" 
-            ? "/static/client.js" 
-            : (projectRoot ? getClientJsPath(projectRoot) : "/static/client.js");
+            ? withBasePath("/static/client.js") 
+            : (projectRoot ? getClientJsPath(projectRoot) : withBasePath("/static/client.js"));
           const notFoundClientCssPath = env === "dev"
-            ? "/static/client.css"
-            : (projectRoot ? getClientCssPath(projectRoot) : "/static/client.css");
+            ? withBasePath("/static/client.css")
+            : (projectRoot ? getClientCssPath(projectRoot) : withBasePath("/static/client.css"));
           const notFoundFaviconInfo = projectRoot && config
             ? getFaviconInfo(projectRoot, config.directories.static, env === "dev")
             : null;
@@ -1132,20 +1467,20 @@ async function renderErrorPageWithStream(
     // Get asset paths with hashes (if in production and manifest exists)
     // In dev, always use non-hashed names; in prod, use manifest if available
     const clientJsPath = env === "dev"
-      ? "/static/client.js"
-      : (projectRoot ? getClientJsPath(projectRoot) : "/static/client.js");
+      ? withBasePath("/static/client.js")
+      : (projectRoot ? getClientJsPath(projectRoot) : withBasePath("/static/client.js"));
     const clientCssPath = env === "dev"
-      ? "/static/client.css"
-      : (projectRoot ? getClientCssPath(projectRoot) : "/static/client.css");
+      ? withBasePath("/static/client.css")
+      : (projectRoot ? getClientCssPath(projectRoot) : withBasePath("/static/client.css"));
     const assetManifest = env === "prod" && projectRoot ? loadAssetManifest(projectRoot) : null;
 
     const chunkName = routeChunks[ERROR_CHUNK_KEY];
     let chunkHref: string | null = null;
     if (chunkName != null) {
       if (assetManifest && assetManifest.chunks[chunkName]) {
-        chunkHref = `${STATIC_PATH}/${assetManifest.chunks[chunkName]}`;
+        chunkHref = `${withBasePath(STATIC_PATH)}/${assetManifest.chunks[chunkName]}`;
       } else {
-        chunkHref = `${STATIC_PATH}/${chunkName}.js`;
+        chunkHref = `${withBasePath(STATIC_PATH)}/${chunkName}.js`;
       }
     }
 
@@ -1155,7 +1490,7 @@ async function renderErrorPageWithStream(
     // Get entrypoint files in order for preload
     const entrypointFiles: string[] = [];
     if (assetManifest?.entrypoints?.client) {
-      entrypointFiles.push(...assetManifest.entrypoints.client.map(file => `${STATIC_PATH}/${file}`));
+      entrypointFiles.push(...assetManifest.entrypoints.client.map(file => `${withBasePath(STATIC_PATH)}/${file}`));
     }
 
     const documentTree = createDocumentTree({
@@ -1182,7 +1517,8 @@ async function renderErrorPageWithStream(
           return;
         }
 
-        res.statusCode = 500;
+        // Invalid params / searchParams (route schemas) are a client error
+        res.statusCode = error instanceof ValidationError ? 400 : 500;
         res.setHeader("Content-Type", "text/html; charset=utf-8");
         pipe(res);
       },
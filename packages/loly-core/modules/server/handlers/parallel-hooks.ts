@@ -0,0 +1,97 @@
+import {
+  ServerContext,
+  LoadedRoute,
+  LoaderResult,
+  RedirectResponse,
+  NotFoundResponse,
+} from "@router/index";
+import { runRouteServerHook } from "./server-hook";
+
+type HookOutcome = LoaderResult | RedirectResponse | NotFoundResponse;
+
+/**
+ * Server hooks of a route, already started.
+ * `null` means the hook does not exist or was skipped.
+ */
+export interface ScheduledServerHooks {
+  /** Layout hook results, in the same order as layouts (root → specific) */
+  layouts: (Promise<HookOutcome | null> | null)[];
+  /** Page hook result (null if skipped because a layout hook short-circuited) */
+  page: Promise<HookOutcome | null>;
+}
+
+/**
+ * Checks whether any layout of the route opted into parallel execution
+ * (`export const parallel = true` in layout.server.hook.ts).
+ *
+ * @param route - Route definition
+ * @returns True if at least one layout hook runs in parallel
+ */
+export function hasParallelLayoutHooks(route: LoadedRoute): boolean {
+  return !!route.layoutServerHooks?.length && !!route.layoutParallel?.some(Boolean);
+}
+
+/**
+ * Starts the layout and page server hooks of a route.
+ *
+ * A parallel layout hook starts right away. Any other hook (including the page hook)
+ * waits for the non-parallel hooks before it, which keeps the sequential order between
+ * them. A hook is skipped if a hook before it returned a redirect or not-found, as in
+ * sequential execution.
+ *
+ * Results must be consumed in order (layouts root → specific, then page), so prop
+ * merging and redirect/not-found precedence match sequential execution.
+ *
+ * @param route - Route definition
+ * @param ctx - Server context
+ * @param runLayoutHooks - False when the client asked to skip layout hooks
+ * @returns Pending results of every hook
+ */
+export function scheduleServerHooks(
+  route: LoadedRoute,
+  ctx: ServerContext,
+  runLayoutHooks: boolean
+): ScheduledServerHooks {
+  const layoutHooks = runLayoutHooks ? route.layoutServerHooks ?? [] : [];
+  const layouts: ScheduledServerHooks["layouts"] = [];
+
+  // Lowest hook index that returned a redirect or not-found (hooks after it are skipped)
+  let shortCircuitAt = Infinity;
+  // Settles once every non-parallel hook started so far has settled
+  let sequential: Promise<unknown> = Promise.resolve();
+
+  const start = (index: number, run: () => Promise<HookOutcome>, waitFor: Promise<unknown>) => {
+    const promise = waitFor.then(async () => {
+      if (shortCircuitAt < index) {
+        return null;
+      }
+      const result = await run();
+      if (result instanceof RedirectResponse || result instanceof NotFoundResponse) {
+        shortCircuitAt = Math.min(shortCircuitAt, index);
+      }
+      return result;
+    });
+    // Rejections are handled when results are consumed; the consumer may stop early
+    promise.catch(() => {});
+    return promise;
+  };
+
+  layoutHooks.forEach((hook, i) => {
+    if (!hook) {
+      layouts.push(null);
+      return;
+    }
+
+    const parallel = route.layoutParallel?.[i] === true;
+    const promise = start(i, () => Promise.resolve(hook(ctx)), parallel ? Promise.resolve() : sequential);
+    if (!parallel) {
+      // A failing layout hook does not stop the hooks after it
+      sequential = promise.then(() => undefined, () => undefined);
+    }
+    layouts.push(promise);
+  });
+
+  const page = start(layoutHooks.length, () => runRouteServerHook(route, ctx), sequential);
+
+  return { layouts, page };
+}
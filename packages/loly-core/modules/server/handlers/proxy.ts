@@ -0,0 +1,226 @@
+import { Request, Response } from "express";
+import { pipeline } from "stream/promises";
+import type { Dispatcher } from "undici";
+import type { RewriteLoader, RewriteProxyOptions } from "@router/index";
+import { getRequestLogger } from "@logger/index";
+import { isDataRequest } from "./pages";
+import { withOriginalQuery } from "./redirects";
+import { resolveRequestRewrite } from "./rewrites";
+
+/**
+ * Request headers forwarded upstream when the rule does not set `proxy.headers`.
+ */
+const DEFAULT_PROXY_HEADERS = [
+  "accept",
+  "accept-encoding",
+  "accept-language",
+  "authorization",
+  "cache-control",
+  "content-type",
+  "cookie",
+  "if-match",
+  "if-modified-since",
+  "if-none-match",
+  "if-range",
+  "range",
+  "referer",
+  "user-agent",
+];
+
+const DEFAULT_PROXY_TIMEOUT = 30000;
+
+/**
+ * Connection-level headers, never forwarded in either direction.
+ */
+const HOP_BY_HOP_HEADERS = new Set([
+  "connection",
+  "keep-alive",
+  "proxy-authenticate",
+  "proxy-authorization",
+  "proxy-connection",
+  "te",
+  "trailer",
+  "transfer-encoding",
+  "upgrade",
+  "host",
+]);
+
+const TIMEOUT_ERROR_CODES = new Set([
+  "UND_ERR_HEADERS_TIMEOUT",
+  "UND_ERR_BODY_TIMEOUT",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+
+/**
+ * Builds the upstream URL: the rewrite destination with the original query string.
+ */
+function buildUpstreamUrl(destination: string, req: Request): URL {
+  const url = new URL(destination);
+  const queryIndex = req.originalUrl.indexOf("?");
+  if (queryIndex !== -1) {
+    const search = new URLSearchParams(req.originalUrl.slice(queryIndex + 1));
+    search.forEach((value, key) => url.searchParams.append(key, value));
+  }
+  return url;
+}
+
+/**
+ * Builds the upstream request headers from the allow-list, plus `x-forwarded-*`.
+ */
+function buildUpstreamHeaders(
+  req: Request,
+  allowList: string[],
+  streamingBody: boolean
+): Record<string, string> {
+  const headers: Record<string, string> = {};
+
+  for (const name of allowList) {
+    const key = name.toLowerCase();
+    if (HOP_BY_HOP_HEADERS.has(key)) continue;
+    const value = req.headers[key];
+    if (value !== undefined) {
+      headers[key] = Array.isArray(value) ? value.join(", ") : value;
+    }
+  }
+
+  // The length of a streamed body is unchanged; buffered bodies get it from undici
+  if (streamingBody && req.headers["content-length"]) {
+    headers["content-length"] = req.headers["content-length"];
+  }
+
+  const remoteAddress = req.socket.remoteAddress;
+  const forwardedFor = [req.get("x-forwarded-for"), remoteAddress].filter(Boolean).join(", ");
+  if (forwardedFor) {
+    headers["x-forwarded-for"] = forwardedFor;
+  }
+  const host = req.get("host");
+  if (host) {
+    headers["x-forwarded-host"] = host;
+  }
+  headers["x-forwarded-proto"] = req.protocol;
+
+  return headers;
+}
+
+/**
+ * Proxies a request to an external URL, streaming the request and response bodies.
+ * Runs before the body parsers, so the request body is piped upstream unchanged.
+ *
+ * @param req - Express request object
+ * @param res - Express response object
+ * @param destination - Absolute upstream URL
+ * @param options - Proxy options of the rewrite rule
+ */
+export async function proxyRequest(
+  req: Request,
+  res: Response,
+  destination: string,
+  options: RewriteProxyOptions = {}
+): Promise<void> {
+  const { request } = await import("undici");
+  const timeout = options.timeout ?? DEFAULT_PROXY_TIMEOUT;
+  const method = req.method.toUpperCase() as Dispatcher.HttpMethod;
+  const body = method !== "GET" && method !== "HEAD" && !req.readableEnded ? req : null;
+
+  // Abort the upstream request if the client goes away
+  const controller = new AbortController();
+  const onClose = () => {
+    if (!res.writableFinished) controller.abort();
+  };
+  res.on("close", onClose);
+
+  try {
+    const upstream = await request(buildUpstreamUrl(destination, req), {
+      method,
+      headers: buildUpstreamHeaders(req, options.headers ?? DEFAULT_PROXY_HEADERS, body !== null),
+      body,
+      signal: controller.signal,
+      headersTimeout: timeout,
+      bodyTimeout: timeout,
+    });
+
+    res.status(upstream.statusCode);
+    for (const [name, value] of Object.entries(upstream.headers)) {
+      if (value === undefined || HOP_BY_HOP_HEADERS.has(name.toLowerCase())) continue;
+      res.setHeader(name, value);
+    }
+
+    if (method === "HEAD") {
+      upstream.body.resume();
+      res.end();
+      return;
+    }
+
+    await pipeline(upstream.body, res);
+  } catch (error) {
+    if (controller.signal.aborted) {
+      return;
+    }
+
+    const reqLogger = getRequestLogger(req);
+    reqLogger.error("Error proxying rewrite", error, {
+      urlPath: req.path,
+      destination,
+    });
+
+    if (res.headersSent) {
+      // The response is already streaming: cut it so the client sees a failure
+      res.destroy();
+      return;
+    }
+
+    const code = error instanceof Error && "code" in error ? String(error.code) : "";
+    const isTimeout = TIMEOUT_ERROR_CODES.has(code);
+    res
+      .status(isTimeout ? 504 : 502)
+      .type("text/plain")
+      .send(isTimeout ? "Gateway Timeout" : "Bad Gateway");
+  } finally {
+    res.off("close", onClose);
+  }
+}
+
+/**
+ * Proxies requests whose rewrite destination is an absolute URL.
+ * Runs for every method, before `/api/*` and page handling.
+ *
+ * Data requests (SPA navigation) get a JSON redirect to the same URL,
+ * so the client loads the proxied page as a full document.
+ *
+ * @param req - Express request object
+ * @param res - Express response object
+ * @param rewriteLoader - Loader of the compiled rewrite rules
+ * @returns True if the request was proxied
+ */
+export async function handleProxyRewrites(
+  req: Request,
+  res: Response,
+  rewriteLoader: RewriteLoader
+): Promise<boolean> {
+  let rewrite;
+  try {
+    rewrite = await resolveRequestRewrite(req, req.path, rewriteLoader);
+  } catch (error) {
+    const reqLogger = getRequestLogger(req);
+    reqLogger.error("Error processing rewrites", error, {
+      urlPath: req.path,
+    });
+    return false;
+  }
+
+  if (!rewrite?.external) {
+    return false;
+  }
+
+  if (isDataRequest(req)) {
+    res.statusCode = 200;
+    res.setHeader("Content-Type", "application/json; charset=utf-8");
+    res.end(
+      JSON.stringify({ redirect: { destination: withOriginalQuery(req.path, req), permanent: false } })
+    );
+    return true;
+  }
+
+  await proxyRequest(req, res, rewrite.rewrittenPath, rewrite.proxy);
+  return true;
+}
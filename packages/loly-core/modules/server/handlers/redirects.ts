@@ -0,0 +1,79 @@
+import { Request, Response } from "express";
+import { processRedirects, type RedirectLoader } from "@router/index";
+import { resolveHref } from "@runtime/client/routing-options";
+import { getRequestLogger } from "@logger/index";
+import { isDataRequest } from "./pages";
+import { getRequestLocale } from "./i18n";
+
+/**
+ * Appends the query string of the original request to a redirect destination,
+ * without the framework's data request flag.
+ */
+export function withOriginalQuery(destination: string, req: Request): string {
+  const queryIndex = req.originalUrl.indexOf("?");
+  if (queryIndex === -1) {
+    return destination;
+  }
+
+  const search = new URLSearchParams(req.originalUrl.slice(queryIndex + 1));
+  search.delete("__fw_data");
+  const query = search.toString();
+  if (!query) {
+    return destination;
+  }
+
+  const hashIndex = destination.indexOf("#");
+  const base = hashIndex === -1 ? destination : destination.slice(0, hashIndex);
+  const hash = hashIndex === -1 ? "" : destination.slice(hashIndex);
+  return `${base}${base.includes("?") ? "&" : "?"}${query}${hash}`;
+}
+
+/**
+ * Applies the first matching rule from `redirects.config.ts`.
+ * Runs before global middleware, for pages and `/api/*`.
+ *
+ * Data requests (SPA navigation) get a JSON redirect, like `ctx.Redirect()`
+ * from a server hook, so the client navigates to the destination.
+ *
+ * @param req - Express request object
+ * @param res - Express response object
+ * @param redirectLoader - Loader of the compiled redirect rules
+ * @returns True if the request was redirected
+ */
+export async function handleConfigRedirects(
+  req: Request,
+  res: Response,
+  redirectLoader: RedirectLoader
+): Promise<boolean> {
+  let redirect;
+  try {
+    const compiledRedirects = await redirectLoader.loadRedirects();
+    if (compiledRedirects.length === 0) {
+      return false;
+    }
+    redirect = processRedirects(req.path, compiledRedirects, req);
+  } catch (error) {
+    const reqLogger = getRequestLogger(req);
+    reqLogger.error("Error processing redirects", error, {
+      urlPath: req.path,
+    });
+    return false;
+  }
+
+  if (!redirect) {
+    return false;
+  }
+
+  const destination = withOriginalQuery(redirect.destination, req);
+
+  if (isDataRequest(req)) {
+    res.statusCode = 200;
+    res.setHeader("Content-Type", "application/json; charset=utf-8");
+    res.end(JSON.stringify({ redirect: { destination, permanent: redirect.permanent } }));
+    return true;
+  }
+
+  // App-relative destinations are resolved to their canonical URL (basePath, locale, trailingSlash)
+  res.redirect(redirect.statusCode, resolveHref(destination, getRequestLocale(req)));
+  return true;
+}
@@ -1,5 +1,9 @@
 import { Response } from "express";
 import { LoaderResult } from "@router/index";
+import { resolveHref } from "@runtime/client/routing-options";
+import { getRequestLocale } from "./i18n";
+import { sendWithValidators } from "./route-headers";
+import { getValidatedSearchParams } from "./route-schemas";
 
 /**
  * Handles data request responses (JSON).
@@ -33,6 +37,12 @@ export function handleDataResponse(
     ...(loaderResult.pathname ? { pathname: loaderResult.pathname } : {}),
   };
 
+  // Query parsed by the page's `searchParams` schema (useRouter().searchParams)
+  const searchParams = getValidatedSearchParams(res.req);
+  if (searchParams) {
+    response.searchParams = searchParams;
+  }
+
   // Include separated props if provided (layoutProps only when layout hooks were executed)
   if (layoutProps !== undefined && layoutProps !== null) {
     response.layoutProps = layoutProps;
@@ -50,7 +60,7 @@ export function handleDataResponse(
   }
 
   res.statusCode = error ? 500 : 200;
-  res.end(JSON.stringify(response));
+  sendWithValidators(res, JSON.stringify(response));
 }
 
 /**
@@ -64,7 +74,8 @@ export function handleRedirect(
   redirect: { destination: string; permanent?: boolean }
 ): void {
   const { destination, permanent } = redirect;
-  res.redirect(permanent ? 301 : 302, destination);
+  // App-relative destinations are resolved to their canonical URL (basePath, locale, trailingSlash)
+  res.redirect(permanent ? 301 : 302, resolveHref(destination, getRequestLocale(res.req)));
 }
 
 /**
@@ -0,0 +1,38 @@
+import { Request } from "express";
+import { processRewrites, type RewriteLoader, type RewriteResult } from "@router/index";
+
+// Rewrite of each request, shared by the proxy, API and page handlers
+const requestRewrites = new WeakMap<
+  Request,
+  { urlPath: string; result: Promise<RewriteResult | null> }
+>();
+
+/**
+ * Applies `rewrites.config.ts` to a request once.
+ *
+ * The proxy middleware resolves the rewrite first; the API and page handlers
+ * reuse its result, so function destinations run once per request.
+ *
+ * @param req - Express request object
+ * @param urlPath - URL path to rewrite (e.g. req.path)
+ * @param rewriteLoader - Loader of the compiled rewrite rules
+ * @returns Rewrite result, or null if no rule matches
+ */
+export function resolveRequestRewrite(
+  req: Request,
+  urlPath: string,
+  rewriteLoader: RewriteLoader
+): Promise<RewriteResult | null> {
+  const cached = requestRewrites.get(req);
+  if (cached && cached.urlPath === urlPath) {
+    return cached.result;
+  }
+
+  const result = rewriteLoader
+    .loadRewrites()
+    .then((compiledRewrites) =>
+      compiledRewrites.length === 0 ? null : processRewrites(urlPath, compiledRewrites, req)
+    );
+  requestRewrites.set(req, { urlPath, result });
+  return result;
+}
@@ -0,0 +1,145 @@
+import crypto from "crypto";
+import fs from "fs";
+import { Response } from "express";
+import type { CachePolicy, RouteHeaders } from "@router/index";
+
+// Responses whose route has a cacheable policy (set by applyRouteHeaders)
+const cacheableResponses = new WeakSet<Response>();
+
+/**
+ * Formats a route cache policy as a `Cache-Control` header value.
+ *
+ * @param policy - Cache policy exported by the route
+ * @returns Cache-Control value
+ *
+ * @example
+ * formatCachePolicy({ sMaxAge: 60, staleWhileRevalidate: 300 });
+ * // "public, s-maxage=60, stale-while-revalidate=300"
+ * formatCachePolicy(false); // "no-store"
+ */
+export function formatCachePolicy(policy: CachePolicy): string {
+  if (policy === false) return "no-store";
+  if (typeof policy === "string") return policy.trim();
+
+  const directives: string[] = [policy.scope ?? "public"];
+  if (policy.maxAge !== undefined) directives.push(`max-age=${Math.floor(policy.maxAge)}`);
+  if (policy.sMaxAge !== undefined) directives.push(`s-maxage=${Math.floor(policy.sMaxAge)}`);
+  if (policy.staleWhileRevalidate !== undefined) {
+    directives.push(`stale-while-revalidate=${Math.floor(policy.staleWhileRevalidate)}`);
+  }
+  return directives.join(", ");
+}
+
+/**
+ * Applies the `headers` and `cache` exports of a page or API route to a response.
+ *
+ * The cache policy only applies to GET and HEAD requests. A cacheable policy also
+ * enables `ETag` validation (304 Not Modified) of the bodies sent with
+ * `sendWithValidators` (data JSON) and of SSR HTML through `sendRenderValidators`.
+ *
+ * @param res - Express response object
+ * @param config - Route headers and cache policy
+ * @param ctx - Request context passed to a `headers` function
+ */
+export async function applyRouteHeaders<TContext>(
+  res: Response,
+  config: { headers?: RouteHeaders<TContext> | null; cache?: CachePolicy | null },
+  ctx: TContext
+): Promise<void> {
+  if (config.headers) {
+    const headers =
+      typeof config.headers === "function" ? await config.headers(ctx) : config.headers;
+    for (const [name, value] of Object.entries(headers ?? {})) {
+      res.setHeader(name, value);
+    }
+  }
+
+  const method = res.req.method.toUpperCase();
+  if (config.cache == null || (method !== "GET" && method !== "HEAD")) {
+    return;
+  }
+
+  const cacheControl = formatCachePolicy(config.cache);
+  res.setHeader("Cache-Control", cacheControl);
+  if (!/\b(no-store|no-cache|private)\b/i.test(cacheControl)) {
+    cacheableResponses.add(res);
+  }
+}
+
+/**
+ * Sends a response body. When the route has a cacheable policy, a successful response
+ * gets an `ETag` and conditional requests that match it get a 304 without body.
+ * Only for bodies that are the same on every request (no CSP nonce).
+ *
+ * @param res - Express response object
+ * @param body - Complete response body
+ */
+export function sendWithValidators(res: Response, body: string | Buffer): void {
+  if (cacheableResponses.has(res) && res.statusCode === 200) {
+    const hash = crypto.createHash("sha1").update(body).digest("base64").substring(0, 27);
+    res.setHeader("ETag", `W/"${Buffer.byteLength(body).toString(16)}-${hash}"`);
+
+    if (res.req.fresh) {
+      res.statusCode = 304;
+      res.removeHeader("Content-Type");
+      res.removeHeader("Content-Length");
+      res.end();
+      return;
+    }
+  }
+
+  res.end(body);
+}
+
+/**
+ * Sets a weak `ETag` for a streamed SSR document when the route has a cacheable policy,
+ * and answers 304 when the request's `If-None-Match` matches it.
+ *
+ * The HTML can't be hashed (it carries the per-request CSP nonce and streams), so the
+ * validator is computed from what it is rendered from: the serialized loader data and
+ * the build id, which changes with the page components.
+ *
+ * @param res - Express response object
+ * @param data - Serializable data the document is rendered from
+ * @param buildId - Identifier of the current build
+ * @returns True if a 304 was sent
+ */
+export function sendRenderValidators(res: Response, data: unknown, buildId: string): boolean {
+  if (!cacheableResponses.has(res) || res.statusCode !== 200) return false;
+
+  const hash = crypto
+    .createHash("sha1")
+    .update(buildId)
+    .update(JSON.stringify(data) ?? "")
+    .digest("base64")
+    .substring(0, 27);
+  res.setHeader("ETag", `W/"${hash}"`);
+
+  if (res.req.fresh) {
+    res.statusCode = 304;
+    res.end();
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Sets `ETag` and `Last-Modified` for a static file (from its size and mtime)
+ * and answers 304 when the request's conditional headers match.
+ *
+ * @param res - Express response object
+ * @param file - File about to be served
+ * @returns True if a 304 was sent
+ */
+export function sendFileValidators(res: Response, file: string): boolean {
+  const { size, mtime } = fs.statSync(file);
+  res.setHeader("ETag", `W/"${size.toString(16)}-${mtime.getTime().toString(16)}"`);
+  res.setHeader("Last-Modified", mtime.toUTCString());
+
+  if (res.req.fresh) {
+    res.statusCode = 304;
+    res.end();
+    return true;
+  }
+  return false;
+}
@@ -0,0 +1,74 @@
+import { Request } from "express";
+import type { ZodSchema } from "zod";
+import { ValidationError } from "@validation/index";
+
+/**
+ * Validated input of a page or API route.
+ */
+export interface RouteInput {
+  params: Record<string, any>;
+  query: Record<string, any>;
+}
+
+/**
+ * Validates route params and query parameters with the route's `params` / `searchParams` schemas.
+ * Values without a schema are returned unchanged.
+ *
+ * @param route - Route with its optional schemas
+ * @param input - Raw params and query parameters
+ * @returns Parsed params and query, or the validation error
+ *
+ * @example
+ * const result = validateRouteInput(route, { params: ctx.params, query: ctx.query });
+ * if (!result.success) {
+ *   return res.status(400).json({ errors: result.error.format() });
+ * }
+ */
+export function validateRouteInput(
+  route: { pattern: string; paramsSchema?: ZodSchema | null; searchParamsSchema?: ZodSchema | null },
+  input: RouteInput
+): { success: true; data: RouteInput } | { success: false; error: ValidationError } {
+  let { params, query } = input;
+
+  if (route.paramsSchema) {
+    const result = route.paramsSchema.safeParse(params);
+    if (!result.success) {
+      return {
+        success: false,
+        error: new ValidationError(result.error.errors, `Invalid params for ${route.pattern}`),
+      };
+    }
+    params = result.data;
+  }
+
+  if (route.searchParamsSchema) {
+    const result = route.searchParamsSchema.safeParse(query);
+    if (!result.success) {
+      return {
+        success: false,
+        error: new ValidationError(result.error.errors, `Invalid search params for ${route.pattern}`),
+      };
+    }
+    query = result.data;
+  }
+
+  return { success: true, data: { params, query } };
+}
+
+/**
+ * Gets the query parameters parsed by the page's `searchParams` schema,
+ * sent to the client so `useRouter().searchParams` has the same values.
+ *
+ * @param req - Express request object
+ * @returns Parsed query, or undefined if the route has no schema
+ */
+export function getValidatedSearchParams(req: Request): Record<string, any> | undefined {
+  return (req as any).validatedSearchParams;
+}
+
+/**
+ * Stores the query parameters parsed by the page's `searchParams` schema.
+ */
+export function setValidatedSearchParams(req: Request, query: Record<string, any>): void {
+  (req as any).validatedSearchParams = query;
+}
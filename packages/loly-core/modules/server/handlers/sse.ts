@@ -0,0 +1,126 @@
+import { Request, Response } from "express";
+import type { SSEEventOptions, SSEOptions, SSEStream } from "@router/index.types";
+
+const DEFAULT_HEARTBEAT_MS = 15000;
+
+/**
+ * Formats a Server-Sent Event. Multi-line data is split into several `data:` lines.
+ *
+ * @param data - Event data; non-string values are serialized as JSON
+ * @param options - Event name, id and retry
+ * @returns Event in wire format, ending with a blank line
+ *
+ * @example
+ * formatSSEEvent({ count: 1 }, { event: "update", id: 7 });
+ * // "event: update\nid: 7\ndata: {\"count\":1}\n\n"
+ */
+export function formatSSEEvent(data: unknown, options: SSEEventOptions = {}): string {
+  let message = "";
+  if (options.event) message += `event: ${stripNewlines(options.event)}\n`;
+  if (options.id !== undefined) message += `id: ${stripNewlines(String(options.id))}\n`;
+  if (options.retry !== undefined) message += `retry: ${Math.floor(options.retry)}\n`;
+
+  const text = typeof data === "string" ? data : JSON.stringify(data ?? null);
+  for (const line of text.split(/\r\n|\r|\n/)) {
+    message += `data: ${line}\n`;
+  }
+  return `${message}\n`;
+}
+
+function stripNewlines(value: string): string {
+  return value.replace(/[\r\n]/g, "");
+}
+
+/**
+ * Starts a Server-Sent Events stream on an Express response (`ctx.sse()`).
+ *
+ * Headers are flushed immediately (`no-transform` also keeps the compression
+ * middleware from buffering events). A heartbeat comment keeps proxies from closing
+ * idle connections, and everything is cleaned up when the client disconnects.
+ *
+ * @param req - Express request object
+ * @param res - Express response object
+ * @param options - Heartbeat interval and client retry delay
+ * @returns Stream to send events to the client
+ */
+export function createSSEStream(
+  req: Request,
+  res: Response,
+  options: SSEOptions = {}
+): SSEStream {
+  const lastEventId =
+    req.get("last-event-id") ??
+    (typeof req.query?.lastEventId === "string" ? req.query.lastEventId : undefined);
+
+  const controller = new AbortController();
+  const closeCallbacks: Array<() => void> = [];
+  let heartbeat: ReturnType<typeof setInterval> | null = null;
+
+  res.status(200);
+  res.setHeader("Content-Type", "text/event-stream; charset=utf-8");
+  res.setHeader("Cache-Control", "no-cache, no-transform");
+  res.setHeader("Connection", "keep-alive");
+  res.setHeader("X-Accel-Buffering", "no"); // Disable nginx/proxy buffering
+  res.removeHeader("Content-Length");
+  res.removeHeader("ETag");
+  res.flushHeaders();
+
+  function cleanup(): void {
+    if (controller.signal.aborted) return;
+    controller.abort();
+    if (heartbeat) {
+      clearInterval(heartbeat);
+      heartbeat = null;
+    }
+    for (const callback of closeCallbacks.splice(0)) {
+      try {
+        callback();
+      } catch (error) {
+        console.warn("[framework][sse] Error in onClose callback:", error);
+      }
+    }
+  }
+
+  function write(chunk: string): boolean {
+    if (controller.signal.aborted || res.writableEnded || res.destroyed) {
+      return false;
+    }
+    res.write(chunk, "utf-8");
+    return true;
+  }
+
+  res.on("close", cleanup);
+
+  const stream: SSEStream = {
+    lastEventId,
+    get closed() {
+      return controller.signal.aborted;
+    },
+    signal: controller.signal,
+    send: (data, eventOptions) => write(formatSSEEvent(data, eventOptions)),
+    comment: (text) => write(`: ${stripNewlines(text)}\n\n`),
+    onClose: (callback) => {
+      if (controller.signal.aborted) {
+        callback();
+      } else {
+        closeCallbacks.push(callback);
+      }
+    },
+    close: () => {
+      if (!res.writableEnded) res.end();
+      cleanup();
+    },
+  };
+
+  if (options.retry !== undefined) {
+    write(`retry: ${Math.floor(options.retry)}\n\n`);
+  }
+
+  const interval = options.heartbeat ?? DEFAULT_HEARTBEAT_MS;
+  if (interval !== false && interval > 0) {
+    heartbeat = setInterval(() => stream.comment("ping"), interval);
+    heartbeat.unref?.();
+  }
+
+  return stream;
+}
@@ -2,6 +2,7 @@ import fs from "fs";
 import path from "path";
 import { Response } from "express";
 import { createModuleLogger } from "@logger/index";
+import { sendFileValidators } from "./route-headers";
 
 const logger = createModuleLogger("ssg");
 
@@ -43,6 +44,7 @@ export function getSsgDataPath(baseDir: string, urlPath: string): string {
 
 /**
  * Attempts to serve SSG HTML if it exists.
+ * Sends `ETag` / `Last-Modified` from the file and answers 304 to matching conditional requests.
  *
  * @param res - Express response object
  * @param ssgOutDir - SSG output directory
@@ -62,6 +64,10 @@ export function tryServeSsgHtml(
 
   logger.info("Serving SSG HTML", { urlPath, ssgHtmlPath });
 
+  if (sendFileValidators(res, ssgHtmlPath)) {
+    return true;
+  }
+
   // For SSG files, we need to allow 'unsafe-inline' since we can't generate nonces
   // for static HTML files. Override the CSP header set by Helmet.
   // Note: setHeader will override any existing header with the same name
@@ -87,6 +93,7 @@ export function tryServeSsgHtml(
 
 /**
  * Attempts to serve SSG data.json if it exists.
+ * Sends `ETag` / `Last-Modified` from the file and answers 304 to matching conditional requests.
  *
  * @param res - Express response object
  * @param ssgOutDir - SSG output directory
@@ -105,6 +112,9 @@ export function tryServeSsgData(
   }
 
   try {
+    if (sendFileValidators(res, ssgDataPath)) {
+      return true;
+    }
     const raw = fs.readFileSync(ssgDataPath, "utf-8");
     res.setHeader("Content-Type", "application/json; charset=utf-8");
     res.status(200).end(raw);
@@ -0,0 +1,160 @@
+import { Readable } from "stream";
+import { Request, Response } from "express";
+
+/**
+ * Checks whether a value is a WHATWG `Response` (returned by an API handler).
+ */
+export function isWebResponse(value: unknown): value is globalThis.Response {
+  return typeof globalThis.Response === "function" && value instanceof globalThis.Response;
+}
+
+/**
+ * Serializes a body read by the JSON or urlencoded parser, matching its content type.
+ */
+function serializeParsedBody(req: Request): string | null {
+  if (req.is("application/json") || req.is("+json")) {
+    return JSON.stringify(req.body);
+  }
+  if (req.is("application/x-www-form-urlencoded")) {
+    const form = new URLSearchParams();
+    appendFormValue(form, "", req.body);
+    return form.toString();
+  }
+  return null;
+}
+
+/**
+ * Appends a parsed urlencoded value to a form, with bracket keys for nested values
+ * (the format the extended parser reads).
+ */
+function appendFormValue(form: URLSearchParams, key: string, value: unknown): void {
+  if (value === null || value === undefined) {
+    if (key) form.append(key, "");
+    return;
+  }
+  if (typeof value !== "object") {
+    form.append(key, String(value));
+    return;
+  }
+  for (const [name, nested] of Object.entries(value)) {
+    appendFormValue(form, key ? `${key}[${Array.isArray(value) ? "" : name}]` : name, nested);
+  }
+}
+
+/**
+ * Creates a Fetch API `Request` view of an Express request (`ctx.request`).
+ *
+ * Bodies already read by the JSON/urlencoded parsers are serialized again from
+ * `req.body`; any other body is streamed from the incoming request.
+ *
+ * @param req - Express request object
+ * @returns Fetch API request with the same URL, method, headers and body
+ */
+export function toWebRequest(req: Request): globalThis.Request {
+  const url = `${req.protocol}://${req.get("host") ?? "localhost"}${req.originalUrl}`;
+
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (value === undefined) continue;
+    if (Array.isArray(value)) {
+      value.forEach((v) => headers.append(name, v));
+    } else {
+      headers.set(name, value);
+    }
+  }
+
+  const method = req.method.toUpperCase();
+  const init: RequestInit & { duplex?: "half" } = { method, headers };
+
+  if (method !== "GET" && method !== "HEAD") {
+    if (!req.readableEnded) {
+      init.body = Readable.toWeb(req) as ReadableStream;
+      init.duplex = "half";
+    } else if (req.body !== undefined) {
+      const parsedBody = serializeParsedBody(req);
+      if (parsedBody !== null) {
+        init.body = parsedBody;
+        headers.delete("content-length");
+      }
+    }
+  }
+
+  return new globalThis.Request(url, init);
+}
+
+/**
+ * Sends a WHATWG `Response` returned by an API handler through Express:
+ * status, headers and body, streaming `ReadableStream` bodies as they are produced.
+ * HEAD requests get the headers only.
+ *
+ * @param req - Express request object
+ * @param res - Express response object
+ * @param response - Response returned by the handler
+ */
+export async function sendWebResponse(
+  req: Request,
+  res: Response,
+  response: globalThis.Response
+): Promise<void> {
+  res.status(response.status);
+  if (response.statusText) {
+    res.statusMessage = response.statusText;
+  }
+
+  response.headers.forEach((value, name) => {
+    if (name === "set-cookie") return;
+    res.setHeader(name, value);
+  });
+  const cookies = response.headers.getSetCookie?.() ?? [];
+  if (cookies.length > 0) {
+    res.setHeader("Set-Cookie", cookies);
+  }
+
+  if (!response.body || req.method.toUpperCase() === "HEAD") {
+    await response.body?.cancel();
+    res.end();
+    return;
+  }
+
+  // Stop reading the body (e.g. a token stream) if the client goes away
+  const reader = response.body.getReader();
+  let clientClosed = false;
+  res.on("close", () => {
+    if (!res.writableFinished) {
+      clientClosed = true;
+      reader.cancel().catch(() => {});
+    }
+  });
+
+  res.flushHeaders();
+  try {
+    while (!clientClosed) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      const writable = res.write(value);
+      // The compression middleware buffers output until flushed: send each chunk as it arrives
+      if (typeof res.flush === "function") {
+        res.flush();
+      }
+      if (!writable && !clientClosed) {
+        await new Promise<void>((resolve) => {
+          const resume = () => {
+            res.off("drain", resume);
+            res.off("close", resume);
+            resolve();
+          };
+          res.on("drain", resume);
+          res.on("close", resume);
+        });
+      }
+    }
+  } catch (error) {
+    if (clientClosed) return;
+    throw error;
+  }
+
+  if (!clientClosed) {
+    res.end();
+  }
+}
@@ -1,11 +1,20 @@
 import express from "express";
 import { LoadedRoute, ApiRoute, WssRoute } from "@router/index.types";
-import { handleApiRequest, handlePageRequest } from "./handlers";
+import { handleApiRequest, handlePageRequest, handleConfigRedirects, handleProxyRewrites, handleLocaleRouting } from "./handlers";
 import { handleImageRequest } from "./handlers/image";
-import { RouteLoader, RewriteLoader, createRewriteLoader } from "@router/index";
+import { setupStaticRevalidation } from "./handlers/isr";
+import {
+  RouteLoader,
+  RewriteLoader,
+  createRewriteLoader,
+  RedirectLoader,
+  createRedirectLoader,
+} from "@router/index";
 import { BUILD_FOLDER_NAME } from "@constants/globals";
 import { getBuildDir, type FrameworkConfig } from "@src/config";
 import { getServerConfig } from "@server/config";
+import { getBasePath, withBasePath } from "@runtime/client/base-path";
+import { applyTrailingSlash } from "@runtime/client/routing-options";
 import path from "path";
 
 export interface SetupRoutesOptions {
@@ -47,6 +56,23 @@ function getRewriteLoader(projectRoot: string, isDev: boolean): RewriteLoader {
   return cachedRewriteLoader;
 }
 
+/**
+ * Creates and caches a RedirectLoader instance.
+ */
+let cachedRedirectLoader: RedirectLoader | null = null;
+let cachedRedirectKey: string | null = null;
+
+function getRedirectLoader(projectRoot: string, isDev: boolean): RedirectLoader {
+  const key = `${projectRoot}:${isDev}`;
+  if (cachedRedirectLoader && cachedRedirectKey === key) {
+    return cachedRedirectLoader;
+  }
+
+  cachedRedirectLoader = createRedirectLoader(projectRoot, isDev);
+  cachedRedirectKey = key;
+  return cachedRedirectLoader;
+}
+
 /**
  * Sets up route handlers for the Express application.
  * Unifies logic between dev and prod environments.
@@ -70,8 +96,9 @@ export function setupRoutes(options: SetupRoutesOptions): void {
   // Cache route chunks - they don't change during runtime
   const routeChunks = routeLoader.loadRouteChunks();
 
-  // Create rewrite loader (cached and reused)
+  // Create rewrite and redirect loaders (cached and reused)
   const rewriteLoader = getRewriteLoader(projectRoot, isDev);
+  const redirectLoader = getRedirectLoader(projectRoot, isDev);
 
   // SSG directory - available in both dev and prod if files exist
   const ssgOutDir = path.join(
@@ -79,9 +106,22 @@ export function setupRoutes(options: SetupRoutesOptions): void {
     "ssg"
   );
 
+  // Runtime state for on-demand revalidation (revalidatePath / revalidateRoute)
+  setupStaticRevalidation({
+    projectRoot,
+    ssgOutDir,
+    isDev,
+    getRoutes: async () =>
+      isDev && getRoutes ? (await getRoutes()).routes : initialRoutes,
+    config,
+  });
+
+  // Page, API and image routes are mounted under routing.basePath (req.path excludes it)
+  const router = express.Router();
+
   // Image optimization endpoint - must be registered before /api/* and catch-all routes
   if (config) {
-    app.get("/_loly/image", async (req, res) => {
+    router.get("/_loly/image", async (req, res) => {
       await handleImageRequest({
         req,
         res,
@@ -91,7 +131,58 @@ export function setupRoutes(options: SetupRoutesOptions): void {
     });
   }
 
-  app.all("/api/*", async (req, res) => {
+  // routing.trailingSlash: redirect pages to their canonical URL (308 keeps the method)
+  router.use((req, res, next) => {
+    if ((req.method !== "GET" && req.method !== "HEAD") || req.path.startsWith("/api/")) {
+      return next();
+    }
+
+    const canonicalPath = applyTrailingSlash(req.path);
+    if (canonicalPath === req.path) {
+      return next();
+    }
+
+    const queryIndex = req.originalUrl.indexOf("?");
+    const search = queryIndex === -1 ? "" : req.originalUrl.slice(queryIndex);
+    res.redirect(308, withBasePath(canonicalPath) + search);
+  });
+
+  // config.i18n: strip the /:locale prefix (req.path is the app path from here on) and detect the locale
+  router.use((req, res, next) => {
+    if (handleLocaleRouting(req, res)) {
+      return;
+    }
+    next();
+  });
+
+  // redirects.config.ts: applied before global middleware, for pages and /api/*
+  router.use(async (req, res, next) => {
+    if (await handleConfigRedirects(req, res, redirectLoader)) {
+      return;
+    }
+    next();
+  });
+
+  // rewrites.config.ts: absolute URL destinations are proxied, for every method
+  router.use(async (req, res, next) => {
+    if (await handleProxyRewrites(req, res, rewriteLoader)) {
+      return;
+    }
+    next();
+  });
+
+  // JSON and urlencoded bodies, parsed after proxying so proxied bodies are streamed untouched
+  const bodyParsers = getServerConfig(projectRoot).then(({ bodyLimit }) => ({
+    json: express.json({ limit: bodyLimit }),
+    urlencoded: express.urlencoded({ extended: true, limit: bodyLimit }),
+  }));
+  router.use((req, res, next) => {
+    bodyParsers.then(({ json, urlencoded }) => {
+      json(req, res, (err?: unknown) => (err ? next(err) : urlencoded(req, res, next)));
+    }, next);
+  });
+
+  router.all("/api/*", async (req, res) => {
     const apiRoutes = isDev && getRoutes
       ? (await getRoutes()).apiRoutes
       : initialApiRoutes;
@@ -113,7 +204,7 @@ export function setupRoutes(options: SetupRoutesOptions): void {
     });
   });
 
-  app.get("*", async (req, res) => {
+  const pageHandler: express.RequestHandler = async (req, res) => {
     let routes = initialRoutes;
     let currentNotFoundPage = notFoundPage;
 
@@ -142,6 +233,11 @@ export function setupRoutes(options: SetupRoutesOptions): void {
       config,
       rewriteLoader,
     });
-  });
-}
+  };
 
+  router.get("*", pageHandler);
+  // Server actions: form POSTs and client calls to page URLs
+  router.post("*", pageHandler);
+
+  app.use(getBasePath() || "/", router);
+}
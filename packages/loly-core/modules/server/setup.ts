@@ -6,6 +6,7 @@ import {
   ManifestRouteLoader,
   RouteLoader,
   writeClientRoutesManifest,
+  writeRouteTypes,
 } from "@router/index";
 import { startClientBundler } from "@build/bundler/client";
 import { setupHotReload } from "@dev/hot-reload-client";
@@ -13,6 +14,7 @@ import { clearAppRequireCache } from "@dev/hot-reload-server";
 import { LoadedRoute, ApiRoute, WssRoute } from "@router/index.types";
 import { BUILD_FOLDER_NAME } from "@constants/globals";
 import { getBuildDir, getStaticDir } from "@src/config";
+import { getBasePath, withBasePath } from "@runtime/client/base-path";
 
 export { RouteLoader };
 
@@ -56,9 +58,10 @@ function setupStaticFiles(
 
   // Only register middleware if the static directory exists
   if (fs.existsSync(staticDir)) {
-    // Serve static files from public/ directory at the root URL
+    // Serve static files from public/ directory at the root URL (under basePath, if set)
     // This must be registered BEFORE /static and route handlers to have priority
     app.use(
+      getBasePath() || "/",
       express.static(staticDir, {
         // In production, add caching headers for better performance
         maxAge: process.env.NODE_ENV === "production" ? "1y" : 0,
@@ -113,6 +116,8 @@ export async function setupServer(
         const loader = new FilesystemRouteLoader(appDir, projectRoot);
         const newRoutes = await loader.loadRoutes();
         writeClientRoutesManifest(newRoutes, projectRoot);
+        // WSS routes only change on restart (Socket.IO setup is one-time)
+        writeRouteTypes(newRoutes, projectRoot, wssRoutes);
         console.log("[hot-reload] Client routes manifest reloaded");
       }
       
@@ -123,15 +128,23 @@ export async function setupServer(
       //   and the require cache is cleared above to ensure server-side code reloads
     };
     
-    setupHotReload({ app, appDir, projectRoot, waitForBuild, onFileChange });
+    setupHotReload({
+      app,
+      appDir,
+      projectRoot,
+      route: withBasePath("/__fw/hot"),
+      waitForBuild,
+      onFileChange,
+    });
     
-    app.use("/static", express.static(outDir));
+    app.use(withBasePath("/static"), express.static(outDir));
 
     const routes = await routeLoader.loadRoutes();
     const wssRoutes = await routeLoader.loadWssRoutes();
     const notFoundPage = await routeLoader.loadNotFoundRoute();
     const errorPage = await routeLoader.loadErrorRoute();
     writeClientRoutesManifest(routes, projectRoot);
+    writeRouteTypes(routes, projectRoot, wssRoutes);
 
     // Reuse the same loader instance to benefit from caching
     // Pass projectRoot so it can monitor files outside app/ directory
@@ -165,7 +178,7 @@ export async function setupServer(
     const buildDir = config ? getBuildDir(projectRoot, config) : path.join(projectRoot, BUILD_FOLDER_NAME);
     const clientOutDir = path.join(buildDir, "client");
     app.use(
-      "/static",
+      withBasePath("/static"),
       express.static(clientOutDir, {
         maxAge: "1y",
         immutable: true,
@@ -0,0 +1,18 @@
+import type { Request } from "express";
+
+// Common crawlers, link unfurlers and headless browsers
+const BOT_USER_AGENT_PATTERN =
+  /bot|crawl|spider|slurp|bingpreview|mediapartners|facebookexternalhit|embedly|quora link preview|outbrain|pinterest|vkshare|w3c_validator|whatsapp|telegram|discord|skype|lighthouse|headlesschrome|chrome-lighthouse|google-inspectiontool/i;
+
+/**
+ * Checks whether a request comes from a crawler or link preview bot.
+ * Bots receive the complete HTML (after every Suspense boundary resolved)
+ * instead of a streamed response.
+ *
+ * @param req - Express request object
+ * @returns True if the user agent looks like a bot
+ */
+export function isBotRequest(req: Request): boolean {
+  const userAgent = req.headers["user-agent"];
+  return typeof userAgent === "string" && BOT_USER_AGENT_PATTERN.test(userAgent);
+}
@@ -1,16 +1,19 @@
 import { Server as HttpServer } from "http";
-import { Server, Socket } from "socket.io";
+import { Namespace, Server, Socket } from "socket.io";
 import type { ExtendedWssRoute } from "@router/loader-wss";
-import type { WssContext } from "@realtime/types";
+import type { PresenceMember, WssAckResponse, WssContext, WssError } from "@realtime/types";
 import { getServerConfig } from "./config";
 import { createStateStore } from "@realtime/state";
 import { PresenceManager } from "@realtime/presence";
+import { ConnectionLimiter, getClientIp } from "@realtime/connections";
 import { RateLimiter } from "@realtime/rate-limit";
 import { executeAuth } from "@realtime/auth";
 import { executeGuard } from "@realtime/guards";
 import { validateSchema } from "@realtime/validation";
 import { createWssLogger } from "@realtime/logging";
 import { generateRequestId } from "@logger/index";
+import { withBasePath } from "@runtime/client/base-path";
+import { buildRegexFromRoutePath } from "@router/path";
 import type { PresenceManager as PresenceManagerType } from "@realtime/presence";
 
 export interface SetupWssEventsOptions {
@@ -61,14 +64,38 @@ const generateActions = (
       }
     },
 
-    // Join a room
-    join: async (room: string) => {
+    // Join a room (and its presence)
+    join: async (room: string, meta?: Record<string, any>) => {
       await socket.join(room);
+      if (!presence) {
+        return;
+      }
+
+      const { member, joined } = await presence.joinRoom(
+        socket.nsp.name,
+        room,
+        getPresenceUserId(socket),
+        socket.id,
+        meta
+      );
+      if (joined) {
+        socket.nsp.to(room).emit("presence:join", { room, ...member });
+      } else if (meta) {
+        socket.nsp.to(room).emit("presence:update", { room, ...member });
+      }
     },
 
-    // Leave a room
+    // Leave a room (and its presence)
     leave: async (room: string) => {
       await socket.leave(room);
+      if (!presence) {
+        return;
+      }
+
+      const userId = getPresenceUserId(socket);
+      if (await presence.leaveRoom(socket.nsp.name, room, userId, socket.id)) {
+        socket.nsp.to(room).emit("presence:leave", { room, userId });
+      }
     },
 
     // Emit to a specific room
@@ -164,7 +191,44 @@ export async function setupWssEvents(options: SetupWssEventsOptions): Promise<vo
   const stateStorePrefix = realtimeConfig.scale?.stateStore?.prefix || "loly:rt:";
 
   // Initialize presence manager
-  const presence = new PresenceManager(stateStore, stateStorePrefix);
+  const presence = new PresenceManager(
+    stateStore,
+    stateStorePrefix,
+    realtimeConfig.presence?.ttlMs || 45000
+  );
+
+  // Initialize connection caps (global, per IP and per user)
+  const connectionLimiter = new ConnectionLimiter(
+    stateStore,
+    realtimeConfig.limits ?? {},
+    `${stateStorePrefix}conn:`,
+    realtimeConfig.presence?.ttlMs || 45000
+  );
+  // Ids of the underlying connections (the namespaces of a client share one connection)
+  const connectionIds = new WeakMap<object, string>();
+
+  // Namespaces by name (dynamic namespaces included), to broadcast presence changes
+  const namespacesByName = new Map<string, Namespace>();
+
+  // Refresh connection counts and room presence, and remove members whose sockets
+  // expired (e.g. crashed instances)
+  const stateHeartbeat = setInterval(() => {
+    connectionLimiter.heartbeat().catch((error) => {
+      console.warn("[loly:realtime] Connection count heartbeat failed:", error);
+    });
+    presence
+      .heartbeat()
+      .then((changes) => {
+        for (const { namespace, room, userId } of changes) {
+          namespacesByName.get(namespace)?.to(room).emit("presence:leave", { room, userId });
+        }
+      })
+      .catch((error) => {
+        console.warn("[loly:realtime] Presence heartbeat failed:", error);
+      });
+  }, realtimeConfig.presence?.heartbeatMs || 15000);
+  stateHeartbeat.unref?.();
+  httpServer.on("close", () => clearInterval(stateHeartbeat));
 
   // Initialize rate limiter
   const rateLimiter = new RateLimiter(
@@ -210,7 +274,7 @@ export async function setupWssEvents(options: SetupWssEventsOptions): Promise<vo
 
   // Create Socket.IO server
   const io = new Server(httpServer, {
-    path: realtimeConfig.path || "/wss",
+    path: withBasePath(realtimeConfig.path || "/wss"),
     transports: realtimeConfig.transports || ["websocket", "polling"],
     pingInterval: realtimeConfig.pingIntervalMs || 25000,
     pingTimeout: realtimeConfig.pingTimeoutMs || 20000,
@@ -268,24 +332,96 @@ export async function setupWssEvents(options: SetupWssEventsOptions): Promise<vo
       namespacePath = '/';
     }
 
-    const namespace = io.of(namespacePath);
+    // Folders with [params] (e.g. wss/rooms/[roomId]) become dynamic namespaces.
+    // Always case-sensitive: Socket.IO keys namespaces by their exact name, so "/Rooms/42"
+    // would be a separate namespace from "/rooms/42"
+    const { regex: namespaceRegex, paramNames } = buildRegexFromRoutePath(namespacePath, {
+      caseSensitive: true,
+    });
+    const namespace = paramNames.length > 0 ? io.of(namespaceRegex) : io.of(namespacePath);
+
+    // Admission: auth and connection caps run before the connection is accepted.
+    // Refused clients get a connect_error whose `data` is a WssError.
+    namespace.use(async (socket: Socket, next: (err?: Error) => void) => {
+      const params = extractNamespaceParams(socket.nsp.name, namespaceRegex, paramNames);
+      const logLevel = realtimeConfig.logging?.level || (process.env.NODE_ENV === "production" ? "warn" : "info");
+
+      const refuse = (error: WssError) => {
+        const err = new Error(error.message) as Error & { data?: WssError };
+        err.data = error;
+        next(err);
+      };
+
+      const clientIp = getClientIp(socket, realtimeConfig.trustProxy);
+      socket.data.clientIp = clientIp;
+
+      let user: any;
+      try {
+        // Execute auth hook (also stores the user on socket.data)
+        user = await executeAuth(normalized.auth, socket, socket.nsp.name, params, clientIp);
+      } catch (error) {
+        createWssLogger(socket.nsp.name, socket, undefined, logLevel).warn("Auth hook failed", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+        refuse({ code: "UNAUTHORIZED", message: "Authentication failed" });
+        return;
+      }
+
+      try {
+        let connectionId = connectionIds.get(socket.conn);
+        if (!connectionId) {
+          const id = generateRequestId();
+          connectionId = id;
+          connectionIds.set(socket.conn, id);
+          socket.conn.once("close", () => {
+            connectionLimiter.release(id).catch(() => {});
+          });
+        }
+
+        const admission = await connectionLimiter.acquire({
+          connectionId,
+          ip: clientIp,
+          userId: user?.id !== undefined && user?.id !== null ? String(user.id) : undefined,
+        });
+        if (!admission.allowed) {
+          createWssLogger(socket.nsp.name, socket, undefined, logLevel).warn(
+            "Connection refused",
+            admission.error.details
+          );
+          refuse(admission.error);
+          return;
+        }
+      } catch (error) {
+        createWssLogger(socket.nsp.name, socket, undefined, logLevel).error(
+          "Error checking connection limits",
+          { error: error instanceof Error ? error.message : String(error) }
+        );
+        refuse({ code: "INTERNAL_ERROR", message: "Connection could not be established" });
+        return;
+      }
+
+      next();
+    });
 
     // Set up connection handler for this namespace
     namespace.on('connection', async (socket: Socket) => {
+      // Concrete namespace of the socket (e.g. "/rooms/42") and its params
+      const socketNamespace = socket.nsp;
+      const params = extractNamespaceParams(socketNamespace.name, namespaceRegex, paramNames);
+      namespacesByName.set(socketNamespace.name, socketNamespace);
+
       // Generate request ID for this connection
       const requestId = generateRequestId();
       (socket as any).requestId = requestId;
 
       // Create logger for this socket
       const logLevel = realtimeConfig.logging?.level || (process.env.NODE_ENV === "production" ? "warn" : "info");
-      const log = createWssLogger(namespacePath, socket, undefined, logLevel);
+      const log = createWssLogger(socketNamespace.name, socket, undefined, logLevel);
 
       try {
-        // Execute auth hook
-        const user = await executeAuth(normalized.auth, socket, namespacePath);
-        
-        // Store user on socket
+        // User authenticated by the admission middleware
         (socket as any).data = (socket as any).data || {};
+        const user = (socket as any).data.user ?? null;
         (socket as any).data.user = user;
 
         // Add to presence if user exists
@@ -297,18 +433,45 @@ export async function setupWssEvents(options: SetupWssEventsOptions): Promise<vo
         const baseCtx: Partial<WssContext> = {
           req: {
             headers: socket.handshake.headers as Record<string, string | string[] | undefined>,
-            ip: socket.handshake.address,
+            ip: socket.data.clientIp ?? socket.handshake.address,
             url: socket.handshake.url,
             cookies: socket.handshake.headers.cookie
               ? parseCookies(socket.handshake.headers.cookie)
               : undefined,
           },
           user: user || null,
-          params: {},
+          params,
           pathname: wssRoute.pattern,
-          actions: generateActions(socket, namespace, presence),
+          actions: generateActions(socket, socketNamespace, presence),
           state: stateStore,
+          presence: {
+            list: async <TMeta extends Record<string, any> = Record<string, any>>(
+              room: string
+            ): Promise<PresenceMember<TMeta>[]> => {
+              const { members, expired } = await presence.listRoom<TMeta>(
+                socketNamespace.name,
+                room
+              );
+              for (const userId of expired) {
+                socketNamespace.to(room).emit("presence:leave", { room, userId });
+              }
+              return members;
+            },
+            update: async (room: string, meta: Record<string, any>) => {
+              const member = await presence.updateMember(
+                socketNamespace.name,
+                room,
+                getPresenceUserId(socket),
+                meta
+              );
+              if (member) {
+                socketNamespace.to(room).emit("presence:update", { room, ...member });
+              }
+            },
+          },
           log,
+          // Only event handlers can acknowledge
+          respond: () => {},
         };
 
         // Execute onConnect hook
@@ -322,29 +485,46 @@ export async function setupWssEvents(options: SetupWssEventsOptions): Promise<vo
           }
         }
 
-        // Register event handlers
-        for (const [eventName, eventDef] of normalized.events.entries()) {
-          socket.on(eventName, async (data: any) => {
+        // Register event handlers (under the declared name and its lowercased key)
+        for (const [eventKey, eventDef] of normalized.events.entries()) {
+          const listener = async (...args: any[]) => {
+            // Socket.IO passes the acknowledgement callback as the last argument
+            const ack = typeof args[args.length - 1] === "function" ? args.pop() : undefined;
+            const data = args[0];
+            const eventName = eventDef.name;
+
             const eventRequestId = generateRequestId();
             (socket as any).requestId = eventRequestId;
 
             const eventLogLevel = realtimeConfig.logging?.level || (process.env.NODE_ENV === "production" ? "warn" : "info");
-            const eventLog = createWssLogger(namespacePath, socket, undefined, eventLogLevel);
+            const eventLog = createWssLogger(socketNamespace.name, socket, undefined, eventLogLevel);
             eventLog.debug(`Event received: ${eventName}`, { data });
 
-            try {
-              // Build context for this event
-              const ctx: WssContext = {
-                ...baseCtx,
-                data,
-                log: eventLog,
-              } as WssContext;
+            const responder = createAckResponder(ack);
+
+            // Rejections go through the acknowledgement when the client is waiting for one
+            const reject = (code: string, message: string, details?: any) => {
+              if (ack) {
+                responder.fail({ code, message, details, requestId: eventRequestId });
+              } else {
+                ctx.actions.error(code, message, details);
+              }
+            };
 
+            // Build context for this event
+            const ctx: WssContext = {
+              ...baseCtx,
+              data,
+              log: eventLog,
+              respond: responder.respond,
+            } as WssContext;
+
+            try {
               // Schema validation
               if (eventDef.schema) {
                 const validation = validateSchema(eventDef.schema, data);
                 if (!validation.success) {
-                  ctx.actions.error("BAD_PAYLOAD", "Invalid payload", {
+                  reject("BAD_PAYLOAD", "Invalid payload", {
                     error: validation.error,
                   });
                   eventLog.warn("Schema validation failed", {
@@ -360,7 +540,7 @@ export async function setupWssEvents(options: SetupWssEventsOptions): Promise<vo
               if (eventDef.guard) {
                 const allowed = await executeGuard(eventDef.guard, ctx);
                 if (!allowed) {
-                  ctx.actions.error("FORBIDDEN", "Access denied");
+                  reject("FORBIDDEN", "Access denied");
                   eventLog.warn("Guard check failed");
                   return;
                 }
@@ -377,7 +557,7 @@ export async function setupWssEvents(options: SetupWssEventsOptions): Promise<vo
                   }
                 );
                 if (!globalAllowed) {
-                  ctx.actions.error("RATE_LIMIT", "Rate limit exceeded");
+                  reject("RATE_LIMIT", "Rate limit exceeded");
                   eventLog.warn("Global rate limit exceeded");
                   return;
                 }
@@ -386,35 +566,60 @@ export async function setupWssEvents(options: SetupWssEventsOptions): Promise<vo
               // Rate limiting (per-event)
               if (eventDef.rateLimit) {
                 const eventAllowed = await rateLimiter.checkLimit(
-                  `${socket.id}:${eventName}`,
+                  `${socket.id}:${eventKey}`,
                   eventDef.rateLimit
                 );
                 if (!eventAllowed) {
-                  ctx.actions.error("RATE_LIMIT", "Event rate limit exceeded");
+                  reject("RATE_LIMIT", "Event rate limit exceeded");
                   eventLog.warn("Event rate limit exceeded");
                   return;
                 }
               }
 
-              // Execute handler
-              await eventDef.handler(ctx);
+              // Execute handler; its return value resolves the acknowledgement
+              // unless ctx.respond() was called
+              const timeoutMs = eventDef.timeoutMs ?? realtimeConfig.eventTimeoutMs;
+              const timeout = ack && timeoutMs
+                ? setTimeout(() => {
+                    if (responder.settled) return;
+                    reject("TIMEOUT", `Event '${eventName}' timed out after ${timeoutMs}ms`);
+                    eventLog.warn("Event acknowledgement timed out", { timeoutMs });
+                  }, timeoutMs)
+                : null;
+
+              try {
+                const result = await eventDef.handler(ctx);
+                responder.respond(result);
+              } finally {
+                if (timeout) clearTimeout(timeout);
+              }
               eventLog.debug(`Event handled: ${eventName}`);
             } catch (error) {
               const errorLogLevel = realtimeConfig.logging?.level || (process.env.NODE_ENV === "production" ? "warn" : "info");
-              const errorLog = createWssLogger(namespacePath, socket, undefined, errorLogLevel);
+              const errorLog = createWssLogger(socketNamespace.name, socket, undefined, errorLogLevel);
               errorLog.error(`Error handling event ${eventName}`, {
                 error: error instanceof Error ? error.message : String(error),
                 stack: error instanceof Error ? error.stack : undefined,
               });
 
-              // Emit error to client
-              socket.emit("__loly:error", {
+              const wssError: WssError = {
                 code: "INTERNAL_ERROR",
                 message: "An error occurred while processing your request",
                 requestId: eventRequestId,
-              });
+              };
+              if (ack) {
+                responder.fail(wssError);
+              } else {
+                // Emit error to client
+                socket.emit("__loly:error", wssError);
+              }
             }
-          });
+          };
+
+          socket.on(eventKey, listener);
+          if (eventDef.name !== eventKey) {
+            socket.on(eventDef.name, listener);
+          }
         }
 
         // Handle disconnect
@@ -426,13 +631,27 @@ export async function setupWssEvents(options: SetupWssEventsOptions): Promise<vo
             await presence.removeSocketForUser(String(userId), socket.id);
           }
 
+          // Leave room presence (Socket.IO already removed the socket from its rooms)
+          try {
+            for (const change of await presence.removeSocket(socket.id)) {
+              socketNamespace.to(change.room).emit("presence:leave", {
+                room: change.room,
+                userId: change.userId,
+              });
+            }
+          } catch (error) {
+            log.error("Error removing room presence", {
+              error: error instanceof Error ? error.message : String(error),
+            });
+          }
+
           // Execute onDisconnect hook
           if (normalized.onDisconnect) {
             try {
               const disconnectLogLevel = realtimeConfig.logging?.level || (process.env.NODE_ENV === "production" ? "warn" : "info");
               const disconnectCtx: WssContext = {
                 ...baseCtx,
-                log: createWssLogger(namespacePath, socket, undefined, disconnectLogLevel),
+                log: createWssLogger(socketNamespace.name, socket, undefined, disconnectLogLevel),
               } as WssContext;
               await normalized.onDisconnect(disconnectCtx, reason);
             } catch (error) {
@@ -454,6 +673,65 @@ export async function setupWssEvents(options: SetupWssEventsOptions): Promise<vo
   }
 }
 
+/**
+ * Gets the presence identity of a socket: the authenticated user id, or the socket id.
+ */
+function getPresenceUserId(socket: Socket): string {
+  const userId = (socket as any).data?.user?.id;
+  return userId !== undefined && userId !== null ? String(userId) : socket.id;
+}
+
+/**
+ * Extracts route params from a concrete namespace name (e.g. "/rooms/42" for "/rooms/[roomId]").
+ *
+ * @param name - Namespace of the socket
+ * @param regex - Regex built from the namespace pattern
+ * @param paramNames - Param names of the pattern, in order
+ * @returns Decoded params, empty for static namespaces
+ */
+function extractNamespaceParams(
+  name: string,
+  regex: RegExp,
+  paramNames: string[]
+): Record<string, string> {
+  const params: Record<string, string> = {};
+  const match = regex.exec(name);
+  if (!match) return params;
+
+  paramNames.forEach((paramName, i) => {
+    const value = match[i + 1];
+    if (value === undefined) return;
+    try {
+      params[paramName] = decodeURIComponent(value);
+    } catch {
+      params[paramName] = value;
+    }
+  });
+  return params;
+}
+
+/**
+ * Wraps a Socket.IO acknowledgement callback so it is answered once,
+ * with `{ ok: true, data }` or `{ ok: false, error }`.
+ *
+ * @param ack - Acknowledgement callback sent by the client (undefined for fire-and-forget emits)
+ */
+function createAckResponder(ack: ((response: WssAckResponse) => void) | undefined) {
+  const responder = {
+    settled: false,
+    respond: (result?: any) => send({ ok: true, data: result }),
+    fail: (error: WssError) => send({ ok: false, error }),
+  };
+
+  function send(response: WssAckResponse): void {
+    if (responder.settled) return;
+    responder.settled = true;
+    ack?.(response);
+  }
+
+  return responder;
+}
+
 /**
  * Parse cookie string into object
  */
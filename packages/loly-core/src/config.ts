@@ -1,6 +1,10 @@
 import path from "path";
 import fs from "fs";
 import { BUILD_FOLDER_NAME } from "../constants/globals";
+import { normalizeBasePath } from "../modules/runtime/client/base-path";
+import type { I18nConfig } from "../modules/runtime/client/i18n";
+
+export type { I18nConfig, DomainLocale } from "../modules/runtime/client/i18n";
 
 /**
  * Framework configuration interface.
@@ -30,6 +34,9 @@ export interface FrameworkConfig {
     caseSensitive: boolean;
     basePath: string;      // Default: ''
   };
+
+  // Internationalised routing (locale prefixes and domain locales)
+  i18n?: I18nConfig;
   
   // Build
   build: {
@@ -50,6 +57,10 @@ export interface FrameworkConfig {
     streaming: boolean;
     ssr: boolean;
     ssg: boolean;
+    /** Maximum pages persisted at runtime by `dynamicParams` (default: 1000) */
+    maxDynamicPages?: number;
+    /** Milliseconds before pending Suspense boundaries and `defer()` values stop streaming (default: 10000) */
+    streamTimeout?: number;
   };
   
   // Plugins (to be implemented in Phase 2)
@@ -249,6 +260,38 @@ function validateConfig(config: FrameworkConfig, projectRoot: string): void {
     );
   }
 
+  // Validate i18n
+  if (config.i18n) {
+    const { locales, defaultLocale, domains } = config.i18n;
+    if (!Array.isArray(locales) || locales.length === 0 || locales.some((l) => !l || typeof l !== 'string')) {
+      errors.push('config.i18n.locales must be a non-empty array of strings');
+    } else {
+      if (!locales.includes(defaultLocale)) {
+        errors.push(
+          `config.i18n.defaultLocale must be one of config.i18n.locales\n` +
+          `  Received: ${JSON.stringify(defaultLocale)}\n` +
+          `  💡 Suggestion: Add it to locales, e.g., locales: [${JSON.stringify(defaultLocale)}, ...]`
+        );
+      }
+      if (domains !== undefined) {
+        if (!Array.isArray(domains)) {
+          errors.push('config.i18n.domains must be an array');
+        } else {
+          for (const domain of domains) {
+            if (!domain?.domain || typeof domain.domain !== 'string') {
+              errors.push('config.i18n.domains[].domain must be a non-empty string');
+            } else if (!locales.includes(domain.defaultLocale)) {
+              errors.push(
+                `config.i18n.domains: defaultLocale of "${domain.domain}" must be one of config.i18n.locales\n` +
+                `  Received: ${JSON.stringify(domain.defaultLocale)}`
+              );
+            }
+          }
+        }
+      }
+    }
+  }
+
   // Validate build
   const validClientBundlers = ['rspack', 'webpack', 'vite'];
   if (!validClientBundlers.includes(config.build.clientBundler)) {
@@ -307,6 +350,20 @@ function validateConfig(config: FrameworkConfig, projectRoot: string): void {
     errors.push('config.rendering.ssg must be a boolean');
   }
 
+  if (
+    config.rendering.maxDynamicPages !== undefined &&
+    (!Number.isInteger(config.rendering.maxDynamicPages) || config.rendering.maxDynamicPages < 0)
+  ) {
+    errors.push('config.rendering.maxDynamicPages must be a non-negative integer');
+  }
+
+  if (
+    config.rendering.streamTimeout !== undefined &&
+    (typeof config.rendering.streamTimeout !== 'number' || !(config.rendering.streamTimeout > 0))
+  ) {
+    errors.push('config.rendering.streamTimeout must be a positive number of milliseconds');
+  }
+
   // Validate images config if provided
   if (config.images) {
     if (config.images.quality !== undefined) {
@@ -486,3 +543,18 @@ export function getStaticDir(projectRoot: string, config: FrameworkConfig): stri
   return path.resolve(projectRoot, config.directories.static);
 }
 
+/**
+ * Exposes the routing options as `process.env.LOLY_*` variables.
+ *
+ * Server modules read them at runtime, and the client bundler injects them
+ * with DefinePlugin, so basePath, trailingSlash, caseSensitive and i18n are
+ * applied the same way on both sides.
+ *
+ * @param config - Framework configuration
+ */
+export function exposeRoutingConfig(config: FrameworkConfig): void {
+  process.env.LOLY_BASE_PATH = normalizeBasePath(config.routing.basePath);
+  process.env.LOLY_TRAILING_SLASH = config.routing.trailingSlash;
+  process.env.LOLY_CASE_SENSITIVE = String(config.routing.caseSensitive);
+  process.env.LOLY_I18N = config.i18n ? JSON.stringify(config.i18n) : "";
+}
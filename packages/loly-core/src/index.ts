@@ -15,13 +15,34 @@ export {
   WssActions,
   RedirectResponse,
   NotFoundResponse,
+  InvalidResponse,
+  ServerAction,
+  ActionContext,
+  ActionResult,
+  ErrorComponentProps,
+  CachePolicy,
+  RouteHeaders,
+  SSEOptions,
+  SSEEventOptions,
+  SSEStream,
 } from "@router/index.types";
+export type {
+  Href,
+  RouteParams,
+  RouteSearchParams,
+  RoutePattern,
+  RoutePath,
+  RealtimeNamespace,
+  RealtimeRouteOf,
+} from "@router/route-types";
 export {
   RewriteConfig,
   RewriteRule,
   RewriteCondition,
   type RewriteDestination,
+  type RewriteProxyOptions,
 } from "@router/rewrites";
+export type { RedirectConfig, RedirectRule, RedirectStatusCode } from "@router/redirects";
 export {
   defineWssRoute,
   type WssRouteDefinition,
@@ -35,17 +56,39 @@ export {
   type RealtimeStateStore,
   type RealtimeLogger,
   type RealtimeMetrics,
+  type WssError,
+  type WssErrorCode,
+  type WssAckResponse,
+  type WssPresence,
+  type PresenceMember,
+  type RealtimeEventName,
+  type RealtimeEventPayload,
+  type RealtimeEventResult,
 } from "@realtime/index";
 export { bootstrapClient } from "@runtime/client";
 export {
   FrameworkConfig,
+  type I18nConfig,
+  type DomainLocale,
   loadConfig,
   DEFAULT_CONFIG,
   getAppDir,
   getBuildDir,
   getStaticDir,
 } from "./config";
-export { withCache } from "@cache/index";
+export {
+  withCache,
+  revalidateTag,
+  getCacheStore,
+  setCacheStore,
+  MemoryCacheStore,
+  type CacheStore,
+  type CacheEntry,
+  type WithCacheOptions,
+  type MemoryCacheStoreOptions,
+} from "@cache/index";
+export { revalidatePath, revalidateRoute } from "@server/handlers/isr";
+export { defer } from "@rendering/deferred";
 export { validate, safeValidate, ValidationError, commonSchemas } from "@validation/index";
 export { sanitizeString, sanitizeObject, sanitizeParams, sanitizeQuery } from "@security/sanitize";
 export { createRateLimiter, defaultRateLimiter, strictRateLimiter, lenientRateLimiter } from "@server/middleware/rate-limit";
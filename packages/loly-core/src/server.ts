@@ -9,6 +9,7 @@ import {
   ConfigValidationError,
   getAppDir,
   getBuildDir,
+  exposeRoutingConfig,
   type FrameworkConfig,
 } from "./config";
 import { createModuleLogger } from "@logger/index";
@@ -55,6 +56,9 @@ export async function startServer(options: StartServerOptions = {}) {
     throw error;
   }
 
+  // Expose routing options to the server modules and the client bundler (DefinePlugin)
+  exposeRoutingConfig(config);
+
   // Use config values, but allow overrides from options and environment variables
   // PORT and HOST are standard environment variables in hosting platforms (Render, Heroku, etc.)
   const port =